@@ -1,10 +1,16 @@
 import { Modal, Setting } from 'obsidian';
-import { TaskSection, Recurrence, RecurrenceType } from './types';
+import { Task, TaskSection, Recurrence, RecurrenceType } from './types';
+import { formatRecurrenceRule } from './taskParser';
+import { parseQuickAdd, QuickAddResult } from './quickAddParser';
 import type FocusPlugin from './main';
 
+/**
+ * Modal for adding a task, or for editing one when constructed with an existing task
+ */
 export class AddTaskModal extends Modal {
 	plugin: FocusPlugin;
 	defaultToThisWeek: boolean;
+	editingTask: Task | null;
 	taskTitle: string = '';
 	taskUrl: string = '';
 	taskDoDate: string = '';
@@ -18,13 +24,28 @@ export class AddTaskModal extends Modal {
 	constructor(
 		plugin: FocusPlugin,
 		defaultToThisWeek: boolean,
-		onSubmit: (title: string, section: TaskSection, url?: string, doDate?: string, doTime?: string, recurrence?: Recurrence) => void
+		onSubmit: (title: string, section: TaskSection, url?: string, doDate?: string, doTime?: string, recurrence?: Recurrence) => void,
+		editingTask?: Task
 	) {
 		super(plugin.app);
 		this.plugin = plugin;
 		this.defaultToThisWeek = defaultToThisWeek;
 		this.addToThisWeek = defaultToThisWeek;
 		this.onSubmit = onSubmit;
+		this.editingTask = editingTask ?? null;
+
+		// Prefill from the task being edited
+		if (editingTask) {
+			this.taskTitle = editingTask.title;
+			this.taskUrl = editingTask.url ?? '';
+			this.taskDoDate = editingTask.doDate ?? '';
+			this.taskDoTime = editingTask.doTime ?? '';
+			if (editingTask.recurrence) {
+				this.recurrenceType = editingTask.recurrence.type;
+				this.recurrenceInterval = editingTask.recurrence.interval;
+				this.recurrenceDayOfMonth = editingTask.recurrence.dayOfMonth ?? 1;
+			}
+		}
 	}
 
 	onOpen(): void {
@@ -32,15 +53,17 @@ export class AddTaskModal extends Modal {
 		contentEl.empty();
 		contentEl.addClass('focus-add-task-modal');
 
-		contentEl.createEl('h2', { text: 'Add task' });
+		contentEl.createEl('h2', { text: this.editingTask ? 'Edit task' : 'Add task' });
 
 		new Setting(contentEl)
 			.setName('Task')
 			.addText((text) => {
 				text
 					.setPlaceholder('What needs to be done?')
+					.setValue(this.taskTitle)
 					.onChange((value) => {
 						this.taskTitle = value;
+						this.renderQuickAddPreview(previewEl);
 					});
 				text.inputEl.addEventListener('keydown', (e) => {
 					if (e.key === 'Enter' && this.taskTitle.trim()) {
@@ -51,12 +74,16 @@ export class AddTaskModal extends Modal {
 				setTimeout(() => text.inputEl.focus(), 10);
 			});
 
+		// What natural-language parsing picked up from the title as it's typed
+		const previewEl = contentEl.createDiv('focus-quick-add-preview');
+
 		new Setting(contentEl)
 			.setName('URL')
 			.setDesc('Optional link for this task')
 			.addText((text) => {
 				text
 					.setPlaceholder('https://...')
+					.setValue(this.taskUrl)
 					.onChange((value) => {
 						this.taskUrl = value;
 					});
@@ -99,6 +126,7 @@ export class AddTaskModal extends Modal {
 			type: 'date',
 			cls: 'focus-date-input'
 		});
+		dateInput.value = this.taskDoDate;
 		dateInput.addEventListener('change', (e) => {
 			this.taskDoDate = (e.target as HTMLInputElement).value;
 		});
@@ -110,6 +138,7 @@ export class AddTaskModal extends Modal {
 			.addText((text) => {
 				text.inputEl.type = 'time';
 				text.inputEl.addClass('focus-time-input');
+				text.setValue(this.taskDoTime);
 				text.onChange((value) => {
 					this.taskDoTime = value;
 				});
@@ -136,7 +165,7 @@ export class AddTaskModal extends Modal {
 			});
 
 		const recurrenceDetailsEl = recurrenceContainer.createDiv('focus-recurrence-details');
-		recurrenceDetailsEl.style.display = 'none';
+		recurrenceDetailsEl.style.display = this.recurrenceType === 'none' ? 'none' : 'block';
 
 		new Setting(recurrenceDetailsEl)
 			.setName('Every')
@@ -145,7 +174,7 @@ export class AddTaskModal extends Modal {
 				text.inputEl.min = '1';
 				text.inputEl.max = '365';
 				text.inputEl.style.width = '60px';
-				text.setValue('1');
+				text.setValue(String(this.recurrenceInterval));
 				text.onChange((value) => {
 					this.recurrenceInterval = parseInt(value) || 1;
 				});
@@ -158,28 +187,31 @@ export class AddTaskModal extends Modal {
 				text.inputEl.min = '1';
 				text.inputEl.max = '31';
 				text.inputEl.style.width = '60px';
-				text.setValue('1');
+				text.setValue(String(this.recurrenceDayOfMonth));
 				text.onChange((value) => {
 					this.recurrenceDayOfMonth = parseInt(value) || 1;
 				});
 			});
-		dayOfMonthSetting.settingEl.style.display = 'none';
+		dayOfMonthSetting.settingEl.style.display = this.recurrenceType === 'months' ? '' : 'none';
 
-		new Setting(contentEl)
-			.setName('Add to this week')
-			.setDesc('Schedule this task for the current week')
-			.addToggle((toggle) => {
-				toggle
-					.setValue(this.addToThisWeek)
-					.onChange((value) => {
-						this.addToThisWeek = value;
-					});
-			});
+		// An edited task stays in its section; moving it is done from the views
+		if (!this.editingTask) {
+			new Setting(contentEl)
+				.setName('Add to this week')
+				.setDesc('Schedule this task for the current week')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.addToThisWeek)
+						.onChange((value) => {
+							this.addToThisWeek = value;
+						});
+				});
+		}
 
 		new Setting(contentEl)
 			.addButton((btn) => {
 				btn
-					.setButtonText('Add task')
+					.setButtonText(this.editingTask ? 'Save' : 'Add task')
 					.setCta()
 					.onClick(() => {
 						if (this.taskTitle.trim()) {
@@ -196,13 +228,48 @@ export class AddTaskModal extends Modal {
 			});
 	}
 
+	/**
+	 * Natural-language fields in the title. Only new tasks are parsed, so editing
+	 * a title that happens to mention a date doesn't reschedule the task.
+	 */
+	private parseTitle(): QuickAddResult | null {
+		if (this.editingTask) return null;
+		const parsed = parseQuickAdd(this.taskTitle);
+		return parsed.title ? parsed : null;
+	}
+
+	private renderQuickAddPreview(previewEl: HTMLElement): void {
+		previewEl.empty();
+		const parsed = this.parseTitle();
+		if (!parsed) return;
+
+		const parts: string[] = [];
+		if (parsed.doDate) {
+			const date = new Date(parsed.doDate + 'T00:00:00');
+			parts.push(`📅 ${date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}`);
+		}
+		if (parsed.doTime) parts.push(`⏰ ${parsed.doTime}`);
+		if (parsed.recurrence) parts.push(`🔁 ${formatRecurrenceRule(parsed.recurrence)}`);
+		if (parsed.url) parts.push(`🔗 ${parsed.url}`);
+		parts.push(...parsed.tags.map(tag => `#${tag}`));
+		if (parts.length === 0) return;
+
+		previewEl.createEl('span', { text: parsed.title, cls: 'focus-quick-add-title' });
+		previewEl.createEl('span', { text: parts.join(' · ') });
+	}
+
 	private submit(): void {
-		const section: TaskSection = this.addToThisWeek ? 'thisWeek' : 'unscheduled';
-		const url = this.taskUrl.trim() || undefined;
-		const doDate = this.taskDoDate || undefined;
-		const doTime = this.taskDoTime || undefined;
+		const section: TaskSection = this.editingTask
+			? this.editingTask.section
+			: this.addToThisWeek ? 'thisWeek' : 'unscheduled';
+		// Values set in the form win over ones typed into the title
+		const parsed = this.parseTitle();
+		const title = parsed ? parsed.title : this.taskTitle.trim();
+		const url = this.taskUrl.trim() || parsed?.url;
+		const doDate = this.taskDoDate || parsed?.doDate;
+		const doTime = this.taskDoTime || parsed?.doTime;
 
-		let recurrence: Recurrence | undefined;
+		let recurrence: Recurrence | undefined = parsed?.recurrence;
 		if (this.recurrenceType !== 'none') {
 			recurrence = {
 				type: this.recurrenceType,
@@ -211,9 +278,14 @@ export class AddTaskModal extends Modal {
 			if (this.recurrenceType === 'months') {
 				recurrence.dayOfMonth = this.recurrenceDayOfMonth;
 			}
+			// The modal has no weekday picker, so keep one set in the file
+			const previous = this.editingTask?.recurrence;
+			if (this.recurrenceType === 'weeks' && previous?.type === 'weeks' && previous.dayOfWeek !== undefined) {
+				recurrence.dayOfWeek = previous.dayOfWeek;
+			}
 		}
 
-		this.onSubmit(this.taskTitle.trim(), section, url, doDate, doTime, recurrence);
+		this.onSubmit(title, section, url, doDate, doTime, recurrence);
 		this.close();
 	}
 
@@ -5,6 +5,7 @@ import type FocusPlugin from './main';
 export class EndOfDayModal extends Modal {
 	plugin: FocusPlugin;
 	data: FocusData | null = null;
+	private unsubscribe: (() => void) | null = null;
 
 	constructor(plugin: FocusPlugin) {
 		super(plugin.app);
@@ -12,7 +13,11 @@ export class EndOfDayModal extends Modal {
 	}
 
 	async onOpen(): Promise<void> {
-		this.data = await this.plugin.loadTaskData();
+		this.unsubscribe = this.plugin.store.onChange((data) => {
+			this.data = data;
+			this.render();
+		});
+		this.data = await this.plugin.store.getData();
 		this.render();
 	}
 
@@ -77,14 +82,11 @@ export class EndOfDayModal extends Modal {
 						cls: 'focus-quick-complete-btn',
 					});
 					completeBtn.addEventListener('click', () => {
-						task.completed = true;
-						void this.plugin.saveTaskData(this.data!).then(() => {
+						void this.plugin.store.completeTask(task.id).then((result) => {
 							// Sync completion to source file if task came from vault
-							if (task.sourceFile) {
-								void this.plugin.syncTaskCompletionToSource(task);
+							if (result?.task.sourceFile) {
+								void this.plugin.syncTaskCompletionToSource(result.task);
 							}
-							this.plugin.refreshFocusView();
-							this.render();
 						});
 					});
 				}
@@ -133,6 +135,7 @@ export class EndOfDayModal extends Modal {
 	}
 
 	onClose(): void {
+		this.unsubscribe?.();
 		const { contentEl } = this;
 		contentEl.empty();
 	}
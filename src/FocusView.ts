@@ -1,15 +1,114 @@
-import { ItemView, WorkspaceLeaf, Menu, Notice, TFile } from 'obsidian';
-import { FOCUS_VIEW_TYPE, Task, TaskSection, FocusData, DailyHabit } from './types';
-import { computeNextRecurrenceDate } from './taskParser';
+import { App, ItemView, WorkspaceLeaf, Menu, Modal, Notice, Setting, TFile } from 'obsidian';
+import { FOCUS_VIEW_TYPE, SECTION_NAMES, Task, Subtask, TaskSection, FocusData, DailyHabit } from './types';
+import { countSubtasks } from './taskParser';
+import { TaskDetailModal } from './TaskDetailModal';
 import type FocusPlugin from './main';
 
+const MONTH_NAMES = [
+	'January', 'February', 'March', 'April', 'May', 'June',
+	'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * One row to show in a `RowList`. `signature` captures everything the row displays.
+ */
+interface RowItem {
+	key: string;
+	signature: string;
+	render: (parent: DocumentFragment) => void;
+}
+
+/**
+ * The rows of one list element, keyed so that an update rebuilds only the rows whose
+ * signature changed and moves the others into place. Untouched rows keep their DOM,
+ * so focus, scroll position and hover state survive. Rows go after any other
+ * children the parent already has.
+ */
+class RowList {
+	private parentEl: HTMLElement;
+	private rows = new Map<string, { signature: string; els: HTMLElement[] }>();
+
+	constructor(parentEl: HTMLElement) {
+		this.parentEl = parentEl;
+	}
+
+	update(items: RowItem[]): void {
+		// The same task can appear twice after a hand edit; give each copy its own row
+		const seen = new Map<string, number>();
+		const keyed = items.map((item) => {
+			const count = seen.get(item.key) ?? 0;
+			seen.set(item.key, count + 1);
+			return count === 0 ? item : { ...item, key: `${item.key}#${count}` };
+		});
+		const wanted = new Map(keyed.map(item => [item.key, item]));
+
+		// Drop rows that are gone or out of date
+		for (const [key, row] of this.rows) {
+			if (wanted.get(key)?.signature !== row.signature) {
+				row.els.forEach(el => el.remove());
+				this.rows.delete(key);
+			}
+		}
+
+		let kept = 0;
+		this.rows.forEach(row => kept += row.els.length);
+		const offset = this.parentEl.children.length - kept;
+
+		// Build the missing rows, then put every row in order, touching only those out of place
+		const ordered: HTMLElement[] = [];
+		for (const item of keyed) {
+			let row = this.rows.get(item.key);
+			if (!row) {
+				const fragment = createFragment(item.render);
+				row = { signature: item.signature, els: Array.from(fragment.children) as HTMLElement[] };
+				this.rows.set(item.key, row);
+			}
+			ordered.push(...row.els);
+		}
+		ordered.forEach((el, index) => {
+			const current = this.parentEl.children[offset + index];
+			if (current !== el) {
+				this.parentEl.insertBefore(el, current ?? null);
+			}
+		});
+	}
+}
+
+/**
+ * A collapsible month in the Completed section
+ */
+interface MonthGroup {
+	toggleEl: HTMLElement;
+	titleEl: HTMLElement;
+	listEl: HTMLElement;
+	rows: RowList;
+}
+
+/**
+ * The parts of the view built once and updated in place afterwards
+ */
+interface ViewLayout {
+	toggleCompletedBtn: HTMLElement;
+	sections: Record<'immediate' | 'thisWeek', { titleEl: HTMLElement; rows: RowList }>;
+	completedEl: HTMLElement;
+	completedTitleEl: HTMLElement;
+	months: RowList;
+}
+
 export class FocusView extends ItemView {
 	plugin: FocusPlugin;
 	private draggedTask: Task | null = null;
 	private draggedFromSection: TaskSection | null = null;
 	private selectedTaskIndex: number = -1;
+	private selectedTaskId: string | null = null; // Lets the selection follow its task when the list changes
 	private selectedSection: TaskSection | null = null;
 	private data: FocusData | null = null;
+	private archivedMonths: string[] = []; // Months in archive files, read only once opened
+	private expandedTasks = new Set<string>(); // Tasks whose checklist is open
+	private expandedMonths = new Set<string>(); // Completed months that are open
+	private renderId = 0; // Lets a render that was overtaken by a newer one stop early
+	private layout: ViewLayout | null = null;
+	private monthGroups = new Map<string, MonthGroup>();
 
 	constructor(leaf: WorkspaceLeaf, plugin: FocusPlugin) {
 		super(leaf);
@@ -38,17 +137,34 @@ export class FocusView extends ItemView {
 		// Add class to main container for styling scope
 		this.containerEl.addClass('focus-plugin-view');
 
+		// Re-render whenever the tasks change, from this view or anywhere else
+		this.register(this.plugin.store.onChange(() => void this.render()));
+
 		await this.render();
 	}
 
 	async onClose(): Promise<void> {
 		this.containerEl.removeEventListener('keydown', this.handleKeyDown.bind(this));
+		this.layout = null;
+		this.monthGroups.clear();
 		await Promise.resolve();
 	}
 
 	private handleKeyDown(e: KeyboardEvent): void {
 		if (!this.data) return;
 
+		// Undo/redo work even when no task is left to select
+		if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+			e.preventDefault();
+			void (e.shiftKey ? this.plugin.redo() : this.plugin.undo());
+			return;
+		}
+		if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+			e.preventDefault();
+			void this.plugin.redo();
+			return;
+		}
+
 		const allTasks = [
 			...this.data.tasks.immediate.filter(t => !t.completed),
 			...this.data.tasks.thisWeek.filter(t => !t.completed),
@@ -60,15 +176,13 @@ export class FocusView extends ItemView {
 			case 'ArrowDown':
 			case 'j':
 				e.preventDefault();
-				this.selectedTaskIndex = Math.min(this.selectedTaskIndex + 1, allTasks.length - 1);
-				this.updateSelection();
+				this.selectTask(allTasks, Math.min(this.selectedTaskIndex + 1, allTasks.length - 1));
 				break;
 
 			case 'ArrowUp':
 			case 'k':
 				e.preventDefault();
-				this.selectedTaskIndex = Math.max(this.selectedTaskIndex - 1, 0);
-				this.updateSelection();
+				this.selectTask(allTasks, Math.max(this.selectedTaskIndex - 1, 0));
 				break;
 
 			case 'Enter':
@@ -76,7 +190,7 @@ export class FocusView extends ItemView {
 				e.preventDefault();
 				if (this.selectedTaskIndex >= 0 && this.selectedTaskIndex < allTasks.length) {
 					const task = allTasks[this.selectedTaskIndex];
-					void this.toggleTaskCompleteById(task.id);
+					void this.toggleTaskComplete(task);
 				}
 				break;
 
@@ -85,7 +199,7 @@ export class FocusView extends ItemView {
 				if (this.selectedTaskIndex >= 0) {
 					const task = allTasks[this.selectedTaskIndex];
 					if (task.section === 'thisWeek') {
-						void this.moveTaskById(task.id, 'thisWeek', 'immediate');
+						void this.moveTask(task, 'immediate');
 					}
 				}
 				break;
@@ -95,7 +209,7 @@ export class FocusView extends ItemView {
 				if (this.selectedTaskIndex >= 0) {
 					const task = allTasks[this.selectedTaskIndex];
 					if (task.section === 'immediate') {
-						void this.moveTaskById(task.id, 'immediate', 'thisWeek');
+						void this.moveTask(task, 'thisWeek');
 					}
 				}
 				break;
@@ -104,19 +218,36 @@ export class FocusView extends ItemView {
 				e.preventDefault();
 				if (this.selectedTaskIndex >= 0) {
 					const task = allTasks[this.selectedTaskIndex];
-					void this.moveTaskById(task.id, task.section, 'unscheduled');
-					new Notice('Task moved to unscheduled');
+					void this.moveTask(task, 'unscheduled');
+				}
+				break;
+
+			case 'e':
+				e.preventDefault();
+				if (this.selectedTaskIndex >= 0) {
+					const task = allTasks[this.selectedTaskIndex];
+					this.plugin.openEditTaskModal(task);
 				}
 				break;
 
 			case 'Escape':
-				this.selectedTaskIndex = -1;
-				this.updateSelection();
+				this.selectTask(allTasks, -1);
 				break;
 		}
 	}
 
-	private updateSelection(): void {
+	private selectTask(allTasks: Task[], index: number): void {
+		this.selectedTaskIndex = index;
+		this.selectedTaskId = allTasks[index]?.id ?? null;
+		this.updateSelection(true);
+	}
+
+	/**
+	 * Highlight the selected task. After an update the selection stays on the same task,
+	 * or, if that task left the list, on whichever task took its place.
+	 * @param scroll - Scroll the task into view (for keyboard navigation)
+	 */
+	private updateSelection(scroll = false): void {
 		// Remove all previous selections
 		this.containerEl.querySelectorAll('.focus-task-selected').forEach(el => {
 			el.removeClass('focus-task-selected');
@@ -129,128 +260,105 @@ export class FocusView extends ItemView {
 			...this.data.tasks.thisWeek.filter(t => !t.completed),
 		];
 
-		if (this.selectedTaskIndex >= allTasks.length) return;
+		const followed = allTasks.findIndex(t => t.id === this.selectedTaskId);
+		if (followed > -1) {
+			this.selectedTaskIndex = followed;
+		}
+		this.selectedTaskIndex = Math.min(this.selectedTaskIndex, allTasks.length - 1);
+		if (this.selectedTaskIndex < 0) return;
 
 		const task = allTasks[this.selectedTaskIndex];
+		this.selectedTaskId = task.id;
 		const taskEl = this.containerEl.querySelector(`[data-task-id="${task.id}"]`);
 		if (taskEl) {
 			taskEl.addClass('focus-task-selected');
-			taskEl.scrollIntoView({ block: 'nearest' });
-		}
-	}
-
-	private async toggleTaskCompleteById(taskId: string): Promise<void> {
-		if (!this.data) return;
-
-		for (const section of ['immediate', 'thisWeek', 'unscheduled'] as TaskSection[]) {
-			const taskIndex = this.data.tasks[section].findIndex(t => t.id === taskId);
-			if (taskIndex > -1) {
-				const task = this.data.tasks[section][taskIndex];
-				await this.archiveOrRestoreTask(task, section, this.data);
-				return;
+			if (scroll) {
+				taskEl.scrollIntoView({ block: 'nearest' });
 			}
 		}
 	}
 
 	/**
-	 * Archives a completed task to the monthly bucket, or restores it if uncompleting
+	 * Completes a task (archiving it and creating its next occurrence if it recurs),
+	 * or unchecks a completed task still shown in its section
 	 */
-	private async archiveOrRestoreTask(task: Task, section: TaskSection, data: FocusData): Promise<void> {
-		task.completed = !task.completed;
-
+	private async toggleTaskComplete(task: Task): Promise<void> {
 		if (task.completed) {
-			// Task is being completed - archive it
-			const today = new Date().toISOString().split('T')[0];
-			task.completedAt = today;
-
-			// Get month key (e.g., "2026-01")
-			const monthKey = today.substring(0, 7);
-
-			// Initialize completedTasks if needed
-			if (!data.completedTasks) {
-				data.completedTasks = {};
-			}
-			if (!data.completedTasks[monthKey]) {
-				data.completedTasks[monthKey] = [];
+			const restored = await this.plugin.store.updateTask(task.id, { completed: false, completedAt: undefined }, 'Uncomplete task');
+			if (restored?.sourceFile) {
+				await this.plugin.syncTaskCompletionToSource(restored);
 			}
+			return;
+		}
 
-			// Remove from active section
-			const index = data.tasks[section].findIndex(t => t.id === task.id);
-			if (index > -1) {
-				data.tasks[section].splice(index, 1);
-			}
+		const result = await this.plugin.store.completeTask(task.id);
+		if (!result) return;
 
-			// Add to completed archive
-			data.completedTasks[monthKey].push(task);
-
-			// If recurring, create next occurrence
-			if (task.recurrence) {
-				const nextDoDate = computeNextRecurrenceDate(task.recurrence, task.doDate);
-				const nextTask: Task = {
-					id: Date.now().toString(36) + Math.random().toString(36).substring(2, 11),
-					title: task.title,
-					completed: false,
-					section: 'thisWeek',
-					url: task.url,
-					doDate: nextDoDate,
-					doTime: task.doTime,
-					recurrence: { ...task.recurrence },
-				};
-				data.tasks.thisWeek.push(nextTask);
-				new Notice(`Next occurrence created for ${nextDoDate}`);
-			}
-		} else {
-			// Task is being uncompleted - this shouldn't happen from active list
-			// but handle it gracefully
-			task.completedAt = undefined;
+		if (result.next) {
+			new Notice(`Next occurrence created for ${result.next.doDate}`);
 		}
-
-		await this.plugin.saveTaskData(data);
+		this.plugin.showUndoNotice('Task completed.');
 
 		// Sync completion to source file if task came from vault
-		if (task.sourceFile) {
-			await this.plugin.syncTaskCompletionToSource(task);
+		if (result.task.sourceFile) {
+			await this.plugin.syncTaskCompletionToSource(result.task);
 		}
-
-		await this.render();
 	}
 
-	private async moveTaskById(taskId: string, fromSection: TaskSection, toSection: TaskSection): Promise<void> {
-		if (!this.data) return;
-
+	private async moveTask(task: Task, toSection: TaskSection): Promise<void> {
 		// Check max immediate
-		if (toSection === 'immediate') {
+		if (toSection === 'immediate' && this.data) {
 			const activeImmediate = this.data.tasks.immediate.filter(t => !t.completed);
 			if (activeImmediate.length >= this.plugin.settings.maxImmediateTasks) {
-				new Notice(`Maximum ${this.plugin.settings.maxImmediateTasks} tasks in immediate.`);
+				new Notice(`Maximum ${this.plugin.settings.maxImmediateTasks} tasks in immediate. Move one out first.`);
 				return;
 			}
 		}
 
-		const task = this.data.tasks[fromSection].find(t => t.id === taskId);
-		if (!task) return;
-
-		// Remove from old section
-		const fromIndex = this.data.tasks[fromSection].findIndex(t => t.id === taskId);
-		if (fromIndex > -1) {
-			this.data.tasks[fromSection].splice(fromIndex, 1);
+		if (await this.plugin.store.moveTask(task.id, toSection)) {
+			this.plugin.showUndoNotice(`Task moved to ${SECTION_NAMES[toSection]}.`);
 		}
+	}
 
-		// Add to new section
-		task.section = toSection;
-		this.data.tasks[toSection].push(task);
+	/**
+	 * Bring the view up to date with the task data. The layout is built on the first
+	 * render; after that only rows whose task changed are rebuilt, so the scroll
+	 * position, open months and the selected task survive every update.
+	 */
+	async render(): Promise<void> {
+		const renderId = ++this.renderId;
 
-		await this.plugin.saveTaskData(this.data);
-		await this.render();
+		// Check if habits need daily reset
+		const data = await this.checkHabitReset(await this.plugin.store.getData());
+		const archivedMonths = await this.plugin.store.archive.months();
+		if (renderId !== this.renderId) return;
+		this.data = data;
+		this.archivedMonths = archivedMonths;
+
+		this.layout ??= this.buildLayout();
+		this.updateHeader(this.layout);
+
+		// Immediate section (includes habits at the top)
+		this.updateSection(this.layout, 'Immediate', 'immediate', data);
+
+		// This week section
+		this.updateSection(this.layout, 'This week', 'thisWeek', data);
+
+		// Completed section with monthly archives
+		this.updateCompletedSection(this.layout, data);
+
+		// Restore selection if any
+		this.updateSelection();
 	}
 
-	async render(): Promise<void> {
-		const container = this.containerEl.children[1];
+	/**
+	 * Build the parts of the view that stay in place between updates
+	 */
+	private buildLayout(): ViewLayout {
+		const container = this.containerEl.children[1] as HTMLElement;
 		container.empty();
 		container.addClass('focus-view-container');
 
-		this.data = await this.plugin.loadTaskData();
-
 		// Header with add button
 		const header = container.createEl('div', { cls: 'focus-header' });
 		header.createEl('h2', { text: 'Focus mode', cls: 'focus-title' });
@@ -260,15 +368,7 @@ export class FocusView extends ItemView {
 		// Toggle completed visibility button
 		const toggleCompletedBtn = headerActions.createEl('button', {
 			cls: 'focus-header-btn focus-toggle-completed-btn',
-			attr: {
-				title: this.plugin.settings.hideCompletedTasks
-					? 'Show completed tasks'
-					: 'Hide completed tasks',
-			},
 		});
-		toggleCompletedBtn.innerHTML = this.plugin.settings.hideCompletedTasks
-			? '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24"/><line x1="1" y1="1" x2="23" y2="23"/></svg>'
-			: '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"/><circle cx="12" cy="12" r="3"/></svg>';
 		toggleCompletedBtn.addEventListener('click', async () => {
 			this.plugin.settings.hideCompletedTasks = !this.plugin.settings.hideCompletedTasks;
 			await this.plugin.saveSettings();
@@ -284,89 +384,128 @@ export class FocusView extends ItemView {
 			this.plugin.openAddTaskModal(true); // Default to This Week when triggered from Focus view
 		});
 
-		// Check if habits need daily reset
-		await this.checkHabitReset(this.data);
-
-		// Immediate section (includes habits at the top)
-		this.renderSection(container, 'Immediate', 'immediate', this.data.tasks.immediate, this.data);
-
-		// This week section
-		this.renderSection(container, 'This week', 'thisWeek', this.data.tasks.thisWeek, this.data);
+		const sections = {
+			immediate: this.buildSection(container, 'immediate'),
+			thisWeek: this.buildSection(container, 'thisWeek'),
+		};
 
-		// Completed section with monthly archives
-		this.renderCompletedSection(container, this.data);
+		// Completed section, hidden while there is nothing in it
+		const completedEl = container.createEl('div', { cls: 'focus-section focus-section-completed' });
+		const completedHeaderEl = completedEl.createEl('div', { cls: 'focus-section-header' });
+		const completedTitleEl = completedHeaderEl.createEl('span', { cls: 'focus-section-title' });
 
 		// Footer with link to task file
 		this.renderFooter(container);
 
-		// Restore selection if any
-		this.updateSelection();
+		return { toggleCompletedBtn, sections, completedEl, completedTitleEl, months: new RowList(completedEl) };
 	}
 
-	private renderCompletedSection(container: Element, data: FocusData): void {
-		const completedTasks = data.completedTasks || {};
-		const monthKeys = Object.keys(completedTasks).sort().reverse(); // Most recent first
-
-		// Count total completed tasks
-		const totalCompleted = monthKeys.reduce((sum, key) => sum + (completedTasks[key]?.length || 0), 0);
-
-		if (totalCompleted === 0) return;
-
-		const sectionEl = container.createEl('div', { cls: 'focus-section focus-section-completed' });
+	private updateHeader(layout: ViewLayout): void {
+		const hideCompleted = this.plugin.settings.hideCompletedTasks;
+		layout.toggleCompletedBtn.setAttr('title', hideCompleted ? 'Show completed tasks' : 'Hide completed tasks');
+		layout.toggleCompletedBtn.innerHTML = hideCompleted
+			? '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19m-6.72-1.07a3 3 0 1 1-4.24-4.24"/><line x1="1" y1="1" x2="23" y2="23"/></svg>'
+			: '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"/><circle cx="12" cy="12" r="3"/></svg>';
+	}
 
-		// Section header
-		const headerEl = sectionEl.createEl('div', { cls: 'focus-section-header' });
-		headerEl.createEl('span', {
-			text: `Completed (${totalCompleted})`,
-			cls: 'focus-section-title',
-		});
+	private updateCompletedSection(layout: ViewLayout, data: FocusData): void {
+		const completedTasks = data.completedTasks || {};
+		const { archive } = this.plugin.store;
+		const fileMonths = Object.keys(completedTasks).filter(key => completedTasks[key]?.length > 0);
+		// Archived months emptied by restoring their last task are left out
+		const archivedMonths = this.archivedMonths.filter(key => archive.cached(key)?.length !== 0);
+		const monthKeys = Array.from(new Set([...fileMonths, ...archivedMonths]))
+			.sort()
+			.reverse(); // Most recent first
+
+		// Count completed tasks in the task file (archived months are counted once opened)
+		const totalCompleted = fileMonths.reduce((sum, key) => sum + completedTasks[key].length, 0);
+		layout.completedEl.toggle(monthKeys.length > 0);
+		layout.completedTitleEl.setText(`Completed (${totalCompleted})`);
+
+		// Each month as a collapsible group, built once and then updated in place
+		layout.months.update(monthKeys.map(monthKey => ({
+			key: monthKey,
+			signature: monthKey,
+			render: (parent) => {
+				this.monthGroups.set(monthKey, this.buildMonthGroup(parent, monthKey));
+			},
+		})));
+		for (const monthKey of Array.from(this.monthGroups.keys())) {
+			if (!monthKeys.includes(monthKey)) {
+				this.monthGroups.delete(monthKey);
+			}
+		}
 
-		// Render each month as a collapsible group
 		for (const monthKey of monthKeys) {
-			const tasks = completedTasks[monthKey];
-			if (!tasks || tasks.length === 0) continue;
-
-			this.renderMonthGroup(sectionEl, monthKey, tasks, data);
+			const archived = archivedMonths.includes(monthKey) ? archive.cached(monthKey) : [];
+			this.updateMonthGroup(this.monthGroups.get(monthKey)!, monthKey, completedTasks[monthKey] ?? [], archived);
 		}
 	}
 
-	private renderMonthGroup(container: Element, monthKey: string, tasks: Task[], data: FocusData): void {
+	private buildMonthGroup(container: DocumentFragment, monthKey: string): MonthGroup {
 		const monthEl = container.createEl('div', { cls: 'focus-month-group' });
 
-		// Format month header (e.g., "2026-01" -> "January 2026")
-		const [year, month] = monthKey.split('-');
-		const monthNames = [
-			'January', 'February', 'March', 'April', 'May', 'June',
-			'July', 'August', 'September', 'October', 'November', 'December',
-		];
-		const monthName = `${monthNames[parseInt(month, 10) - 1]} ${year}`;
-
 		// Collapsible header
 		const headerEl = monthEl.createEl('div', { cls: 'focus-month-header' });
-		const toggleIcon = headerEl.createEl('span', { cls: 'focus-month-toggle', text: '▶' });
-		headerEl.createEl('span', { text: `${monthName} (${tasks.length})`, cls: 'focus-month-title' });
+		const toggleEl = headerEl.createEl('span', { cls: 'focus-month-toggle' });
+		const titleEl = headerEl.createEl('span', { cls: 'focus-month-title' });
 
-		// Task list (hidden by default)
-		const listEl = monthEl.createEl('div', { cls: 'focus-month-tasks focus-month-collapsed' });
-
-		for (const task of tasks) {
-			this.renderCompletedTask(listEl, task, monthKey, data);
-		}
+		const listEl = monthEl.createEl('div', { cls: 'focus-month-tasks' });
 
 		// Toggle visibility on click
 		headerEl.addEventListener('click', () => {
-			const isCollapsed = listEl.hasClass('focus-month-collapsed');
-			if (isCollapsed) {
-				listEl.removeClass('focus-month-collapsed');
-				toggleIcon.setText('▼');
+			if (this.expandedMonths.has(monthKey)) {
+				this.expandedMonths.delete(monthKey);
 			} else {
-				listEl.addClass('focus-month-collapsed');
-				toggleIcon.setText('▶');
+				this.expandedMonths.add(monthKey);
+				// An archived month is read from its file the first time it's opened
+				if (this.archivedMonths.includes(monthKey) && !this.plugin.store.archive.cached(monthKey)) {
+					void this.plugin.store.archive.load(monthKey).then(() => this.render());
+				}
+			}
+			if (this.layout && this.data) {
+				this.updateCompletedSection(this.layout, this.data);
 			}
 		});
+
+		return { toggleEl, titleEl, listEl, rows: new RowList(listEl) };
+	}
+
+	/**
+	 * @param archived - The month's tasks from its archive file, or undefined while the file is unread
+	 */
+	private updateMonthGroup(group: MonthGroup, monthKey: string, tasks: Task[], archived: Task[] | undefined): void {
+		// Format month header (e.g., "2026-01" -> "January 2026")
+		const [year, month] = monthKey.split('-');
+		const monthName = `${MONTH_NAMES[parseInt(month, 10) - 1]} ${year}`;
+
+		const expanded = this.expandedMonths.has(monthKey);
+		group.toggleEl.setText(expanded ? '▼' : '▶');
+		group.titleEl.setText(archived ? `${monthName} (${tasks.length + archived.length})` : `${monthName} (archived)`);
+		group.listEl.toggleClass('focus-month-collapsed', !expanded);
+
+		// Archived tasks are only built while their month is open, so large archives stay cheap
+		group.rows.update(expanded
+			? [
+				...tasks.map(task => ({
+					key: task.id,
+					signature: JSON.stringify(task),
+					render: (parent: DocumentFragment) => this.renderCompletedTask(parent, task),
+				})),
+				...(archived ?? []).map(task => ({
+					key: task.id,
+					signature: `archived:${JSON.stringify(task)}`,
+					render: (parent: DocumentFragment) => this.renderCompletedTask(parent, task, monthKey),
+				})),
+			]
+			: []);
 	}
 
-	private renderCompletedTask(container: Element, task: Task, monthKey: string, data: FocusData): void {
+	/**
+	 * @param archivedMonth - The archive file the task is in, if it's not in the task file
+	 */
+	private renderCompletedTask(container: DocumentFragment, task: Task, archivedMonth?: string): void {
 		const taskEl = container.createEl('div', {
 			cls: 'focus-task focus-task-completed',
 			attr: { 'data-task-id': task.id },
@@ -379,7 +518,7 @@ export class FocusView extends ItemView {
 		});
 		checkbox.checked = true;
 		checkbox.addEventListener('change', async () => {
-			await this.restoreTaskFromArchive(task, monthKey, data);
+			await this.restoreTaskFromArchive(task, archivedMonth);
 		});
 
 		// Task title with completion date
@@ -393,34 +532,16 @@ export class FocusView extends ItemView {
 		}
 	}
 
-	private async restoreTaskFromArchive(task: Task, monthKey: string, data: FocusData): Promise<void> {
-		// Remove from completed archive
-		const tasks = data.completedTasks[monthKey];
-		if (tasks) {
-			const index = tasks.findIndex(t => t.id === task.id);
-			if (index > -1) {
-				tasks.splice(index, 1);
-			}
-			// Clean up empty month
-			if (tasks.length === 0) {
-				delete data.completedTasks[monthKey];
-			}
-		}
-
+	private async restoreTaskFromArchive(task: Task, archivedMonth?: string): Promise<void> {
 		// Restore to original section (or default to unscheduled)
-		task.completed = false;
-		task.completedAt = undefined;
-		const targetSection = task.section || 'unscheduled';
-		data.tasks[targetSection].push(task);
-
-		await this.plugin.saveTaskData(data);
+		const restored = archivedMonth
+			? await this.plugin.store.restoreArchivedTask(archivedMonth, task.id)
+			: await this.plugin.store.restoreTask(task.id);
 
 		// Sync to source file if needed
-		if (task.sourceFile) {
-			await this.plugin.syncTaskCompletionToSource(task);
+		if (restored?.sourceFile) {
+			await this.plugin.syncTaskCompletionToSource(restored);
 		}
-
-		await this.render();
 	}
 
 	private renderFooter(container: Element): void {
@@ -444,24 +565,26 @@ export class FocusView extends ItemView {
 
 	/**
 	 * Check if habits need to be reset for a new day
+	 * @returns The data to render, with habits reset if it is a new day
 	 */
-	private async checkHabitReset(data: FocusData): Promise<void> {
+	private async checkHabitReset(data: FocusData): Promise<FocusData> {
 		const today = new Date().toISOString().split('T')[0];
+		if (data.habitResetDate === today) return data;
 
-		if (data.habitResetDate !== today) {
-			// New day - reset all habits
-			for (const habit of data.habits) {
+		// New day - reset all habits
+		return this.plugin.store.update(undefined, (fresh) => {
+			for (const habit of fresh.habits) {
 				habit.completedToday = false;
 			}
-			data.habitResetDate = today;
-			await this.plugin.saveTaskData(data);
-		}
+			fresh.habitResetDate = today;
+			return fresh;
+		});
 	}
 
 	/**
 	 * Render a habit styled like a task (appears in Immediate section)
 	 */
-	private renderHabitAsTask(container: Element, habit: DailyHabit, data: FocusData): void {
+	private renderHabitAsTask(container: DocumentFragment, habit: DailyHabit): void {
 		const habitEl = container.createEl('div', {
 			cls: 'focus-task focus-task-habit',
 			attr: { 'data-habit-id': habit.id },
@@ -473,10 +596,12 @@ export class FocusView extends ItemView {
 			cls: 'focus-checkbox',
 		});
 		checkbox.checked = habit.completedToday;
-		checkbox.addEventListener('change', async () => {
-			habit.completedToday = checkbox.checked;
-			await this.plugin.saveTaskData(data);
-			await this.render(); // Re-render to hide completed habit
+		checkbox.addEventListener('change', () => {
+			// The re-render after the change hides the completed habit
+			void this.plugin.store.update('Check off habit', (data) => {
+				const stored = data.habits.find(h => h.id === habit.id);
+				if (stored) stored.completedToday = checkbox.checked;
+			});
 		});
 
 		// Habit title
@@ -491,23 +616,12 @@ export class FocusView extends ItemView {
 		});
 	}
 
-	private renderSection(
-		container: Element,
-		title: string,
-		section: TaskSection,
-		tasks: Task[],
-		data: FocusData
-	): void {
+	private buildSection(container: Element, section: 'immediate' | 'thisWeek'): ViewLayout['sections'][typeof section] {
 		const sectionEl = container.createEl('div', { cls: `focus-section focus-section-${section}` });
 
 		// Section header
 		const headerEl = sectionEl.createEl('div', { cls: 'focus-section-header' });
-		const activeTasks = tasks.filter(t => !t.completed);
-		const maxIndicator = section === 'immediate' ? `/${this.plugin.settings.maxImmediateTasks}` : '';
-		headerEl.createEl('span', {
-			text: `${title} (${activeTasks.length}${maxIndicator})`,
-			cls: 'focus-section-title',
-		});
+		const titleEl = headerEl.createEl('span', { cls: 'focus-section-title' });
 
 		// Task list
 		const listEl = sectionEl.createEl('div', {
@@ -516,13 +630,30 @@ export class FocusView extends ItemView {
 		});
 
 		// Make section a drop target
-		this.setupDropZone(listEl, section, data);
+		this.setupDropZone(listEl, section);
+
+		return { titleEl, rows: new RowList(listEl) };
+	}
+
+	private updateSection(layout: ViewLayout, title: string, section: 'immediate' | 'thisWeek', data: FocusData): void {
+		const tasks = data.tasks[section];
+
+		// Section header
+		const activeTasks = tasks.filter(t => !t.completed);
+		const maxIndicator = section === 'immediate' ? `/${this.plugin.settings.maxImmediateTasks}` : '';
+		layout.sections[section].titleEl.setText(`${title} (${activeTasks.length}${maxIndicator})`);
+
+		const rows: RowItem[] = [];
 
 		// Render habits at top of Immediate section (look like tasks)
 		if (section === 'immediate') {
 			const incompleteHabits = (data.habits || []).filter(h => !h.completedToday);
 			for (const habit of incompleteHabits) {
-				this.renderHabitAsTask(listEl, habit, data);
+				rows.push({
+					key: `habit:${habit.id}`,
+					signature: JSON.stringify(habit),
+					render: (parent) => this.renderHabitAsTask(parent, habit),
+				});
 			}
 		}
 
@@ -565,19 +696,40 @@ export class FocusView extends ItemView {
 		});
 
 		for (const task of displayTasks) {
-			this.renderTask(listEl, task, section, data);
+			rows.push({
+				key: task.id,
+				signature: this.taskSignature(task),
+				render: (parent) => this.renderTask(parent, task, section),
+			});
 		}
 
 		// Empty state / drop hint
 		if (tasks.length === 0) {
-			listEl.createEl('div', {
-				text: section === 'immediate' ? 'Drop tasks here to focus' : 'No tasks scheduled',
-				cls: 'focus-empty-state',
+			rows.push({
+				key: 'empty',
+				signature: section,
+				render: (parent) => {
+					parent.createEl('div', {
+						text: section === 'immediate' ? 'Drop tasks here to focus' : 'No tasks scheduled',
+						cls: 'focus-empty-state',
+					});
+				},
 			});
 		}
+
+		layout.sections[section].rows.update(rows);
+	}
+
+	/**
+	 * Everything a task row shows, including what depends on today's date;
+	 * the row is rebuilt only when this changes
+	 */
+	private taskSignature(task: Task): string {
+		const today = new Date().toISOString().split('T')[0];
+		return JSON.stringify([task, this.expandedTasks.has(task.id), this.isTaskOverdue(task), today]);
 	}
 
-	private renderTask(container: Element, task: Task, section: TaskSection, data: FocusData): void {
+	private renderTask(container: DocumentFragment, task: Task, section: TaskSection): void {
 		const taskEl = container.createEl('div', {
 			cls: `focus-task ${task.completed ? 'focus-task-completed' : ''}`,
 			attr: {
@@ -598,13 +750,33 @@ export class FocusView extends ItemView {
 		});
 		checkbox.checked = task.completed;
 		checkbox.addEventListener('change', () => {
-			void this.toggleTaskComplete(task, data);
+			void this.toggleTaskComplete(task);
 		});
 
 		// Task title with wiki-link support
 		const titleEl = taskEl.createEl('span', { cls: 'focus-task-title' });
 		this.renderTaskTitle(titleEl, task.title);
 
+		// Checklist progress (click to show or hide the subtasks)
+		const expanded = this.expandedTasks.has(task.id);
+		if (task.subtasks && task.subtasks.length > 0) {
+			const { done, total } = countSubtasks(task.subtasks);
+			const progressEl = taskEl.createEl('span', {
+				cls: `focus-subtask-progress ${done === total ? 'focus-subtask-progress-done' : ''}`,
+				text: `${expanded ? '▾' : '▸'} ${done}/${total}`,
+				attr: { title: expanded ? 'Hide checklist' : 'Show checklist' },
+			});
+			progressEl.addEventListener('click', (e) => {
+				e.stopPropagation();
+				if (expanded) {
+					this.expandedTasks.delete(task.id);
+				} else {
+					this.expandedTasks.add(task.id);
+				}
+				void this.render();
+			});
+		}
+
 		// Goal indicator - hidden for now
 		// if (task.goalId) {
 		// 	const goal = data.goals?.find(g => g.id === task.goalId);
@@ -617,6 +789,16 @@ export class FocusView extends ItemView {
 		// 	}
 		// }
 
+		// Priority indicator (Obsidian Tasks priorities other than the default)
+		if (task.priority && task.priority !== 'medium') {
+			const priorityIcons: Record<string, string> = { highest: '🔺', high: '⏫', low: '🔽', lowest: '⏬' };
+			const priorityEl = taskEl.createEl('span', {
+				cls: 'focus-priority-indicator',
+				attr: { title: `Priority: ${task.priority}` },
+			});
+			priorityEl.createEl('span', { text: priorityIcons[task.priority] });
+		}
+
 		// Source file indicator (if synced from vault)
 		if (task.sourceFile) {
 			const sourceEl = taskEl.createEl('span', {
@@ -651,6 +833,17 @@ export class FocusView extends ItemView {
 			dateEl.createEl('span', { text: `📅 ${dateDisplay}` });
 		}
 
+		// Due date indicator (deadline, separate from the do date)
+		if (task.dueDate) {
+			const today = new Date().toISOString().split('T')[0];
+			const isPastDue = !task.completed && task.dueDate < today;
+			const dueEl = taskEl.createEl('span', {
+				cls: `focus-date-indicator focus-due-indicator ${isPastDue ? 'focus-date-overdue' : ''}`,
+				attr: { title: `Due: ${task.dueDate}` },
+			});
+			dueEl.createEl('span', { text: `⚑ ${this.formatDoDate(task.dueDate)}` });
+		}
+
 		// Setup drag events (only for non-completed tasks)
 		if (!task.completed) {
 			this.setupDragEvents(taskEl, task, section);
@@ -659,8 +852,65 @@ export class FocusView extends ItemView {
 		// Context menu
 		taskEl.addEventListener('contextmenu', (e) => {
 			e.preventDefault();
-			this.showContextMenu(e, task, section, data);
+			this.showContextMenu(e, task, section);
 		});
+
+		// Double-click to edit (ignoring the checkbox and links)
+		taskEl.addEventListener('dblclick', (e) => {
+			if ((e.target as HTMLElement).closest('input, a')) return;
+			e.preventDefault();
+			this.plugin.openEditTaskModal(task);
+		});
+
+		if (task.subtasks && expanded) {
+			this.renderSubtasks(container, task.subtasks, task);
+		}
+	}
+
+	/**
+	 * Render a task's checklist below it, nesting child items
+	 */
+	private renderSubtasks(container: Node, subtasks: Subtask[], parent: Task, path: number[] = []): void {
+		const listEl = container.createEl('div', { cls: 'focus-subtask-list' });
+
+		subtasks.forEach((subtask, index) => {
+			const subtaskEl = listEl.createEl('div', {
+				cls: `focus-subtask ${subtask.completed ? 'focus-subtask-completed' : ''}`,
+			});
+
+			const checkbox = subtaskEl.createEl('input', {
+				type: 'checkbox',
+				cls: 'focus-checkbox',
+			});
+			checkbox.checked = subtask.completed;
+			checkbox.addEventListener('change', () => {
+				void this.toggleSubtaskComplete(subtask, parent, [...path, index]);
+			});
+
+			const titleEl = subtaskEl.createEl('span', { cls: 'focus-task-title' });
+			this.renderTaskTitle(titleEl, subtask.title);
+
+			if (subtask.subtasks) {
+				this.renderSubtasks(listEl, subtask.subtasks, parent, [...path, index]);
+			}
+		});
+	}
+
+	/**
+	 * Toggle a checklist item; once every item is done, offer to complete the parent task
+	 * @param path - The item's index at each nesting level under the parent
+	 */
+	private async toggleSubtaskComplete(subtask: Subtask, parent: Task, path: number[]): Promise<void> {
+		const checking = !subtask.completed;
+		const updated = await this.plugin.store.toggleSubtask(parent.id, path, checking ? 'Check off subtask' : 'Uncheck subtask');
+		if (!updated) return;
+
+		const { done, total } = countSubtasks(updated.subtasks);
+		if (checking && done === total && !updated.completed) {
+			new CompleteParentModal(this.app, updated, () => {
+				void this.toggleTaskComplete(updated);
+			}).open();
+		}
 	}
 
 	/**
@@ -788,7 +1038,7 @@ export class FocusView extends ItemView {
 		});
 	}
 
-	private setupDropZone(listEl: HTMLElement, section: TaskSection, data: FocusData): void {
+	private setupDropZone(listEl: HTMLElement, section: TaskSection): void {
 		listEl.addEventListener('dragover', (e) => {
 			e.preventDefault();
 			if (this.draggedTask && this.draggedFromSection !== section) {
@@ -806,44 +1056,11 @@ export class FocusView extends ItemView {
 
 			if (!this.draggedTask || this.draggedFromSection === section) return;
 
-			// Check max immediate tasks
-			if (section === 'immediate') {
-				const activeImmediate = data.tasks.immediate.filter(t => !t.completed);
-				if (activeImmediate.length >= this.plugin.settings.maxImmediateTasks) {
-					new Notice(`Maximum ${this.plugin.settings.maxImmediateTasks} tasks in immediate. Remove one first.`);
-					return;
-				}
-			}
-
-			void this.moveTask(this.draggedTask, this.draggedFromSection!, section, data);
+			void this.moveTask(this.draggedTask, section);
 		});
 	}
 
-	private async toggleTaskComplete(task: Task, data: FocusData): Promise<void> {
-		await this.archiveOrRestoreTask(task, task.section, data);
-	}
-
-	private async moveTask(
-		task: Task,
-		fromSection: TaskSection,
-		toSection: TaskSection,
-		data: FocusData
-	): Promise<void> {
-		// Remove from old section
-		const fromIndex = data.tasks[fromSection].findIndex(t => t.id === task.id);
-		if (fromIndex > -1) {
-			data.tasks[fromSection].splice(fromIndex, 1);
-		}
-
-		// Add to new section
-		task.section = toSection;
-		data.tasks[toSection].push(task);
-
-		await this.plugin.saveTaskData(data);
-		await this.render();
-	}
-
-	private showContextMenu(e: MouseEvent, task: Task, section: TaskSection, data: FocusData): void {
+	private showContextMenu(e: MouseEvent, task: Task, section: TaskSection): void {
 		const menu = new Menu();
 
 		// Complete/Uncomplete
@@ -852,7 +1069,7 @@ export class FocusView extends ItemView {
 				.setTitle(task.completed ? 'Mark incomplete' : 'Mark complete')
 				.setIcon(task.completed ? 'circle' : 'check-circle')
 				.onClick(() => {
-					void this.toggleTaskComplete(task, data);
+					void this.toggleTaskComplete(task);
 				});
 		});
 
@@ -865,12 +1082,7 @@ export class FocusView extends ItemView {
 					.setTitle('Move to immediate')
 					.setIcon('arrow-up')
 					.onClick(() => {
-						const activeImmediate = data.tasks.immediate.filter(t => !t.completed);
-						if (activeImmediate.length >= this.plugin.settings.maxImmediateTasks) {
-							new Notice(`Maximum ${this.plugin.settings.maxImmediateTasks} tasks in immediate.`);
-							return;
-						}
-						void this.moveTask(task, section, 'immediate', data);
+						void this.moveTask(task, 'immediate');
 					});
 			});
 		}
@@ -882,7 +1094,7 @@ export class FocusView extends ItemView {
 					.setTitle('Move to this week')
 					.setIcon('arrow-down')
 					.onClick(() => {
-						void this.moveTask(task, section, 'thisWeek', data);
+						void this.moveTask(task, 'thisWeek');
 					});
 			});
 		}
@@ -896,13 +1108,33 @@ export class FocusView extends ItemView {
 					.setTitle('Deprioritize')
 					.setIcon('arrow-down-to-line')
 					.onClick(() => {
-						void this.moveTask(task, section, 'unscheduled', data).then(() => {
-							new Notice('Task moved to backlog.');
-						});
+						void this.moveTask(task, 'unscheduled');
 					});
 			});
 		}
 
+		// Edit
+		menu.addItem((item) => {
+			item
+				.setTitle('Edit')
+				.setIcon('pencil')
+				.onClick(() => {
+					this.plugin.openEditTaskModal(task);
+				});
+		});
+
+		// Details & notes
+		menu.addItem((item) => {
+			item
+				.setTitle('Details')
+				.setIcon('file-text')
+				.onClick(() => {
+					new TaskDetailModal(this.plugin, task, (notes) => {
+						void this.plugin.store.updateTask(task.id, { notes }, 'Edit notes');
+					}).open();
+				});
+		});
+
 		// Open source file (if synced)
 		if (task.sourceFile) {
 			menu.addItem((item) => {
@@ -924,17 +1156,51 @@ export class FocusView extends ItemView {
 				.setTitle('Delete')
 				.setIcon('trash')
 				.onClick(() => {
-					const fromIndex = data.tasks[section].findIndex(t => t.id === task.id);
-					if (fromIndex > -1) {
-						data.tasks[section].splice(fromIndex, 1);
-						void this.plugin.saveTaskData(data).then(() => {
-							void this.render();
-							new Notice('Task deleted');
-						});
-					}
+					void this.plugin.store.deleteTask(task.id).then((deleted) => {
+						if (deleted) this.plugin.showUndoNotice('Task deleted.');
+					});
 				});
 		});
 
 		menu.showAtMouseEvent(e);
 	}
 }
+
+/**
+ * Asks whether to complete a task once its whole checklist is done
+ */
+class CompleteParentModal extends Modal {
+	private task: Task;
+	private onConfirm: () => void;
+
+	constructor(app: App, task: Task, onConfirm: () => void) {
+		super(app);
+		this.task = task;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Checklist done' });
+		contentEl.createEl('p', { text: `Every item under "${this.task.title}" is checked off. Complete the task too?` });
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText('Not yet').onClick(() => {
+					this.close();
+				})
+			)
+			.addButton((btn) =>
+				btn.setButtonText('Complete task').setCta().onClick(() => {
+					this.close();
+					this.onConfirm();
+				})
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
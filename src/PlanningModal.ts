@@ -1,10 +1,14 @@
 import { Modal, Notice, Menu, TFile } from 'obsidian';
 import { FocusData, Task, TaskSection, WeeklyGoal } from './types';
+import { RolloverSummary } from './taskParser';
+import { StartWeekModal } from './StartWeekModal';
 import type FocusPlugin from './main';
 
 export class PlanningModal extends Modal {
 	plugin: FocusPlugin;
 	data: FocusData | null = null;
+	private rolloverSummary: RolloverSummary | null = null; // Shown after "Start new week"
+	private unsubscribe: (() => void) | null = null;
 
 	constructor(plugin: FocusPlugin) {
 		super(plugin.app);
@@ -12,7 +16,12 @@ export class PlanningModal extends Modal {
 	}
 
 	async onOpen(): Promise<void> {
-		this.data = await this.plugin.loadTaskData();
+		// Re-render whenever the tasks change, here or anywhere else (undo, sync, another view)
+		this.unsubscribe = this.plugin.store.onChange((data) => {
+			this.data = data;
+			this.render();
+		});
+		this.data = await this.plugin.store.getData();
 		this.render();
 	}
 
@@ -33,6 +42,10 @@ export class PlanningModal extends Modal {
 		});
 		contentEl.createEl('h2', { text: `Planning view — ${dateStr}` });
 
+		if (this.rolloverSummary) {
+			this.renderRolloverSummary(contentEl, this.rolloverSummary);
+		}
+
 		// Weekly Goals section - hidden for now
 		// this.renderGoalsSection(contentEl);
 
@@ -48,6 +61,15 @@ export class PlanningModal extends Modal {
 		// Action buttons
 		const actionsEl = contentEl.createEl('div', { cls: 'focus-planning-actions' });
 
+		// Start new week button (the same rollover that runs automatically when the week changes)
+		const newWeekBtn = actionsEl.createEl('button', {
+			text: 'Start new week',
+			attr: { title: 'Roll incomplete tasks over as if a new week had begun' },
+		});
+		newWeekBtn.addEventListener('click', () => {
+			this.startNewWeek();
+		});
+
 		// Open Weekly Note button
 		const weeklyNoteBtn = actionsEl.createEl('button', {
 			text: 'Open weekly note',
@@ -64,6 +86,36 @@ export class PlanningModal extends Modal {
 		closeBtn.addEventListener('click', () => this.close());
 	}
 
+	private startNewWeek(): void {
+		new StartWeekModal(this.plugin, (summary) => {
+			this.rolloverSummary = summary;
+			this.render();
+		}).open();
+	}
+
+	private renderRolloverSummary(container: HTMLElement, summary: RolloverSummary): void {
+		const section = container.createEl('div', { cls: 'focus-planning-section focus-rollover-summary' });
+		section.createEl('h3', { text: 'New week started' });
+
+		const groups: [string, Task[]][] = [
+			['Immediate → This week', summary.toThisWeek],
+			['This week → Unscheduled', summary.toUnscheduled],
+		];
+		if (groups.every(([, tasks]) => tasks.length === 0)) {
+			section.createEl('p', { text: 'No tasks needed to move.', cls: 'focus-empty-state' });
+			return;
+		}
+
+		for (const [label, tasks] of groups) {
+			if (tasks.length === 0) continue;
+			section.createEl('div', { text: `${label} (${tasks.length})`, cls: 'focus-rollover-group' });
+			const list = section.createEl('ul');
+			for (const task of tasks) {
+				list.createEl('li', { text: task.title });
+			}
+		}
+	}
+
 	private renderFooter(container: HTMLElement): void {
 		const footer = container.createEl('div', { cls: 'focus-footer' });
 
@@ -115,9 +167,8 @@ export class PlanningModal extends Modal {
 					id: Date.now().toString(36) + Math.random().toString(36).substring(2, 11),
 					title: input.value.trim(),
 				};
-				this.data!.goals.push(newGoal);
-				void this.plugin.saveTaskData(this.data!).then(() => {
-					this.render();
+				void this.plugin.store.update('Add goal', (data) => {
+					data.goals.push(newGoal);
 				});
 			}
 		});
@@ -149,16 +200,11 @@ export class PlanningModal extends Modal {
 			cls: 'focus-goal-delete',
 		});
 		deleteBtn.addEventListener('click', () => {
-			// Unlink all tasks from this goal before deleting
-			this.unlinkTasksFromGoal(goal.id);
-
-			const index = this.data!.goals.findIndex(g => g.id === goal.id);
-			if (index > -1) {
-				this.data!.goals.splice(index, 1);
-				void this.plugin.saveTaskData(this.data!).then(() => {
-					this.render();
-				});
-			}
+			void this.plugin.store.update('Delete goal', (data) => {
+				// Unlink all tasks from this goal before deleting
+				this.unlinkTasksFromGoal(data, goal.id);
+				data.goals = data.goals.filter(g => g.id !== goal.id);
+			});
 		});
 	}
 
@@ -179,9 +225,9 @@ export class PlanningModal extends Modal {
 		return scheduledTasks.filter(t => !t.goalId);
 	}
 
-	private unlinkTasksFromGoal(goalId: string): void {
+	private unlinkTasksFromGoal(data: FocusData, goalId: string): void {
 		for (const section of ['immediate', 'thisWeek', 'unscheduled'] as TaskSection[]) {
-			for (const task of this.data!.tasks[section]) {
+			for (const task of data.tasks[section]) {
 				if (task.goalId === goalId) {
 					delete task.goalId;
 				}
@@ -331,6 +377,33 @@ export class PlanningModal extends Modal {
 		}
 	}
 
+	/**
+	 * Shows the first line of a task's notes, with the full text on hover
+	 */
+	private renderTaskNotes(taskEl: HTMLElement, task: Task): void {
+		if (!task.notes) return;
+		taskEl.createEl('span', {
+			text: task.notes.trim().split('\n')[0],
+			cls: 'focus-planning-notes',
+			attr: { title: task.notes },
+		});
+	}
+
+	/**
+	 * Button opening the task in the edit modal
+	 */
+	private renderEditButton(actionsEl: HTMLElement, task: Task): void {
+		const editBtn = actionsEl.createEl('button', {
+			text: '✎',
+			cls: 'focus-edit-btn',
+			attr: { title: 'Edit task' },
+		});
+		editBtn.addEventListener('click', (e) => {
+			e.stopPropagation();
+			this.plugin.openEditTaskModal(task);
+		});
+	}
+
 	private renderPlanningTaskSimple(container: HTMLElement, task: Task): void {
 		const taskEl = container.createEl('div', {
 			cls: `focus-planning-task ${task.completed ? 'focus-task-completed' : ''}`,
@@ -351,7 +424,10 @@ export class PlanningModal extends Modal {
 			});
 		}
 
+		this.renderTaskNotes(taskEl, task);
+
 		const actionsEl = taskEl.createEl('div', { cls: 'focus-task-actions' });
+		this.renderEditButton(actionsEl, task);
 
 		// Date picker button
 		if (!task.completed) {
@@ -374,8 +450,8 @@ export class PlanningModal extends Modal {
 				attr: { title: 'Move to unscheduled' },
 			});
 			deprioritizeBtn.addEventListener('click', () => {
-				void this.moveTaskToSection(task, task.section, 'unscheduled').then(() => {
-					new Notice(`"${task.title}" moved to unscheduled`);
+				void this.moveTaskToSection(task, 'unscheduled').then(() => {
+					this.plugin.showUndoNotice(`"${task.title}" moved to unscheduled.`);
 				});
 			});
 		}
@@ -399,7 +475,10 @@ export class PlanningModal extends Modal {
 			cls: 'focus-task-text',
 		});
 
+		this.renderTaskNotes(taskEl, task);
+
 		const actionsEl = taskEl.createEl('div', { cls: 'focus-task-actions' });
+		this.renderEditButton(actionsEl, task);
 
 		// Goal assignment button
 		const goalBtn = actionsEl.createEl('button', {
@@ -433,7 +512,10 @@ export class PlanningModal extends Modal {
 			cls: 'focus-task-text',
 		});
 
+		this.renderTaskNotes(taskEl, task);
+
 		const actionsEl = taskEl.createEl('div', { cls: 'focus-task-actions' });
+		this.renderEditButton(actionsEl, task);
 
 		// Goal assignment button - hidden for now
 		// if (this.data!.goals.length > 0) {
@@ -459,8 +541,8 @@ export class PlanningModal extends Modal {
 			cls: 'focus-schedule-btn',
 		});
 		scheduleBtn.addEventListener('click', () => {
-			void this.moveTaskToSection(task, 'unscheduled', 'thisWeek').then(() => {
-				new Notice(`"${task.title}" scheduled for this week`);
+			void this.moveTaskToSection(task, 'thisWeek').then(() => {
+				this.plugin.showUndoNotice(`"${task.title}" scheduled for this week.`);
 			});
 		});
 
@@ -470,14 +552,9 @@ export class PlanningModal extends Modal {
 			cls: 'focus-delete-btn',
 		});
 		deleteBtn.addEventListener('click', () => {
-			const index = this.data!.tasks.unscheduled.findIndex(t => t.id === task.id);
-			if (index > -1) {
-				this.data!.tasks.unscheduled.splice(index, 1);
-				void this.plugin.saveTaskData(this.data!).then(() => {
-					this.render();
-					new Notice('Task deleted');
-				});
-			}
+			void this.plugin.store.deleteTask(task.id).then((deleted) => {
+				if (deleted) this.plugin.showUndoNotice('Task deleted.');
+			});
 		});
 	}
 
@@ -491,11 +568,7 @@ export class PlanningModal extends Modal {
 					.setTitle('Remove from goal')
 					.setIcon('x')
 					.onClick(() => {
-						delete task.goalId;
-						void this.plugin.saveTaskData(this.data!).then(() => {
-							this.render();
-							this.plugin.refreshFocusView();
-						});
+						void this.plugin.store.updateTask(task.id, { goalId: undefined }, 'Remove from goal');
 					});
 			});
 			menu.addSeparator();
@@ -509,10 +582,7 @@ export class PlanningModal extends Modal {
 					.setTitle(`🎯 ${goal.title}`)
 					.setIcon(isCurrentGoal ? 'check' : '')
 					.onClick(() => {
-						task.goalId = goal.id;
-						void this.plugin.saveTaskData(this.data!).then(() => {
-							this.render();
-							this.plugin.refreshFocusView();
+						void this.plugin.store.updateTask(task.id, { goalId: goal.id }, 'Assign to goal').then(() => {
 							new Notice(`Task assigned to "${goal.title}"`);
 						});
 					});
@@ -540,24 +610,8 @@ export class PlanningModal extends Modal {
 		return '✅';
 	}
 
-	private async moveTaskToSection(
-		task: Task,
-		fromSection: TaskSection,
-		toSection: TaskSection
-	): Promise<void> {
-		const fromIndex = this.data!.tasks[fromSection].findIndex(t => t.id === task.id);
-		if (fromIndex > -1) {
-			this.data!.tasks[fromSection].splice(fromIndex, 1);
-		}
-
-		task.section = toSection;
-		this.data!.tasks[toSection].push(task);
-
-		await this.plugin.saveTaskData(this.data!);
-		this.render();
-
-		// Also refresh the focus view if open
-		this.plugin.refreshFocusView();
+	private async moveTaskToSection(task: Task, toSection: TaskSection): Promise<void> {
+		await this.plugin.store.moveTask(task.id, toSection);
 	}
 
 	private showDatePicker(e: MouseEvent, task: Task): void {
@@ -569,11 +623,7 @@ export class PlanningModal extends Modal {
 				.setTitle('Today')
 				.setIcon('calendar')
 				.onClick(() => {
-					task.doDate = new Date().toISOString().split('T')[0];
-					void this.plugin.saveTaskData(this.data!).then(() => {
-						this.render();
-						this.plugin.refreshFocusView();
-					});
+					this.setDoDate(task, new Date());
 				});
 		});
 
@@ -584,11 +634,7 @@ export class PlanningModal extends Modal {
 				.onClick(() => {
 					const tomorrow = new Date();
 					tomorrow.setDate(tomorrow.getDate() + 1);
-					task.doDate = tomorrow.toISOString().split('T')[0];
-					void this.plugin.saveTaskData(this.data!).then(() => {
-						this.render();
-						this.plugin.refreshFocusView();
-					});
+					this.setDoDate(task, tomorrow);
 				});
 		});
 
@@ -599,11 +645,7 @@ export class PlanningModal extends Modal {
 				.onClick(() => {
 					const nextWeek = new Date();
 					nextWeek.setDate(nextWeek.getDate() + 7);
-					task.doDate = nextWeek.toISOString().split('T')[0];
-					void this.plugin.saveTaskData(this.data!).then(() => {
-						this.render();
-						this.plugin.refreshFocusView();
-					});
+					this.setDoDate(task, nextWeek);
 				});
 		});
 
@@ -614,12 +656,7 @@ export class PlanningModal extends Modal {
 					.setTitle('Clear date')
 					.setIcon('x')
 					.onClick(() => {
-						delete task.doDate;
-						delete task.doTime;
-						void this.plugin.saveTaskData(this.data!).then(() => {
-							this.render();
-							this.plugin.refreshFocusView();
-						});
+						void this.plugin.store.updateTask(task.id, { doDate: undefined, doTime: undefined }, 'Clear reminder date');
 					});
 			});
 		}
@@ -627,6 +664,10 @@ export class PlanningModal extends Modal {
 		menu.showAtMouseEvent(e);
 	}
 
+	private setDoDate(task: Task, date: Date): void {
+		void this.plugin.store.updateTask(task.id, { doDate: date.toISOString().split('T')[0] }, 'Set reminder date');
+	}
+
 	private formatDoDate(doDate: string, doTime?: string): string {
 		const now = new Date();
 		const today = now.toISOString().split('T')[0];
@@ -660,9 +701,8 @@ export class PlanningModal extends Modal {
 	}
 
 	onClose(): void {
+		this.unsubscribe?.();
 		const { contentEl } = this;
 		contentEl.empty();
-		// Refresh focus view when closing planning
-		this.plugin.refreshFocusView();
 	}
 }
@@ -1,5 +1,8 @@
-import { App, PluginSettingTab, Setting, Hotkey, AbstractInputSuggest, TFolder } from 'obsidian';
-import { DAY_NAMES, DayOfWeek, COMMAND_IDS, VaultSyncMode } from './types';
+import { App, Notice, PluginSettingTab, Setting, Hotkey, AbstractInputSuggest, TFolder, debounce } from 'obsidian';
+import { DAY_NAMES, DayOfWeek, COMMAND_IDS, VaultSyncMode, TaskFormat, SourceLineRemoval, SourceTaskDeletion, SourceWriteField, ImportRuleMatch, TaskSection, IcsComponent, CalDavDeletion } from './types';
+import { CalDavCalendar } from './caldavClient';
+import { parseTaskLine } from './taskParser';
+import { describeImportRule, findImportRule } from './importRules';
 import type FocusPlugin from './main';
 
 /**
@@ -59,6 +62,19 @@ class FilePathSuggest extends AbstractInputSuggest<string> {
 
 export class FocusSettingTab extends PluginSettingTab {
 	plugin: FocusPlugin;
+	private syncPreviewEl: HTMLElement | null = null;
+	private caldavCalendars: CalDavCalendar[] = []; // Found by the last connection test
+
+	/**
+	 * Recount the notes and tasks vault sync would read, after typing pauses
+	 */
+	private updateSyncPreview = debounce(() => {
+		const el = this.syncPreviewEl;
+		if (!el) return;
+		void this.plugin.previewVaultSync().then(({ files, tasks }) => {
+			el.setText(`${files} note${files === 1 ? '' : 's'} with ${tasks} task${tasks === 1 ? '' : 's'} would be synced`);
+		});
+	}, 500, true);
 
 	constructor(app: App, plugin: FocusPlugin) {
 		super(app, plugin);
@@ -68,6 +84,7 @@ export class FocusSettingTab extends PluginSettingTab {
 	display(): void {
 		const { containerEl } = this;
 		containerEl.empty();
+		this.syncPreviewEl = null;
 
 		// ===== HOTKEYS SECTION =====
 		this.renderHotkeysSection(containerEl);
@@ -95,7 +112,7 @@ export class FocusSettingTab extends PluginSettingTab {
 
 						this.plugin.settings.taskFilePath = newPath;
 						await this.plugin.saveSettings();
-						this.plugin.refreshFocusView();
+						await this.plugin.store.reload();
 					});
 
 				// Add file path suggestions
@@ -117,6 +134,60 @@ export class FocusSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName('Task format')
+			.setDesc('How dates, priority and recurrence are written in the task file. Choose Obsidian Tasks or Dataview to share tasks with those plugins.')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption('focus', 'Focus (📅 reminder date)')
+					.addOption('tasks', 'Obsidian Tasks (⏳ scheduled, 📅 due)')
+					.addOption('dataview', 'Dataview ([scheduled:: ], [due:: ])')
+					.setValue(this.plugin.settings.taskFormat)
+					.onChange(async (value: TaskFormat) => {
+						this.plugin.settings.taskFormat = value;
+						await this.plugin.saveSettings();
+						// Reads the file in the old format, then rewrites it in the new one
+						await this.plugin.store.setFormat(value);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Archive completed tasks')
+			.setDesc('Move older completed months out of the task file into a file per month. They are read only when you open them.')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption('0', 'Never')
+					.addOption('1', 'After 1 month')
+					.addOption('3', 'After 3 months')
+					.addOption('6', 'After 6 months')
+					.addOption('12', 'After 12 months')
+					.setValue(String(this.plugin.settings.archiveAfterMonths))
+					.onChange(async (value) => {
+						this.plugin.settings.archiveAfterMonths = parseInt(value, 10);
+						await this.plugin.saveSettings();
+						await this.plugin.archiveOldMonths();
+						// Re-render to show/hide the folder setting
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.archiveAfterMonths > 0) {
+			new Setting(containerEl)
+				.setName('Archive folder')
+				.setDesc('Where the monthly archive files go. Files already archived are not moved when this changes.')
+				.addText((text) =>
+					text
+						.setPlaceholder('focus-archive')
+						.setValue(this.plugin.settings.archiveFolder)
+						.onChange(async (value) => {
+							this.plugin.settings.archiveFolder = value.replace(/\/+$/, '') || 'focus-archive';
+							await this.plugin.saveSettings();
+							this.plugin.store.archive.forget();
+							this.plugin.refreshFocusView();
+						})
+				);
+		}
+
 		// ===== VAULT SYNC SECTION =====
 		new Setting(containerEl).setName('Vault task sync').setHeading();
 
@@ -153,12 +224,117 @@ export class FocusSettingTab extends PluginSettingTab {
 							}
 							this.plugin.settings.vaultSyncTag = value || '#focus';
 							await this.plugin.saveSettings();
+							this.updateSyncPreview();
 						})
 				);
 		}
 
-		// Sync button (only show if sync is enabled)
 		if (this.plugin.settings.vaultSyncMode !== 'off') {
+			new Setting(containerEl)
+				.setName('Task format in notes')
+				.setDesc('How dates in your notes are read, and written back. Notes often follow Obsidian Tasks, where 📅 is a due date rather than a reminder date.')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('tasks', 'Obsidian Tasks (⏳ scheduled, 📅 due)')
+						.addOption('focus', 'Focus (📅 reminder date)')
+						.addOption('dataview', 'Dataview ([scheduled:: ], [due:: ])')
+						.setValue(this.plugin.settings.vaultSyncFormat)
+						.onChange(async (value: TaskFormat) => {
+							this.plugin.settings.vaultSyncFormat = value;
+							await this.plugin.saveSettings();
+							this.updateSyncPreview();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName('Only sync from')
+				.setDesc('Folders or glob patterns, one per line (e.g. Projects or **/Work/*.md). Leave empty to sync the whole vault.')
+				.addTextArea((text) =>
+					text
+						.setPlaceholder('Projects\nAreas/**')
+						.setValue(this.plugin.settings.vaultSyncFolders.join('\n'))
+						.onChange(async (value) => {
+							this.plugin.settings.vaultSyncFolders = this.parsePatterns(value);
+							await this.plugin.saveSettings();
+							this.updateSyncPreview();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName('Never sync from')
+				.setDesc('Folders or glob patterns to leave out, one per line. A note can also opt out with "focus: false" in its frontmatter.')
+				.addTextArea((text) =>
+					text
+						.setPlaceholder('Templates\nArchive/**')
+						.setValue(this.plugin.settings.vaultSyncExcludeFolders.join('\n'))
+						.onChange(async (value) => {
+							this.plugin.settings.vaultSyncExcludeFolders = this.parsePatterns(value);
+							await this.plugin.saveSettings();
+							this.updateSyncPreview();
+						})
+				);
+
+			// Live count of what the patterns above match
+			const preview = new Setting(containerEl)
+				.setName('Matching notes')
+				.setDesc('Counting...');
+			this.syncPreviewEl = preview.descEl;
+			this.updateSyncPreview();
+
+			new Setting(containerEl)
+				.setName('When a task is removed from its note')
+				.setDesc('What happens to the Focus task when its line is deleted from the note, or the note is deleted')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('keep', 'Keep it in Focus, unlinked from the note')
+						.addOption('delete', 'Delete it from Focus too')
+						.setValue(this.plugin.settings.vaultSyncRemovedLines)
+						.onChange(async (value: SourceLineRemoval) => {
+							this.plugin.settings.vaultSyncRemovedLines = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName('When a synced task is deleted in Focus')
+				.setDesc('What happens to its line in the note')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('keep', 'Leave the line as it is')
+						.addOption('strike', 'Strike the line through')
+						.addOption('delete', 'Delete the line')
+						.setValue(this.plugin.settings.vaultSyncDeletedTasks)
+						.onChange(async (value: SourceTaskDeletion) => {
+							this.plugin.settings.vaultSyncDeletedTasks = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			// Which task changes made in Focus are written back to the note
+			const writeBackOptions: [SourceWriteField, string, string][] = [
+				['title', 'Write back titles', 'Renaming a synced task renames it in its note'],
+				['doDate', 'Write back dates', 'Setting a date or time on a synced task writes it into its note'],
+				['recurrence', 'Write back repeats', 'Changing how a synced task repeats writes it into its note'],
+				['section', 'Tag the section', 'Add a tag like #focus/immediate to the note\'s line, following the task between sections'],
+			];
+			for (const [field, name, desc] of writeBackOptions) {
+				new Setting(containerEl)
+					.setName(name)
+					.setDesc(desc)
+					.addToggle((toggle) =>
+						toggle
+							.setValue(this.plugin.settings.vaultSyncWriteBack.includes(field))
+							.onChange(async (value) => {
+								const fields = this.plugin.settings.vaultSyncWriteBack.filter(f => f !== field);
+								this.plugin.settings.vaultSyncWriteBack = value ? [...fields, field] : fields;
+								await this.plugin.saveSettings();
+							})
+					);
+			}
+
+			this.renderImportRules(containerEl);
+
+			// Sync button
 			new Setting(containerEl)
 				.setName('Sync now')
 				.setDesc('Manually scan vault for tasks and add to unscheduled')
@@ -177,6 +353,317 @@ export class FocusSettingTab extends PluginSettingTab {
 				);
 		}
 
+		// ===== INBOX SECTION =====
+		new Setting(containerEl).setName('Inbox').setHeading();
+
+		new Setting(containerEl)
+			.setName('Import from an inbox file')
+			.setDesc('Tasks that other tools (scripts, shortcuts, bots) append to a file in your vault are moved into Focus')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.inboxEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.inboxEnabled = value;
+						await this.plugin.saveSettings();
+						if (value) await this.plugin.importInbox();
+						// Re-render to show/hide the inbox settings
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.inboxEnabled) {
+			new Setting(containerEl)
+				.setName('Inbox file')
+				.setDesc('One task per line, e.g. "- [ ] Buy groceries 📅 2026-01-27 ⏰ 15:00". Imported lines are removed from the file.')
+				.addText((text) => {
+					text
+						.setPlaceholder('focus-inbox.md')
+						.setValue(this.plugin.settings.inboxFilePath)
+						.onChange(async (value) => {
+							this.plugin.settings.inboxFilePath = value.trim() || 'focus-inbox.md';
+							await this.plugin.saveSettings();
+						});
+					new FilePathSuggest(this.app, text.inputEl);
+				});
+
+			new Setting(containerEl)
+				.setName('Add inbox tasks to')
+				.setDesc('When Immediate is full, tasks go to This Week')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('immediate', 'Immediate')
+						.addOption('thisWeek', 'This Week')
+						.addOption('unscheduled', 'Unscheduled')
+						.setValue(this.plugin.settings.inboxSection)
+						.onChange(async (value: TaskSection) => {
+							this.plugin.settings.inboxSection = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName('Create linked notes')
+				.setDesc('Create a note for each [[link]] in an imported task that doesn\'t exist yet')
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.inboxCreateNotes)
+						.onChange(async (value) => {
+							this.plugin.settings.inboxCreateNotes = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName('Processed log')
+				.setDesc('Each imported line is noted here with when it was imported and where it went. Leave empty for no log.')
+				.addText((text) =>
+					text
+						.setPlaceholder('focus-inbox-log.md')
+						.setValue(this.plugin.settings.inboxLogPath)
+						.onChange(async (value) => {
+							this.plugin.settings.inboxLogPath = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		// ===== CALENDAR EXPORT SECTION =====
+		new Setting(containerEl).setName('Calendar export').setHeading();
+
+		new Setting(containerEl)
+			.setName('Export to a calendar file')
+			.setDesc('Keep an .ics file of your dated tasks in the vault, updated on every change. Subscribe to it from a calendar app that can read the synced file.')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.icsExportEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.icsExportEnabled = value;
+						await this.plugin.saveSettings();
+						await this.plugin.exportCalendar();
+						// Re-render to show/hide the export settings
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.icsExportEnabled) {
+			new Setting(containerEl)
+				.setName('Calendar file')
+				.setDesc('Path of the .ics file in your vault')
+				.addText((text) =>
+					text
+						.setPlaceholder('focus.ics')
+						.setValue(this.plugin.settings.icsExportPath)
+						.onChange(async (value) => {
+							let path = value.trim() || 'focus.ics';
+							if (!path.endsWith('.ics')) path += '.ics';
+							this.plugin.settings.icsExportPath = path;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName('Export tasks as')
+				.setDesc('Events show up in every calendar app; to-dos only in apps with a task list')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('event', 'Events')
+						.addOption('todo', 'To-dos')
+						.setValue(this.plugin.settings.icsComponent)
+						.onChange(async (value: IcsComponent) => {
+							this.plugin.settings.icsComponent = value;
+							await this.plugin.saveSettings();
+							await this.plugin.exportCalendar();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName('Alarm')
+				.setDesc('Reminder before tasks with a time')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('none', 'No alarm')
+						.addOption('0', 'At the time')
+						.addOption('5', '5 minutes before')
+						.addOption('15', '15 minutes before')
+						.addOption('30', '30 minutes before')
+						.addOption('60', '1 hour before')
+						.setValue(this.plugin.settings.icsAlarmMinutes === null ? 'none' : String(this.plugin.settings.icsAlarmMinutes))
+						.onChange(async (value) => {
+							this.plugin.settings.icsAlarmMinutes = value === 'none' ? null : parseInt(value, 10);
+							await this.plugin.saveSettings();
+							await this.plugin.exportCalendar();
+						})
+				);
+		}
+
+		// ===== CALENDAR SYNC SECTION =====
+		new Setting(containerEl).setName('Calendar sync (CalDAV)').setHeading();
+
+		new Setting(containerEl)
+			.setName('Sync with a CalDAV calendar')
+			.setDesc('Keep a to-do in a CalDAV calendar (iCloud, Fastmail, Nextcloud, Radicale...) for each task with a do date. To-dos completed there are completed in Focus.')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.caldavEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.caldavEnabled = value;
+						await this.plugin.saveSettings();
+						if (value) void this.plugin.syncCalDav();
+						// Re-render to show/hide the account settings
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.caldavEnabled) {
+			new Setting(containerEl)
+				.setName('Server')
+				.setDesc('CalDAV address of your account, e.g. https://caldav.icloud.com')
+				.addText((text) =>
+					text
+						.setPlaceholder('https://caldav.example.com')
+						.setValue(this.plugin.settings.caldavServerUrl)
+						.onChange(async (value) => {
+							this.plugin.settings.caldavServerUrl = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName('Username')
+				.addText((text) =>
+					text
+						.setPlaceholder('you@example.com')
+						.setValue(this.plugin.settings.caldavUsername)
+						.onChange(async (value) => {
+							this.plugin.settings.caldavUsername = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName('Password')
+				.setDesc('Use an app-specific password if your provider has them')
+				.addText((text) => {
+					text
+						.setPlaceholder('••••••••')
+						.setValue(this.plugin.settings.caldavPassword)
+						.onChange(async (value) => {
+							this.plugin.settings.caldavPassword = value;
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.type = 'password';
+				});
+
+			new Setting(containerEl)
+				.setName('Connect')
+				.setDesc('Sign in and find the calendars that can hold to-dos')
+				.addButton((button) =>
+					button
+						.setButtonText('Find calendars')
+						.onClick(async () => {
+							button.setButtonText('Connecting...');
+							button.setDisabled(true);
+							try {
+								this.caldavCalendars = await this.plugin.discoverCalDavCalendars();
+								if (this.caldavCalendars.length === 0) {
+									new Notice('Connected, but found no calendars that can hold to-dos');
+								} else if (!this.caldavCalendars.some(c => c.url === this.plugin.settings.caldavCalendarUrl)) {
+									this.plugin.settings.caldavCalendarUrl = this.caldavCalendars[0].url;
+									await this.plugin.saveSettings();
+								}
+							} catch (error) {
+								new Notice(`Focus: Could not connect. ${error instanceof Error ? error.message : String(error)}`);
+							}
+							this.display();
+						})
+				);
+
+			const calendarUrl = this.plugin.settings.caldavCalendarUrl;
+			if (calendarUrl) {
+				new Setting(containerEl)
+					.setName('Calendar')
+					.setDesc('Where the to-dos go. Switching calendars leaves the old to-dos where they are.')
+					.addDropdown((dropdown) => {
+						for (const calendar of this.caldavCalendars) {
+							dropdown.addOption(calendar.url, calendar.name);
+						}
+						if (!this.caldavCalendars.some(c => c.url === calendarUrl)) {
+							dropdown.addOption(calendarUrl, decodeURIComponent(calendarUrl.split('/').filter(Boolean).pop() ?? calendarUrl));
+						}
+						dropdown
+							.setValue(calendarUrl)
+							.onChange(async (value) => {
+								this.plugin.settings.caldavCalendarUrl = value;
+								await this.plugin.saveSettings();
+								void this.plugin.syncCalDav();
+							});
+					});
+			}
+
+			new Setting(containerEl)
+				.setName('Alarm')
+				.setDesc('Reminder before tasks with a time')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('none', 'No alarm')
+						.addOption('0', 'At the time')
+						.addOption('5', '5 minutes before')
+						.addOption('15', '15 minutes before')
+						.addOption('30', '30 minutes before')
+						.addOption('60', '1 hour before')
+						.setValue(this.plugin.settings.caldavAlarmMinutes === null ? 'none' : String(this.plugin.settings.caldavAlarmMinutes))
+						.onChange(async (value) => {
+							this.plugin.settings.caldavAlarmMinutes = value === 'none' ? null : parseInt(value, 10);
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName('Check for changes every')
+				.setDesc('Changes made in Focus are sent right away')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('1', '1 minute')
+						.addOption('5', '5 minutes')
+						.addOption('15', '15 minutes')
+						.addOption('60', '1 hour')
+						.setValue(String(this.plugin.settings.caldavSyncMinutes))
+						.onChange(async (value) => {
+							this.plugin.settings.caldavSyncMinutes = parseInt(value, 10);
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName('When a to-do is deleted in the calendar')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('keep', 'Keep the task and stop syncing it')
+						.addOption('complete', 'Complete the task')
+						.addOption('delete', 'Delete the task')
+						.setValue(this.plugin.settings.caldavDeletedTodos)
+						.onChange(async (value: CalDavDeletion) => {
+							this.plugin.settings.caldavDeletedTodos = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName('Sync now')
+				.setDesc(this.plugin.caldavStatus || 'Not synced yet')
+				.addButton((button) =>
+					button
+						.setButtonText('Sync now')
+						.setCta()
+						.onClick(async () => {
+							button.setButtonText('Syncing...');
+							button.setDisabled(true);
+							await this.plugin.syncCalDav(true);
+							this.display();
+						})
+				);
+		}
+
 		// ===== REMINDERS SECTION =====
 		new Setting(containerEl).setName('Reminders').setHeading();
 
@@ -429,6 +916,148 @@ export class FocusSettingTab extends PluginSettingTab {
 			.setHeading();
 	}
 
+	/**
+	 * Rules routing newly imported tasks, tried in order, and a panel to try them on a sample line
+	 */
+	private renderImportRules(containerEl: HTMLElement): void {
+		const rules = this.plugin.settings.vaultSyncRules;
+
+		new Setting(containerEl)
+			.setName('Import rules')
+			.setDesc('New tasks from notes go to Unscheduled unless a rule says otherwise. Rules are tried from the top; the first that matches decides.')
+			.addButton((button) =>
+				button
+					.setButtonText('Add rule')
+					.onClick(async () => {
+						rules.push({ match: 'tag', value: '', section: 'immediate', goal: '' });
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		rules.forEach((rule, i) => {
+			const setting = new Setting(containerEl)
+				.setName(`Rule ${i + 1}`)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('tag', 'Has tag')
+						.addOption('folder', 'In folder')
+						.addOption('text', 'Contains text')
+						.addOption('dateToday', 'Dated today or earlier')
+						.addOption('dateThisWeek', 'Dated this week')
+						.setValue(rule.match)
+						.onChange(async (value: ImportRuleMatch) => {
+							rule.match = value;
+							await this.plugin.saveSettings();
+							// Re-render to show/hide the value field
+							this.display();
+						})
+				);
+
+			if (rule.match === 'tag' || rule.match === 'folder' || rule.match === 'text') {
+				const placeholders = { tag: '#focus/now', folder: 'Projects/Work', text: 'call' };
+				setting.addText((text) =>
+					text
+						.setPlaceholder(placeholders[rule.match as keyof typeof placeholders])
+						.setValue(rule.value)
+						.onChange(async (value) => {
+							rule.value = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+			}
+
+			setting
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('immediate', '→ Immediate')
+						.addOption('thisWeek', '→ This Week')
+						.addOption('unscheduled', '→ Unscheduled')
+						.setValue(rule.section)
+						.onChange(async (value: TaskSection) => {
+							rule.section = value;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder('Goal (optional)')
+						.setValue(rule.goal)
+						.onChange(async (value) => {
+							rule.goal = value;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon('arrow-up')
+						.setTooltip('Move up')
+						.setDisabled(i === 0)
+						.onClick(async () => {
+							if (i === 0) return;
+							rules.splice(i - 1, 0, ...rules.splice(i, 1));
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon('trash')
+						.setTooltip('Delete rule')
+						.onClick(async () => {
+							rules.splice(i, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+		});
+
+		// Try the rules on a sample line without syncing anything
+		let sampleLine = '- [ ] Call Sam #focus/now';
+		let samplePath = 'Projects/Work/Notes.md';
+		const result = new Setting(containerEl)
+			.setName('Test a line')
+			.setDesc('');
+		const showResult = () => {
+			const task = parseTaskLine(sampleLine.trim().replace(/^(?!-\s*\[)/, '- [ ] '), 'unscheduled', this.plugin.settings.vaultSyncFormat);
+			if (!task) {
+				result.setDesc('Not a task line');
+				return;
+			}
+			const rule = findImportRule(rules, task, samplePath);
+			result.setDesc(rule
+				? `Rule ${rules.indexOf(rule) + 1}: ${describeImportRule(rule)}`
+				: 'No rule matches → Unscheduled');
+		};
+		result
+			.addText((text) =>
+				text
+					.setPlaceholder('- [ ] Task line')
+					.setValue(sampleLine)
+					.onChange((value) => {
+						sampleLine = value;
+						showResult();
+					})
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder('Note path')
+					.setValue(samplePath)
+					.onChange((value) => {
+						samplePath = value.trim();
+						showResult();
+					})
+			);
+		showResult();
+	}
+
+	/**
+	 * One pattern per line, blank lines dropped
+	 */
+	private parsePatterns(value: string): string[] {
+		return value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+	}
+
 	private renderHotkeysSection(containerEl: HTMLElement): void {
 		new Setting(containerEl).setName('Keyboard shortcuts').setHeading();
 
@@ -0,0 +1,52 @@
+import { Modal, Setting } from 'obsidian';
+import { RolloverSummary } from './taskParser';
+import type FocusPlugin from './main';
+
+/**
+ * Asks before starting a new week by hand. The rollover is recorded for undo.
+ */
+export class StartWeekModal extends Modal {
+	private plugin: FocusPlugin;
+	private onStarted?: (summary: RolloverSummary) => void;
+
+	constructor(plugin: FocusPlugin, onStarted?: (summary: RolloverSummary) => void) {
+		super(plugin.app);
+		this.plugin = plugin;
+		this.onStarted = onStarted;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const moves: string[] = [];
+		if (this.plugin.settings.rolloverImmediateToThisWeek) moves.push('from Immediate to This Week');
+		if (this.plugin.settings.rolloverThisWeekToUnscheduled) moves.push('from This Week to Unscheduled');
+
+		contentEl.createEl('h2', { text: 'Start a new week?' });
+		contentEl.createEl('p', {
+			text: moves.length > 0
+				? `Unfinished tasks move ${moves.join(' and ')}. Undo puts them back.`
+				: 'Your rollover settings move no tasks; only the week changes.',
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText('Cancel').onClick(() => {
+					this.close();
+				})
+			)
+			.addButton((btn) =>
+				btn.setButtonText('Start new week').setCta().onClick(() => {
+					this.close();
+					void this.plugin.performWeeklyRollover('Start new week').then((summary) => {
+						this.onStarted?.(summary);
+					});
+				})
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,166 @@
+import { Task, TaskFormat } from './types';
+import { parseArchiveFile, serializeArchiveFile } from './taskParser';
+
+/**
+ * Reads and writes the archive files, one per month (e.g. `focus-archive/2026-01.md`).
+ * Kept apart from the archive so it doesn't depend on the Obsidian vault.
+ */
+export interface ArchiveAdapter {
+	/** Keys ("2026-01") of the months that have an archive file */
+	list(): Promise<string[]>;
+	/** File content, or null if the month has no archive file */
+	read(monthKey: string): Promise<string | null>;
+	/** Replaces the file content, creating the file (and its folder) if needed */
+	write(monthKey: string, content: string): Promise<void>;
+}
+
+/**
+ * Stands in when no archive folder is set up: there are no archived months to read
+ */
+const NO_ARCHIVE: ArchiveAdapter = {
+	list: async () => [],
+	read: async () => null,
+	write: async () => {
+		throw new Error('No archive folder is set up');
+	},
+};
+
+/**
+ * The month key `keepMonths` months before the month of `today`
+ */
+function monthsBefore(today: Date, keepMonths: number): string {
+	const date = new Date(today.getFullYear(), today.getMonth() - keepMonths, 1);
+	return `${date.getFullYear()}-${('0' + (date.getMonth() + 1)).slice(-2)}`;
+}
+
+/**
+ * The completed months an archive policy moves out of the task file: every month older
+ * than the current one and the `keepMonths` before it. A policy of 0 archives nothing.
+ */
+export function monthsToArchive(monthKeys: string[], keepMonths: number, today: Date = new Date()): string[] {
+	if (keepMonths <= 0) return [];
+	const oldestKept = monthsBefore(today, keepMonths);
+	return monthKeys.filter(monthKey => monthKey < oldestKept).sort();
+}
+
+/**
+ * Completed months moved out of the task file into files of their own, so the task
+ * file stays small. A month is only read when it's asked for, then kept in memory.
+ */
+export class TaskArchive {
+	private adapter: ArchiveAdapter;
+	private format: TaskFormat;
+	private loaded = new Map<string, Task[]>();
+
+	constructor(adapter: ArchiveAdapter = NO_ARCHIVE, format: TaskFormat = 'focus') {
+		this.adapter = adapter;
+		this.format = format;
+	}
+
+	/**
+	 * Keys of the archived months, most recent first
+	 */
+	async months(): Promise<string[]> {
+		return (await this.adapter.list()).sort().reverse();
+	}
+
+	/**
+	 * The tasks of an archived month, read from its file the first time
+	 */
+	async load(monthKey: string): Promise<Task[]> {
+		let tasks = this.loaded.get(monthKey);
+		if (!tasks) {
+			const content = await this.adapter.read(monthKey);
+			tasks = content === null ? [] : parseArchiveFile(content, this.format)[monthKey] ?? [];
+			this.loaded.set(monthKey, tasks);
+		}
+		return tasks;
+	}
+
+	/**
+	 * Every archived month, for searches and statistics that reach past the task file
+	 */
+	async loadAll(): Promise<Record<string, Task[]>> {
+		const months: Record<string, Task[]> = {};
+		for (const monthKey of await this.months()) {
+			months[monthKey] = await this.load(monthKey);
+		}
+		return months;
+	}
+
+	/**
+	 * The tasks of a month if it has been loaded, without reading its file
+	 */
+	cached(monthKey: string): Task[] | undefined {
+		return this.loaded.get(monthKey);
+	}
+
+	/**
+	 * Drop what was read from a month's file (or every file), e.g. after it was edited by hand
+	 */
+	forget(monthKey?: string): void {
+		if (monthKey) {
+			this.loaded.delete(monthKey);
+		} else {
+			this.loaded.clear();
+		}
+	}
+
+	/**
+	 * Add tasks to a month's file. A task already in the file is replaced, so archiving
+	 * the same task twice (e.g. after a cloud pull brought it back) keeps one copy.
+	 */
+	async add(monthKey: string, tasks: Task[]): Promise<void> {
+		const ids = new Set(tasks.map(t => t.id));
+		const existing = (await this.load(monthKey)).filter(t => !ids.has(t.id));
+		await this.saveIfChanged(monthKey, [...existing, ...tasks]);
+	}
+
+	/**
+	 * Replace a month's tasks, e.g. with the cloud's copy of the month, so tasks
+	 * deleted elsewhere leave the file too
+	 */
+	async set(monthKey: string, tasks: Task[]): Promise<void> {
+		await this.saveIfChanged(monthKey, tasks);
+	}
+
+	/**
+	 * Take a task out of a month's file
+	 * @returns The task, or undefined if the month has no task with that ID
+	 */
+	async take(monthKey: string, id: string): Promise<Task | undefined> {
+		const tasks = [...await this.load(monthKey)];
+		const index = tasks.findIndex(t => t.id === id);
+		if (index === -1) return undefined;
+
+		const [task] = tasks.splice(index, 1);
+		await this.save(monthKey, tasks);
+		return task;
+	}
+
+	/**
+	 * Switch the task format: every archive file is read in the old format and rewritten in the new one
+	 */
+	async setFormat(format: TaskFormat): Promise<void> {
+		const months = await this.loadAll();
+		this.format = format;
+		for (const [monthKey, tasks] of Object.entries(months)) {
+			await this.save(monthKey, tasks);
+		}
+	}
+
+	/**
+	 * Saves unless the file would come out the same, so a cloud pull that brings
+	 * an archived month back unchanged doesn't rewrite its file
+	 */
+	private async saveIfChanged(monthKey: string, tasks: Task[]): Promise<void> {
+		const before = serializeArchiveFile(monthKey, await this.load(monthKey), this.format);
+		if (serializeArchiveFile(monthKey, tasks, this.format) === before) return;
+		await this.save(monthKey, tasks);
+	}
+
+	private async save(monthKey: string, tasks: Task[]): Promise<void> {
+		await this.adapter.write(monthKey, serializeArchiveFile(monthKey, tasks, this.format));
+		this.loaded.set(monthKey, tasks);
+	}
+}
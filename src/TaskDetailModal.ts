@@ -0,0 +1,84 @@
+import { Modal, Setting } from 'obsidian';
+import { SECTION_NAMES, Task } from './types';
+import { countSubtasks, formatRecurrenceRule } from './taskParser';
+import type FocusPlugin from './main';
+
+/**
+ * Detail pane for a single task: its metadata at a glance and its editable notes
+ */
+export class TaskDetailModal extends Modal {
+	plugin: FocusPlugin;
+	task: Task;
+	notes: string;
+	onSave: (notes: string | undefined) => void;
+
+	constructor(plugin: FocusPlugin, task: Task, onSave: (notes: string | undefined) => void) {
+		super(plugin.app);
+		this.plugin = plugin;
+		this.task = task;
+		this.notes = task.notes ?? '';
+		this.onSave = onSave;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('focus-task-detail-modal');
+
+		contentEl.createEl('h2', { text: this.task.title });
+
+		const details: [string, string][] = [['Section', SECTION_NAMES[this.task.section]]];
+		if (this.task.doDate) {
+			details.push(['Reminder', `${this.task.doDate}${this.task.doTime ? ' ' + this.task.doTime : ''}`]);
+		}
+		if (this.task.dueDate) details.push(['Due', this.task.dueDate]);
+		if (this.task.recurrence) details.push(['Repeats', formatRecurrenceRule(this.task.recurrence)]);
+		if (this.task.subtasks) {
+			const { done, total } = countSubtasks(this.task.subtasks);
+			details.push(['Checklist', `${done}/${total} done`]);
+		}
+		if (this.task.sourceFile) details.push(['From', this.task.sourceFile]);
+
+		const detailsEl = contentEl.createEl('div', { cls: 'focus-task-detail-meta' });
+		for (const [label, value] of details) {
+			const row = detailsEl.createEl('div', { cls: 'focus-task-detail-row' });
+			row.createEl('span', { text: label, cls: 'focus-task-detail-label' });
+			row.createEl('span', { text: value });
+		}
+
+		contentEl.createEl('h3', { text: 'Notes' });
+		const notesInput = contentEl.createEl('textarea', {
+			cls: 'focus-task-notes-input',
+			attr: { rows: '8', placeholder: 'Add details, context or links...' },
+		});
+		notesInput.value = this.notes;
+		notesInput.addEventListener('input', () => {
+			this.notes = notesInput.value;
+		});
+		setTimeout(() => notesInput.focus(), 10);
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn
+					.setButtonText('Save')
+					.setCta()
+					.onClick(() => {
+						// Trailing whitespace would only turn into empty indented lines in the file
+						this.onSave(this.notes.replace(/\s+$/, '') || undefined);
+						this.close();
+					});
+			})
+			.addButton((btn) => {
+				btn
+					.setButtonText('Cancel')
+					.onClick(() => {
+						this.close();
+					});
+			});
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
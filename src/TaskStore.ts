@@ -0,0 +1,520 @@
+import { FocusData, Subtask, Task, TaskFormat, TaskSection } from './types';
+import { computeNextRecurrenceDate, generateId, hasUnpersistedIds, parseTaskFile, serializeTaskFile } from './taskParser';
+import { CommandHistory, TaskOperation, applyOperation } from './commandHistory';
+import { ArchiveAdapter, TaskArchive, monthsToArchive } from './TaskArchive';
+
+const SECTIONS: TaskSection[] = ['immediate', 'thisWeek', 'unscheduled'];
+
+/**
+ * Reads and writes the task file. Kept apart from the store so the store
+ * doesn't depend on the Obsidian vault.
+ */
+export interface TaskFileAdapter {
+	/** File content, or null if the file doesn't exist */
+	read(): Promise<string | null>;
+	/** Replaces the file content, creating the file if needed */
+	write(content: string): Promise<void>;
+}
+
+/**
+ * Where a change came from: the plugin itself, a cloud pull, or an edit to the task file
+ */
+export type TaskChangeSource = 'local' | 'remote' | 'file';
+
+/**
+ * Called after a change with the new data and the data as listeners last saw it
+ */
+export type TaskChangeListener = (data: FocusData, source: TaskChangeSource, previous: FocusData) => void;
+
+/**
+ * A task completed by `completeTask`, plus the next occurrence if it recurs
+ */
+export interface CompletedTask {
+	task: Task;
+	next?: Task;
+}
+
+function emptyData(): FocusData {
+	const today = new Date().toISOString().split('T')[0];
+	return {
+		weekOf: today,
+		goals: [],
+		habits: [],
+		habitResetDate: today,
+		tasks: {
+			immediate: [],
+			thisWeek: [],
+			unscheduled: [],
+		},
+		completedTasks: {},
+	};
+}
+
+function findTask(data: FocusData, id: string): { tasks: Task[]; index: number; month?: string } | null {
+	for (const section of SECTIONS) {
+		const index = data.tasks[section].findIndex(t => t.id === id);
+		if (index > -1) return { tasks: data.tasks[section], index };
+	}
+	for (const [month, tasks] of Object.entries(data.completedTasks)) {
+		const index = tasks.findIndex(t => t.id === id);
+		if (index > -1) return { tasks, index, month };
+	}
+	return null;
+}
+
+/**
+ * Every task, active and completed
+ */
+function allTasks(data: FocusData): Task[] {
+	return [...SECTIONS.flatMap(section => data.tasks[section]), ...Object.values(data.completedTasks).flat()];
+}
+
+/**
+ * Takes a task out of whichever section or archive month holds it
+ */
+function removeTask(data: FocusData, id: string): Task | undefined {
+	const found = findTask(data, id);
+	if (!found) return undefined;
+
+	const [task] = found.tasks.splice(found.index, 1);
+	if (found.month && found.tasks.length === 0) {
+		delete data.completedTasks[found.month];
+	}
+	return task;
+}
+
+/**
+ * Copy of a checklist with every item unchecked, for the next occurrence of a recurring task
+ */
+function uncheckSubtasks(subtasks: Subtask[]): Subtask[] {
+	return subtasks.map(subtask => ({
+		...subtask,
+		completed: false,
+		subtasks: subtask.subtasks ? uncheckSubtasks(subtask.subtasks) : undefined,
+	}));
+}
+
+/**
+ * The single owner of the task data. Every change goes through `update` (or one of
+ * the typed operations built on it), which runs one at a time: each re-reads the
+ * file if it changed underneath, applies its change, writes the file and notifies
+ * listeners. Two views saving at once can no longer overwrite each other's work.
+ */
+export class TaskStore {
+	readonly history = new CommandHistory();
+	readonly archive: TaskArchive;
+	private adapter: TaskFileAdapter;
+	private format: TaskFormat;
+	private data: FocusData | null = null;
+	private content: string | null = null; // File content the data was last read from or written as
+	private notified: FocusData | null = null; // Data as listeners last saw it
+	private queue: Promise<unknown> = Promise.resolve();
+	private listeners = new Set<TaskChangeListener>();
+
+	constructor(adapter: TaskFileAdapter, format: TaskFormat = 'focus', archive?: ArchiveAdapter) {
+		this.adapter = adapter;
+		this.format = format;
+		this.archive = new TaskArchive(archive, format);
+	}
+
+	/**
+	 * Calls `listener` after every change to the data
+	 * @returns A function that removes the listener
+	 */
+	onChange(listener: TaskChangeListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * The current task data, once pending writes have finished. Treat it as read-only:
+	 * changes made to it directly are neither saved nor seen by other views.
+	 */
+	getData(): Promise<FocusData> {
+		return this.enqueue(async () => {
+			if (!this.data) await this.refresh();
+			return this.data!;
+		});
+	}
+
+	/**
+	 * Re-read the task file, e.g. after it was edited by hand
+	 */
+	reload(): Promise<FocusData> {
+		return this.enqueue(async () => {
+			if (await this.refresh()) this.emit('file');
+			return this.data!;
+		});
+	}
+
+	/**
+	 * Change the data. `mutate` gets a copy of the current data to change in place;
+	 * the copy replaces the data once it has been written.
+	 * @param label - Records the change for undo under this name (user actions only)
+	 * @returns Whatever `mutate` returns
+	 */
+	update<T>(label: string | undefined, mutate: (data: FocusData) => T): Promise<T> {
+		return this.enqueue(async () => {
+			if (await this.refresh()) this.emit('file');
+
+			const before = this.data!;
+			const draft = structuredClone(before);
+			const result = mutate(draft);
+
+			if (await this.commit(draft) && label) {
+				this.history.record(label, before, draft);
+			}
+			return result;
+		});
+	}
+
+	/**
+	 * Replace the data wholesale with a copy pulled from the cloud. Not undoable.
+	 * Completed months that are archived go to their archive files, not the task file;
+	 * the cloud's copy of such a month replaces the file's. A month the cloud has no
+	 * tasks for leaves its file alone.
+	 * @param localFields - Task fields the copy doesn't carry; each task keeps its local values
+	 */
+	replace(data: FocusData, localFields: (keyof Task)[] = []): Promise<void> {
+		return this.enqueue(async () => {
+			await this.refresh();
+			const draft = structuredClone(data);
+			const archived = await this.archive.months();
+			const toArchive = Object.keys(draft.completedTasks).filter(month => archived.includes(month));
+
+			if (localFields.length > 0) {
+				const local = new Map(allTasks(this.data!).map(task => [task.id, task]));
+				for (const monthKey of toArchive) {
+					for (const task of await this.archive.load(monthKey)) local.set(task.id, task);
+				}
+				for (const task of allTasks(draft)) {
+					const before = local.get(task.id);
+					if (!before) continue;
+					for (const field of localFields) {
+						if (before[field] === undefined) delete task[field];
+						else Object.assign(task, { [field]: structuredClone(before[field]) });
+					}
+				}
+			}
+
+			for (const monthKey of toArchive) {
+				await this.archive.set(monthKey, draft.completedTasks[monthKey]);
+				delete draft.completedTasks[monthKey];
+			}
+			await this.commit(draft, 'remote');
+		});
+	}
+
+	/**
+	 * Switch the task format: the file is read in the old format and rewritten in the new one
+	 */
+	setFormat(format: TaskFormat): Promise<void> {
+		return this.enqueue(async () => {
+			await this.refresh();
+			this.format = format;
+			await this.archive.setFormat(format);
+			await this.commit(this.data!);
+		});
+	}
+
+	/**
+	 * Move completed months older than the current one and the `keepMonths` before it
+	 * out of the task file into the archive. Not undoable.
+	 * @returns The keys of the months that were archived
+	 */
+	archiveOldMonths(keepMonths: number, today: Date = new Date()): Promise<string[]> {
+		return this.enqueue(async () => {
+			if (await this.refresh()) this.emit('file');
+
+			const months = monthsToArchive(Object.keys(this.data!.completedTasks), keepMonths, today);
+			if (months.length === 0) return [];
+
+			const draft = structuredClone(this.data!);
+			await this.moveToArchive(draft, months);
+			await this.commit(draft);
+			return months;
+		});
+	}
+
+	/**
+	 * Every completed month, from the task file and the archive alike
+	 */
+	getCompletedTasks(): Promise<Record<string, Task[]>> {
+		return this.enqueue(async () => {
+			if (!this.data) await this.refresh();
+			const months = await this.archive.loadAll();
+			for (const [monthKey, tasks] of Object.entries(this.data!.completedTasks)) {
+				months[monthKey] = [...tasks, ...(months[monthKey] ?? [])];
+			}
+			return months;
+		});
+	}
+
+	addTask(task: Task, label = 'Add task'): Promise<void> {
+		return this.update(label, (data) => {
+			data.tasks[task.section].push(task);
+		});
+	}
+
+	/**
+	 * Change a task's fields, in whichever section or archive month it is
+	 * @returns The updated task, or undefined if no task has that ID
+	 */
+	updateTask(id: string, changes: Partial<Task> | ((task: Task) => void), label = 'Edit task'): Promise<Task | undefined> {
+		return this.update(label, (data) => {
+			const found = findTask(data, id);
+			if (!found) return undefined;
+
+			const task = found.tasks[found.index];
+			if (typeof changes === 'function') {
+				changes(task);
+			} else {
+				Object.assign(task, changes);
+			}
+			return task;
+		});
+	}
+
+	/**
+	 * Move an active task to a section, at `index` or else at the end
+	 */
+	moveTask(id: string, toSection: TaskSection, index?: number, label = 'Move task'): Promise<Task | undefined> {
+		return this.update(label, data => this.place(data, id, () => toSection, index));
+	}
+
+	/**
+	 * Move a task to `index` within its own section
+	 */
+	reorderTask(id: string, index: number, label = 'Reorder task'): Promise<Task | undefined> {
+		return this.update(label, data => this.place(data, id, task => task.section, index));
+	}
+
+	deleteTask(id: string, label = 'Delete task'): Promise<Task | undefined> {
+		return this.update(label, data => removeTask(data, id));
+	}
+
+	/**
+	 * Mark a task done and file it under its completion month
+	 */
+	archiveTask(id: string, completedAt = new Date().toISOString().split('T')[0], label = 'Complete task'): Promise<Task | undefined> {
+		return this.update(label, data => this.markCompleted(data, id, completedAt));
+	}
+
+	/**
+	 * Complete a task: archive it and, if it recurs, add its next occurrence to This Week
+	 */
+	completeTask(id: string, completedAt = new Date().toISOString().split('T')[0], label = 'Complete task'): Promise<CompletedTask | undefined> {
+		return this.update(label, (data) => {
+			const task = this.markCompleted(data, id, completedAt);
+			if (!task) return undefined;
+			if (!task.recurrence) return { task };
+
+			const next: Task = {
+				id: generateId(),
+				title: task.title,
+				completed: false,
+				section: 'thisWeek',
+				url: task.url,
+				doDate: computeNextRecurrenceDate(task.recurrence, task.doDate),
+				doTime: task.doTime,
+				recurrence: { ...task.recurrence },
+				priority: task.priority,
+				subtasks: task.subtasks ? uncheckSubtasks(task.subtasks) : undefined,
+			};
+			data.tasks.thisWeek.push(next);
+			return { task, next };
+		});
+	}
+
+	/**
+	 * Take a task out of the archive and put it back, unchecked, in its section
+	 */
+	restoreTask(id: string, label = 'Restore task'): Promise<Task | undefined> {
+		return this.update(label, (data) => {
+			const task = removeTask(data, id);
+			if (!task) return undefined;
+
+			task.completed = false;
+			task.completedAt = undefined;
+			data.tasks[task.section || 'unscheduled'].push(task);
+			return task;
+		});
+	}
+
+	/**
+	 * Take a task out of an archive file and put it back, unchecked, in its section.
+	 * The task passes through the task file's month first, so undoing the restore
+	 * leaves it completed there rather than losing it.
+	 */
+	async restoreArchivedTask(monthKey: string, id: string, label = 'Restore task'): Promise<Task | undefined> {
+		const unarchived = await this.enqueue(async () => {
+			if (await this.refresh()) this.emit('file');
+
+			const task = await this.archive.take(monthKey, id);
+			if (!task) return false;
+
+			const draft = structuredClone(this.data!);
+			(draft.completedTasks[monthKey] ??= []).push(task);
+			await this.commit(draft);
+			return true;
+		});
+		return unarchived ? this.restoreTask(id, label) : undefined;
+	}
+
+	/**
+	 * Check or uncheck a checklist item, addressed by its index at each nesting level
+	 * @returns The parent task after the change
+	 */
+	toggleSubtask(taskId: string, path: number[], label = 'Toggle subtask'): Promise<Task | undefined> {
+		return this.update(label, (data) => {
+			const found = findTask(data, taskId);
+			if (!found) return undefined;
+
+			const task = found.tasks[found.index];
+			let subtask: Subtask | undefined;
+			let list = task.subtasks;
+			for (const index of path) {
+				subtask = list?.[index];
+				list = subtask?.subtasks;
+			}
+			if (!subtask) return undefined;
+
+			subtask.completed = !subtask.completed;
+			return task;
+		});
+	}
+
+	/**
+	 * Undo the latest recorded change. The history is read in the write queue,
+	 * so changes queued before the undo are recorded first.
+	 * @param expected - Only undo if this is still the latest change
+	 * @returns The undone operation, or undefined if there was nothing to undo
+	 */
+	undo(expected?: TaskOperation): Promise<TaskOperation | undefined> {
+		return this.update(undefined, (data) => {
+			if (expected && this.history.peekUndo() !== expected) return undefined;
+			const operation = this.history.takeUndo();
+			if (operation) applyOperation(data, operation, 'undo');
+			return operation;
+		});
+	}
+
+	/**
+	 * Redo the latest undone change, read in the write queue like `undo`
+	 * @returns The redone operation, or undefined if there was nothing to redo
+	 */
+	redo(): Promise<TaskOperation | undefined> {
+		return this.update(undefined, (data) => {
+			const operation = this.history.takeRedo();
+			if (operation) applyOperation(data, operation, 'redo');
+			return operation;
+		});
+	}
+
+	/**
+	 * Takes an active task out of its section and inserts it at `index` (or the end) of another
+	 */
+	private place(data: FocusData, id: string, section: (task: Task) => TaskSection, index?: number): Task | undefined {
+		if (!SECTIONS.some(s => data.tasks[s].some(t => t.id === id))) return undefined;
+
+		const task = removeTask(data, id)!;
+		task.section = section(task);
+		const tasks = data.tasks[task.section];
+		tasks.splice(index ?? tasks.length, 0, task);
+		return task;
+	}
+
+	private markCompleted(data: FocusData, id: string, completedAt: string): Task | undefined {
+		const task = removeTask(data, id);
+		if (!task) return undefined;
+
+		task.completed = true;
+		task.completedAt = completedAt;
+		const monthKey = completedAt.substring(0, 7);
+		(data.completedTasks[monthKey] ??= []).push(task);
+		return task;
+	}
+
+	/**
+	 * Writes the given months of `data` to their archive files, then takes them out of
+	 * `data`. The archive is written first so a failed write loses nothing.
+	 */
+	private async moveToArchive(data: FocusData, months: string[]): Promise<void> {
+		for (const monthKey of months) {
+			await this.archive.add(monthKey, data.completedTasks[monthKey]);
+			delete data.completedTasks[monthKey];
+		}
+	}
+
+	/**
+	 * Runs `operation` after every operation queued before it
+	 */
+	private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+		const result = this.queue.then(operation);
+		this.queue = result.catch(() => undefined);
+		return result;
+	}
+
+	/**
+	 * Re-parses the file if it changed since it was last read or written
+	 * @returns Whether the data changed
+	 */
+	private async refresh(): Promise<boolean> {
+		const content = await this.adapter.read();
+		if (this.data && content === this.content) return false;
+
+		if (content === null) {
+			this.data = emptyData();
+			this.content = null;
+			this.notified ??= this.data;
+			return true;
+		}
+
+		const data = parseTaskFile(content, { format: this.format });
+		this.data = data;
+		this.content = content;
+		this.notified ??= data;
+
+		// Files written before IDs were persisted get their generated IDs saved once,
+		// so the same tasks keep the same identity on the next load
+		if (hasUnpersistedIds(data, content)) {
+			await this.write(data);
+		}
+		return true;
+	}
+
+	/**
+	 * Writes `data` to the file, keeping notes, headings and frontmatter added by hand
+	 * where they are, and notifies listeners
+	 * @returns Whether the file changed
+	 */
+	private async commit(data: FocusData, source: TaskChangeSource = 'local'): Promise<boolean> {
+		this.data = data;
+		if (!await this.write(data)) return false;
+		this.emit(source);
+		return true;
+	}
+
+	private async write(data: FocusData): Promise<boolean> {
+		const content = serializeTaskFile(data, { format: this.format, previous: this.content ?? undefined });
+		if (content === this.content) return false;
+
+		await this.adapter.write(content);
+		this.content = content;
+		return true;
+	}
+
+	private emit(source: TaskChangeSource): void {
+		const previous = this.notified ?? this.data!;
+		this.notified = this.data;
+		for (const listener of this.listeners) {
+			try {
+				listener(this.data!, source, previous);
+			} catch (err) {
+				console.error('Focus: Task change listener failed', err);
+			}
+		}
+	}
+}
@@ -0,0 +1,197 @@
+import { DailyHabit, FocusData, Recurrence, Task, TaskPriority, TaskSection, WeeklyGoal } from './types';
+import { CompletedTask, TaskChangeSource, TaskStore } from './TaskStore';
+import { generateId, toISODate } from './taskParser';
+
+/**
+ * Bumped when a method is removed or changes what it takes or returns.
+ * New methods don't change it.
+ */
+export const API_VERSION = 1;
+
+const SECTIONS: TaskSection[] = ['immediate', 'thisWeek', 'unscheduled'];
+
+/**
+ * A task to add through the API. Only the title is needed; it goes to Unscheduled by default.
+ */
+export interface NewTask {
+	title: string;
+	section?: TaskSection;
+	url?: string;
+	doDate?: string; // ISO date
+	doTime?: string; // 24h time
+	recurrence?: Recurrence;
+	dueDate?: string;
+	startDate?: string;
+	priority?: TaskPriority;
+	notes?: string;
+}
+
+const NEW_TASK_FIELDS: (keyof NewTask)[] = ['url', 'doDate', 'doTime', 'recurrence', 'dueDate', 'startDate', 'priority', 'notes'];
+
+/**
+ * Passed to change listeners: where the change came from (this plugin, including API
+ * calls; a cloud pull; or an edit to the task file)
+ */
+export interface FocusApiChange {
+	source: TaskChangeSource;
+}
+
+/**
+ * What the API needs from the plugin
+ */
+export interface FocusApiOptions {
+	maxImmediateTasks: () => number;
+	onCompleted?: (task: Task) => Promise<void>; // Follow-up work the UI does too, like ticking the source note
+}
+
+/**
+ * Focus's API for other plugins and scripts (Templater, QuickAdd, Dataview JS):
+ *
+ *     const focus = app.plugins.plugins['productivity-focus'].api;
+ *     if (focus.version === 1) await focus.addTask({ title: 'Call Sam', section: 'immediate' });
+ *
+ * Changes go through the same store as the views, so they are saved, synced and
+ * undoable like any other. Tasks returned are copies: change them through the API.
+ * Methods throw an Error when a task doesn't exist or Immediate is full.
+ */
+export class FocusApi {
+	readonly version: typeof API_VERSION = API_VERSION;
+	private store: TaskStore;
+	private options: FocusApiOptions;
+
+	constructor(store: TaskStore, options: FocusApiOptions) {
+		this.store = store;
+		this.options = options;
+	}
+
+	/**
+	 * The tasks in a section, in order, or in every section
+	 */
+	async getTasks(section?: TaskSection): Promise<Task[]> {
+		const data = await this.store.getData();
+		return structuredClone((section ? [section] : SECTIONS).flatMap(s => data.tasks[s]));
+	}
+
+	/**
+	 * An active task by ID
+	 */
+	async getTask(id: string): Promise<Task | undefined> {
+		return (await this.getTasks()).find(task => task.id === id);
+	}
+
+	/**
+	 * Completed tasks by month ("2026-01"), including archived months
+	 */
+	async getCompletedTasks(): Promise<Record<string, Task[]>> {
+		return structuredClone(await this.store.getCompletedTasks());
+	}
+
+	/**
+	 * Today's focus: the open Immediate tasks, then other open tasks whose do date is today or earlier
+	 */
+	async getTodayFocus(today: Date = new Date()): Promise<Task[]> {
+		const data = await this.store.getData();
+		const date = toISODate(today);
+		const due = [...data.tasks.thisWeek, ...data.tasks.unscheduled]
+			.filter(task => !task.completed && !!task.doDate && task.doDate <= date)
+			.sort((a, b) => a.doDate!.localeCompare(b.doDate!));
+		return structuredClone([...data.tasks.immediate.filter(task => !task.completed), ...due]);
+	}
+
+	async getGoals(): Promise<WeeklyGoal[]> {
+		return structuredClone((await this.store.getData()).goals);
+	}
+
+	async getHabits(): Promise<DailyHabit[]> {
+		return structuredClone((await this.store.getData()).habits);
+	}
+
+	/**
+	 * Add a task at the end of its section
+	 * @returns The new task, with its ID
+	 */
+	async addTask(input: NewTask): Promise<Task> {
+		const title = input.title?.trim();
+		if (!title) throw new Error('Focus: a task needs a title');
+
+		const section = input.section ?? 'unscheduled';
+		if (!SECTIONS.includes(section)) throw new Error(`Focus: unknown section ${section}`);
+
+		// Only the fields a new task may set; scripts can pass anything
+		const task: Task = { id: generateId(), title, completed: false, section };
+		for (const key of NEW_TASK_FIELDS) {
+			if (input[key] !== undefined) Object.assign(task, { [key]: input[key] });
+		}
+
+		const added = await this.store.update('Add task', (data) => {
+			if (task.section === 'immediate' && this.immediateFull(data)) return false;
+			data.tasks[task.section].push(task);
+			return true;
+		});
+		if (!added) throw this.immediateFullError();
+		return structuredClone(task);
+	}
+
+	/**
+	 * Complete an active task. A recurring task's next occurrence is added to This Week.
+	 */
+	async completeTask(id: string): Promise<CompletedTask> {
+		if (!await this.getTask(id)) throw this.notFoundError(id);
+		const result = await this.store.completeTask(id);
+		if (!result) throw this.notFoundError(id);
+		if (this.options.onCompleted) await this.options.onCompleted(result.task);
+		return structuredClone(result);
+	}
+
+	/**
+	 * Move a task to a section, at `index` or else at the end
+	 */
+	async moveTask(id: string, section: TaskSection, index?: number): Promise<Task> {
+		if (!await this.getTask(id)) throw this.notFoundError(id);
+		// Checked in the same update as the move, so two moves at once can't both fill the last slot
+		const moved = await this.store.update('Move task', (data): Task | 'full' | undefined => {
+			const from = SECTIONS.find(s => data.tasks[s].some(task => task.id === id));
+			if (!from) return undefined;
+			if (section === 'immediate' && from !== 'immediate' && this.immediateFull(data)) return 'full';
+
+			const task = data.tasks[from].find(t => t.id === id)!;
+			data.tasks[from] = data.tasks[from].filter(t => t !== task);
+			task.section = section;
+			data.tasks[section].splice(index ?? data.tasks[section].length, 0, task);
+			return task;
+		});
+		if (moved === 'full') throw this.immediateFullError();
+		if (!moved) throw this.notFoundError(id);
+		return structuredClone(moved);
+	}
+
+	/**
+	 * Delete a task, active or completed
+	 * @returns The deleted task
+	 */
+	async deleteTask(id: string): Promise<Task> {
+		const task = await this.store.deleteTask(id);
+		if (!task) throw this.notFoundError(id);
+		return structuredClone(task);
+	}
+
+	/**
+	 * Call `listener` after every change to the tasks, goals or habits
+	 * @returns A function that removes the listener
+	 */
+	onChange(listener: (change: FocusApiChange) => void): () => void {
+		return this.store.onChange((_data, source) => listener({ source }));
+	}
+
+	private immediateFull(data: FocusData): boolean {
+		return data.tasks.immediate.filter(task => !task.completed).length >= this.options.maxImmediateTasks();
+	}
+
+	private immediateFullError(): Error {
+		return new Error(`Focus: Immediate already has the maximum of ${this.options.maxImmediateTasks()} tasks`);
+	}
+
+	private notFoundError(id: string): Error {
+		return new Error(`Focus: no task with ID ${id}`);
+	}
+}
@@ -0,0 +1,261 @@
+/**
+ * A request as the client makes it. The plugin sends it with Obsidian's `requestUrl`
+ * (which isn't bound by CORS); tests hand it to an in-process server.
+ */
+export interface CalDavRequest {
+	url: string;
+	method: 'PROPFIND' | 'REPORT' | 'PUT' | 'DELETE';
+	headers: Record<string, string>;
+	body?: string;
+}
+
+export interface CalDavResponse {
+	status: number;
+	headers: Record<string, string>; // Lower-case names
+	text: string;
+}
+
+export type CalDavTransport = (request: CalDavRequest) => Promise<CalDavResponse>;
+
+/**
+ * A failed request, with its HTTP status so callers can tell a lost race (412)
+ * from bad credentials (401)
+ */
+export class CalDavError extends Error {
+	readonly status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.name = 'CalDavError';
+		this.status = status;
+	}
+}
+
+export interface CalDavCalendar {
+	url: string;
+	name: string;
+}
+
+/**
+ * A calendar object on the server
+ */
+export interface RemoteTodo {
+	href: string; // Absolute URL
+	etag: string;
+	ics: string;
+}
+
+/**
+ * What changed in a calendar since a sync token. Without a token, every object is "changed".
+ */
+export interface CalendarChanges {
+	token: string;
+	changed: RemoteTodo[];
+	deleted: string[]; // Absolute URLs
+}
+
+const DAV = 'xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav"';
+
+/**
+ * The contents of every element with this local name, whatever its namespace prefix.
+ * Enough for the flat multistatus responses CalDAV servers send.
+ */
+function elements(xml: string, name: string): string[] {
+	const pattern = new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${name}\\s*>)`, 'g');
+	const found: string[] = [];
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(xml)) !== null) {
+		found.push(match[1] ?? '');
+	}
+	return found;
+}
+
+function hasElement(xml: string, name: string): boolean {
+	return new RegExp(`<(?:[\\w-]+:)?${name}[\\s/>]`).test(xml);
+}
+
+function decodeXml(text: string): string {
+	const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+	if (cdata) return cdata[1];
+	return text
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, '\'')
+		.replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(parseInt(code, 10)))
+		.replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+		.replace(/&amp;/g, '&');
+}
+
+function encodeXml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * One `<response>` of a multistatus: its URL, status and successful properties
+ */
+interface DavResponse {
+	href: string;
+	status: number; // The response's own status, or 200 when it only has propstats
+	props: string; // The XML of the propstats that succeeded
+}
+
+function parseMultistatus(xml: string, base: string): DavResponse[] {
+	return elements(xml, 'response').map((response) => {
+		const href = new URL(decodeXml(elements(response, 'href')[0]?.trim() ?? ''), base).toString();
+		const propstats = elements(response, 'propstat');
+		const ownStatus = elements(response.replace(/<(?:[\w-]+:)?propstat[\s\S]*?<\/(?:[\w-]+:)?propstat\s*>/g, ''), 'status')[0];
+		const props = propstats
+			.filter(propstat => / 2\d\d /.test(elements(propstat, 'status')[0] ?? ' 200 '))
+			.map(propstat => elements(propstat, 'prop')[0] ?? '')
+			.join('');
+		return { href, status: ownStatus ? parseInt(ownStatus.trim().split(' ')[1], 10) : 200, props };
+	});
+}
+
+const withSlash = (url: string) => (url.endsWith('/') ? url : `${url}/`);
+
+/**
+ * A CalDAV client covering what Focus needs: finding the account's task calendars,
+ * writing and deleting to-dos, and fetching what changed with a sync token (RFC 6578)
+ */
+export class CalDavClient {
+	private serverUrl: string;
+	private authorization: string;
+	private transport: CalDavTransport;
+
+	constructor(serverUrl: string, username: string, password: string, transport: CalDavTransport) {
+		this.serverUrl = /^https?:\/\//.test(serverUrl) ? serverUrl : `https://${serverUrl}`;
+		// Base64 of the UTF-8 bytes, so non-ASCII passwords work
+		const bytes = new TextEncoder().encode(`${username}:${password}`);
+		this.authorization = `Basic ${btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))}`;
+		this.transport = transport;
+	}
+
+	/**
+	 * The account's calendars that can hold to-dos, found from the server URL through
+	 * the user's principal and calendar home
+	 */
+	async discoverCalendars(): Promise<CalDavCalendar[]> {
+		const principal = await this.findHref(this.serverUrl, '<d:current-user-principal/>', 'current-user-principal') ?? this.serverUrl;
+		const home = await this.findHref(principal, '<c:calendar-home-set/>', 'calendar-home-set') ?? principal;
+
+		const xml = await this.request(withSlash(home), 'PROPFIND', { Depth: '1' },
+			`<d:propfind ${DAV}><d:prop><d:displayname/><d:resourcetype/><c:supported-calendar-component-set/></d:prop></d:propfind>`);
+
+		return parseMultistatus(xml, home)
+			.filter(({ props }) => hasElement(elements(props, 'resourcetype')[0] ?? '', 'calendar'))
+			.filter(({ props }) => {
+				// Servers that don't list components accept them all
+				const components = elements(props, 'supported-calendar-component-set')[0];
+				return !components || /name="VTODO"/i.test(components);
+			})
+			.map(({ href, props }) => ({
+				url: withSlash(href),
+				name: decodeXml(elements(props, 'displayname')[0] ?? '').trim() || decodeURIComponent(href.split('/').filter(Boolean).pop() ?? href),
+			}));
+	}
+
+	/**
+	 * Create or replace a to-do
+	 * @param etag - The version last seen, so a change made on the server since isn't
+	 *   overwritten (fails with 412). Without it, the to-do must not exist yet;
+	 *   an empty one (the server didn't say) replaces whatever is there.
+	 * @returns The new ETag, if the server sent one
+	 */
+	async putTodo(href: string, ics: string, etag?: string): Promise<string> {
+		const precondition: Record<string, string> = etag === undefined ? { 'If-None-Match': '*' } : etag ? { 'If-Match': etag } : {};
+		const response = await this.send(href, 'PUT', { 'Content-Type': 'text/calendar; charset=utf-8', ...precondition }, ics);
+		return response.headers.etag ?? '';
+	}
+
+	/**
+	 * Delete a to-do. One that is already gone counts as deleted.
+	 */
+	async deleteTodo(href: string, etag?: string): Promise<void> {
+		try {
+			await this.send(href, 'DELETE', etag ? { 'If-Match': etag } : {});
+		} catch (error) {
+			if (!(error instanceof CalDavError && (error.status === 404 || error.status === 410))) throw error;
+		}
+	}
+
+	/**
+	 * What changed in a calendar since `token`. An empty or expired token gets every object.
+	 */
+	async getChanges(calendarUrl: string, token: string): Promise<CalendarChanges> {
+		let xml: string;
+		try {
+			// RFC 6578 requires Depth 0; the sync level says how deep to look
+			xml = await this.request(calendarUrl, 'REPORT', { Depth: '0' },
+				`<d:sync-collection ${DAV}><d:sync-token>${encodeXml(token)}</d:sync-token><d:sync-level>1</d:sync-level>` +
+				'<d:prop><d:getetag/><c:calendar-data/></d:prop></d:sync-collection>');
+		} catch (error) {
+			// An expired token is refused with 403 or 409 (valid-sync-token); start over
+			if (token && error instanceof CalDavError && (error.status === 403 || error.status === 409)) {
+				return this.getChanges(calendarUrl, '');
+			}
+			throw error;
+		}
+
+		const changes: CalendarChanges = { token: decodeXml(elements(xml, 'sync-token').pop() ?? '').trim(), changed: [], deleted: [] };
+		const missing: string[] = [];
+		for (const response of parseMultistatus(xml, calendarUrl)) {
+			if (response.href === calendarUrl) continue;
+			if (response.status === 404) {
+				changes.deleted.push(response.href);
+				continue;
+			}
+			const ics = decodeXml(elements(response.props, 'calendar-data')[0] ?? '');
+			if (ics.trim()) {
+				changes.changed.push({ href: response.href, etag: decodeXml(elements(response.props, 'getetag')[0] ?? '').trim(), ics });
+			} else {
+				missing.push(response.href);
+			}
+		}
+
+		// Some servers only send ETags in a sync report; fetch the data for those
+		if (missing.length > 0) {
+			changes.changed.push(...await this.multiget(calendarUrl, missing));
+		}
+		return changes;
+	}
+
+	private async multiget(calendarUrl: string, hrefs: string[]): Promise<RemoteTodo[]> {
+		const paths = hrefs.map(href => `<d:href>${encodeXml(new URL(href).pathname)}</d:href>`).join('');
+		const xml = await this.request(calendarUrl, 'REPORT', { Depth: '1' },
+			`<c:calendar-multiget ${DAV}><d:prop><d:getetag/><c:calendar-data/></d:prop>${paths}</c:calendar-multiget>`);
+		return parseMultistatus(xml, calendarUrl)
+			.filter(response => response.status === 200 && hasElement(response.props, 'calendar-data'))
+			.map(response => ({
+				href: response.href,
+				etag: decodeXml(elements(response.props, 'getetag')[0] ?? '').trim(),
+				ics: decodeXml(elements(response.props, 'calendar-data')[0] ?? ''),
+			}));
+	}
+
+	/**
+	 * The URL in a single property of `url`, like the principal or calendar home
+	 */
+	private async findHref(url: string, prop: string, name: string): Promise<string | null> {
+		const xml = await this.request(url, 'PROPFIND', { Depth: '0' }, `<d:propfind ${DAV}><d:prop>${prop}</d:prop></d:propfind>`);
+		const [response] = parseMultistatus(xml, url);
+		const href = response && elements(elements(response.props, name)[0] ?? '', 'href')[0];
+		return href ? new URL(decodeXml(href.trim()), url).toString() : null;
+	}
+
+	private async request(url: string, method: 'PROPFIND' | 'REPORT', headers: Record<string, string>, body: string): Promise<string> {
+		const response = await this.send(url, method, { 'Content-Type': 'application/xml; charset=utf-8', ...headers },
+			`<?xml version="1.0" encoding="utf-8"?>${body}`);
+		return response.text;
+	}
+
+	private async send(url: string, method: CalDavRequest['method'], headers: Record<string, string>, body?: string): Promise<CalDavResponse> {
+		const response = await this.transport({ url, method, headers: { Authorization: this.authorization, ...headers }, body });
+		if (response.status < 200 || response.status >= 300) {
+			const reason = response.status === 401 ? 'wrong username or password' : `HTTP ${response.status}`;
+			throw new CalDavError(`CalDAV ${method} ${url} failed: ${reason}`, response.status);
+		}
+		return response;
+	}
+}
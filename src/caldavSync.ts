@@ -0,0 +1,200 @@
+import { CalDavDeletion, FocusData, Task } from './types';
+import { buildTaskCalendar, IcsOptions, taskIdOfUid } from './icsExport';
+import { CalendarChanges } from './caldavClient';
+
+/**
+ * The to-do a task was last written as
+ */
+export interface CalDavItem {
+	href: string;
+	etag: string;
+	hash: string; // Of the calendar data last written, to skip unchanged tasks
+	detached?: boolean; // Deleted in the calendar and kept in Focus: no longer synced
+}
+
+/**
+ * What the plugin remembers between syncs, saved next to its settings
+ */
+export interface CalDavState {
+	calendarUrl: string; // The calendar the items are in; a different one starts over
+	syncToken: string;
+	items: Record<string, CalDavItem>; // By task ID
+}
+
+export function emptyCalDavState(calendarUrl: string): CalDavState {
+	return { calendarUrl, syncToken: '', items: {} };
+}
+
+/**
+ * The parts of a VTODO that come back to Focus
+ */
+export interface ParsedTodo {
+	uid: string;
+	completed: boolean;
+	completedAt?: string; // ISO date
+}
+
+/**
+ * The first VTODO in a calendar object, or null if it has none
+ */
+export function parseTodo(ics: string): ParsedTodo | null {
+	const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+	const start = lines.indexOf('BEGIN:VTODO');
+	if (start === -1) return null;
+
+	const todo: ParsedTodo = { uid: '', completed: false };
+	// Stop at the first nested component (an alarm) or the end of the to-do
+	for (const line of lines.slice(start + 1)) {
+		if (line.startsWith('BEGIN:') || line.startsWith('END:')) break;
+		const colon = line.indexOf(':');
+		const name = line.slice(0, colon).split(';')[0].toUpperCase();
+		const value = line.slice(colon + 1).trim();
+		if (name === 'UID') todo.uid = value;
+		if (name === 'STATUS') todo.completed = value.toUpperCase() === 'COMPLETED';
+		if (name === 'COMPLETED' && /^\d{8}/.test(value)) {
+			todo.completedAt = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+		}
+	}
+	return todo.uid ? todo : null;
+}
+
+/**
+ * Where a task's to-do is created in a calendar
+ */
+export function todoHref(calendarUrl: string, taskId: string): string {
+	return new URL(`${encodeURIComponent(taskId)}.ics`, calendarUrl.endsWith('/') ? calendarUrl : `${calendarUrl}/`).toString();
+}
+
+/**
+ * A short hash of a calendar object, ignoring its DTSTAMP
+ */
+export function hashCalendar(ics: string): string {
+	const content = ics.replace(/^DTSTAMP:.*$/gm, '');
+	let hash = 5381;
+	for (let i = 0; i < content.length; i++) {
+		hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+	}
+	return (hash >>> 0).toString(36);
+}
+
+function activeTasks(data: FocusData): Task[] {
+	return [...data.tasks.immediate, ...data.tasks.thisWeek, ...data.tasks.unscheduled];
+}
+
+/**
+ * What to do in Focus after fetching a calendar's changes
+ */
+export interface PullPlan {
+	complete: { id: string; completedAt?: string }[];
+	delete: string[];
+	state: CalDavState; // With the new sync token and ETags
+}
+
+/**
+ * Works out what the calendar's changes mean for Focus: to-dos marked completed
+ * complete their tasks, and deleted to-dos are handled as `deletion` says.
+ * Other edits made in the calendar aren't brought back; the next push overwrites them.
+ */
+export function planPull(data: FocusData, state: CalDavState, changes: CalendarChanges, deletion: CalDavDeletion): PullPlan {
+	const next: CalDavState = { ...state, syncToken: changes.token, items: { ...state.items } };
+	const plan: PullPlan = { complete: [], delete: [], state: next };
+	const active = new Set(activeTasks(data).filter(task => !task.completed).map(task => task.id));
+	const idOfHref = (href: string) => Object.keys(next.items).find(id => next.items[id].href === href);
+
+	for (const remote of changes.changed) {
+		const todo = parseTodo(remote.ics);
+		const id = (todo && taskIdOfUid(todo.uid)) ?? idOfHref(remote.href);
+		if (!todo || !id) continue; // Not one of ours
+
+		const item = next.items[id];
+		if (item?.detached) continue;
+		if (!item && !active.has(id)) continue;
+
+		if (todo.completed && active.has(id)) {
+			plan.complete.push({ id, completedAt: todo.completedAt });
+			delete next.items[id];
+		} else if (!item) {
+			// Written before the state was lost: adopt it, and the push rewrites it
+			next.items[id] = { href: remote.href, etag: remote.etag, hash: '' };
+		} else {
+			next.items[id] = { ...item, href: remote.href, etag: remote.etag };
+		}
+	}
+
+	for (const href of changes.deleted) {
+		const id = idOfHref(href);
+		if (!id || next.items[id].detached) continue;
+
+		if (active.has(id) && deletion === 'keep') {
+			next.items[id] = { ...next.items[id], detached: true };
+			continue;
+		}
+		if (active.has(id)) {
+			if (deletion === 'complete') plan.complete.push({ id });
+			else plan.delete.push(id);
+		}
+		delete next.items[id];
+	}
+
+	return plan;
+}
+
+/**
+ * A to-do to write. `etag` is the version it replaces; without one it is created.
+ */
+export interface TodoWrite {
+	taskId: string;
+	href: string;
+	ics: string;
+	hash: string;
+	etag?: string;
+	completed: boolean; // Written one last time as completed, then no longer synced
+}
+
+export interface PushPlan {
+	put: TodoWrite[];
+	remove: { taskId: string; href: string; etag: string }[];
+	forget: string[]; // Detached tasks that are gone from Focus too
+}
+
+/**
+ * Works out which to-dos to write so the calendar matches Focus: one for every open
+ * task with a do date, rewritten when the task changes, marked completed when it is,
+ * and deleted when the task is deleted or loses its date. A recurring task is written
+ * one occurrence at a time; completing it adds the next occurrence as a new task.
+ */
+export function planPush(data: FocusData, state: CalDavState, options: Omit<IcsOptions, 'component' | 'singleOccurrence'>): PushPlan {
+	const plan: PushPlan = { put: [], remove: [], forget: [] };
+	const write = (task: Task) => {
+		const item = state.items[task.id];
+		if (item?.detached) return;
+
+		const ics = buildTaskCalendar(task, { ...options, component: 'todo', singleOccurrence: true });
+		const hash = hashCalendar(ics);
+		if (item?.hash === hash) return;
+		plan.put.push({
+			taskId: task.id,
+			href: item?.href ?? todoHref(state.calendarUrl, task.id),
+			ics,
+			hash,
+			etag: item?.etag,
+			completed: task.completed,
+		});
+	};
+
+	const dated = activeTasks(data).filter(task => task.doDate && !task.completed);
+	dated.forEach(write);
+
+	// Completed tasks are written once more, if they were synced
+	const completed = [...activeTasks(data), ...Object.values(data.completedTasks).flat()]
+		.filter(task => task.completed && task.doDate && state.items[task.id]);
+	completed.forEach(write);
+
+	const kept = new Set([...dated, ...completed].map(task => task.id));
+	for (const [taskId, item] of Object.entries(state.items)) {
+		if (kept.has(taskId)) continue;
+		if (item.detached) plan.forget.push(taskId);
+		else plan.remove.push({ taskId, href: item.href, etag: item.etag });
+	}
+	return plan;
+}
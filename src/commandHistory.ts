@@ -0,0 +1,227 @@
+import { FocusData, Task, TaskSection } from './types';
+
+const SECTIONS: TaskSection[] = ['immediate', 'thisWeek', 'unscheduled'];
+
+/**
+ * Frontmatter and habit fields restored wholesale when they change
+ */
+const DATA_FIELDS = ['weekOf', 'goals', 'habits', 'habitResetDate'] as const;
+
+type DataField = typeof DATA_FIELDS[number];
+
+/**
+ * Where a task sits: an active section, or a completed-month key such as "month:2026-01"
+ */
+interface TaskPlacement {
+	bucket: string;
+	index: number;
+	task: Task;
+}
+
+/**
+ * One task's state before and after an operation; null means it didn't exist
+ */
+interface TaskChange {
+	id: string;
+	before: TaskPlacement | null;
+	after: TaskPlacement | null;
+}
+
+interface FieldChange {
+	field: DataField;
+	before: unknown;
+	after: unknown;
+}
+
+/**
+ * A recorded mutation of the task data. Only the tasks and fields it touched are kept,
+ * so undoing it leaves changes made since (by sync, auto-sort or other devices) alone.
+ */
+export interface TaskOperation {
+	label: string;
+	tasks: TaskChange[];
+	fields: FieldChange[];
+}
+
+function clone<T>(value: T): T {
+	return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function bucketTasks(data: FocusData, bucket: string, create: boolean): Task[] | undefined {
+	if (!bucket.startsWith('month:')) {
+		return data.tasks[bucket as TaskSection];
+	}
+	const month = bucket.slice('month:'.length);
+	if (!data.completedTasks[month] && create) {
+		data.completedTasks[month] = [];
+	}
+	return data.completedTasks[month];
+}
+
+function placements(data: FocusData): Map<string, TaskPlacement> {
+	const result = new Map<string, TaskPlacement>();
+	const add = (bucket: string, tasks: Task[]) => {
+		tasks.forEach((task, index) => result.set(task.id, { bucket, index, task }));
+	};
+	for (const section of SECTIONS) {
+		add(section, data.tasks[section]);
+	}
+	for (const [month, tasks] of Object.entries(data.completedTasks || {})) {
+		add(`month:${month}`, tasks);
+	}
+	return result;
+}
+
+/**
+ * Ids of tasks whose order changed relative to the other tasks that stayed in the same bucket
+ */
+function reorderedIds(before: Map<string, TaskPlacement>, after: Map<string, TaskPlacement>): Set<string> {
+	const orders = (from: Map<string, TaskPlacement>, other: Map<string, TaskPlacement>) => {
+		const byBucket = new Map<string, string[]>();
+		for (const [id, placement] of from) {
+			if (other.get(id)?.bucket !== placement.bucket) continue;
+			const ids = byBucket.get(placement.bucket) ?? [];
+			ids[placement.index] = id;
+			byBucket.set(placement.bucket, ids);
+		}
+		return byBucket;
+	};
+
+	const result = new Set<string>();
+	const afterOrders = orders(after, before);
+	for (const [bucket, ids] of orders(before, after)) {
+		const beforeOrder = ids.filter(Boolean);
+		const afterOrder = (afterOrders.get(bucket) ?? []).filter(Boolean);
+		if (beforeOrder.join('\n') !== afterOrder.join('\n')) {
+			beforeOrder.forEach(id => result.add(id));
+		}
+	}
+	return result;
+}
+
+/**
+ * Describes the difference between two versions of the task data as an operation.
+ * Returns null when nothing changed.
+ */
+export function diffTaskData(label: string, before: FocusData, after: FocusData): TaskOperation | null {
+	const beforeTasks = placements(before);
+	const afterTasks = placements(after);
+	const reordered = reorderedIds(beforeTasks, afterTasks);
+
+	const tasks: TaskChange[] = [];
+	for (const id of new Set([...beforeTasks.keys(), ...afterTasks.keys()])) {
+		const from = beforeTasks.get(id);
+		const to = afterTasks.get(id);
+		const changed = !from || !to ||
+			from.bucket !== to.bucket ||
+			reordered.has(id) ||
+			JSON.stringify(from.task) !== JSON.stringify(to.task);
+		if (changed) {
+			tasks.push({ id, before: from ? clone(from) : null, after: to ? clone(to) : null });
+		}
+	}
+
+	const fields: FieldChange[] = [];
+	for (const field of DATA_FIELDS) {
+		if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+			fields.push({ field, before: clone(before[field]), after: clone(after[field]) });
+		}
+	}
+
+	return tasks.length > 0 || fields.length > 0 ? { label, tasks, fields } : null;
+}
+
+/**
+ * Puts the tasks and fields an operation touched back to their state before it
+ * ('undo') or after it ('redo'). Everything else in `data` is left as it is.
+ */
+export function applyOperation(data: FocusData, operation: TaskOperation, direction: 'undo' | 'redo'): void {
+	const target = (change: TaskChange) => direction === 'undo' ? change.before : change.after;
+
+	// Take every touched task out of wherever it is now...
+	const ids = new Set(operation.tasks.map(change => change.id));
+	for (const section of SECTIONS) {
+		data.tasks[section] = data.tasks[section].filter(t => !ids.has(t.id));
+	}
+	for (const month of Object.keys(data.completedTasks)) {
+		data.completedTasks[month] = data.completedTasks[month].filter(t => !ids.has(t.id));
+	}
+
+	// ...and put it back where it was, front to back so earlier inserts don't shift later ones
+	const placed = operation.tasks
+		.map(target)
+		.filter((placement): placement is TaskPlacement => placement !== null)
+		.sort((a, b) => a.index - b.index);
+	for (const placement of placed) {
+		const tasks = bucketTasks(data, placement.bucket, true)!;
+		tasks.splice(Math.min(placement.index, tasks.length), 0, clone(placement.task));
+	}
+
+	for (const month of Object.keys(data.completedTasks)) {
+		if (data.completedTasks[month].length === 0) {
+			delete data.completedTasks[month];
+		}
+	}
+
+	for (const change of operation.fields) {
+		const value = clone(direction === 'undo' ? change.before : change.after);
+		(data as unknown as Record<DataField, unknown>)[change.field] = value;
+	}
+}
+
+/**
+ * Undo and redo stacks of task operations, shared by every view of the plugin
+ */
+export class CommandHistory {
+	private undoStack: TaskOperation[] = [];
+	private redoStack: TaskOperation[] = [];
+	private limit: number;
+
+	constructor(limit: number = 50) {
+		this.limit = limit;
+	}
+
+	/**
+	 * Records the change from `before` to `after`. A new operation clears the redo stack.
+	 */
+	record(label: string, before: FocusData, after: FocusData): void {
+		const operation = diffTaskData(label, before, after);
+		if (!operation) return;
+
+		this.undoStack.push(operation);
+		if (this.undoStack.length > this.limit) {
+			this.undoStack.shift();
+		}
+		this.redoStack = [];
+	}
+
+	/**
+	 * The operation the next undo would take, left in place
+	 */
+	peekUndo(): TaskOperation | undefined {
+		return this.undoStack[this.undoStack.length - 1];
+	}
+
+	/**
+	 * Takes the latest operation to undo, moving it onto the redo stack
+	 */
+	takeUndo(): TaskOperation | undefined {
+		const operation = this.undoStack.pop();
+		if (operation) this.redoStack.push(operation);
+		return operation;
+	}
+
+	/**
+	 * Takes the latest undone operation to redo, moving it back onto the undo stack
+	 */
+	takeRedo(): TaskOperation | undefined {
+		const operation = this.redoStack.pop();
+		if (operation) this.undoStack.push(operation);
+		return operation;
+	}
+
+	clear(): void {
+		this.undoStack = [];
+		this.redoStack = [];
+	}
+}
@@ -0,0 +1,187 @@
+import { FocusData, IcsComponent, Recurrence, Task } from './types';
+
+/**
+ * How calendar files are written: each task with a do date becomes a VEVENT (shown by
+ * every calendar app) or a VTODO (for apps with a task list), with the task's ID as its UID.
+ * Times are floating, so they show at the same clock time in any time zone.
+ */
+export interface IcsOptions {
+	component: IcsComponent;
+	alarmMinutes: number | null; // Alarm this many minutes before a timed task (null = no alarm)
+	eventMinutes?: number; // Length of a timed event (30 by default)
+	singleOccurrence?: boolean; // Leave out RRULE, for calendars that get each occurrence as its own task
+	now?: Date; // DTSTAMP
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const pad = (n: number) => ('0' + n).slice(-2);
+
+/**
+ * Escapes a TEXT value: backslashes, semicolons, commas and line breaks
+ */
+function escapeText(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Splits a content line into lines of at most 75 octets, continued with a leading space
+ */
+function foldLine(line: string): string[] {
+	const lines: string[] = [];
+	let current = '';
+	let octets = 0;
+	for (const char of line) {
+		const code = char.codePointAt(0)!;
+		const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+		const limit = lines.length === 0 ? 75 : 74; // Continuation lines spend one octet on the space
+		if (octets + size > limit) {
+			lines.push(current);
+			current = '';
+			octets = 0;
+		}
+		current += char;
+		octets += size;
+	}
+	lines.push(current);
+	return lines.map((part, i) => (i === 0 ? part : ` ${part}`));
+}
+
+function formatDate(date: string): string {
+	return date.replace(/-/g, '');
+}
+
+function formatDateTime(date: string, time: string): string {
+	return `${formatDate(date)}T${time.replace(':', '')}00`;
+}
+
+function formatUtc(date: Date): string {
+	return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * The RRULE for a recurrence, e.g. `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO`
+ */
+export function toRRule(recurrence: Recurrence): string {
+	const freq = { days: 'DAILY', weeks: 'WEEKLY', months: 'MONTHLY' }[recurrence.type];
+	let rule = `FREQ=${freq};INTERVAL=${recurrence.interval}`;
+	if (recurrence.type === 'weeks' && recurrence.dayOfWeek != null) {
+		rule += `;BYDAY=${WEEKDAYS[recurrence.dayOfWeek]}`;
+	}
+	if (recurrence.type === 'months' && recurrence.dayOfMonth != null) {
+		rule += `;BYMONTHDAY=${recurrence.dayOfMonth}`;
+	}
+	return rule;
+}
+
+/**
+ * A date or date-time property: `DTSTART;VALUE=DATE:20260127` or `DTSTART:20260127T143000`
+ */
+function dateProperty(name: string, task: Task): string {
+	return task.doTime
+		? `${name}:${formatDateTime(task.doDate!, task.doTime)}`
+		: `${name};VALUE=DATE:${formatDate(task.doDate!)}`;
+}
+
+/**
+ * The UID a task has in every calendar it is written to
+ */
+export function taskUid(task: Pick<Task, 'id'>): string {
+	return `${task.id}@focus`;
+}
+
+/**
+ * The task ID in a UID written by `taskUid`, or null for other calendar items
+ */
+export function taskIdOfUid(uid: string): string | null {
+	return uid.endsWith('@focus') ? uid.slice(0, -'@focus'.length) : null;
+}
+
+function taskComponent(task: Task, options: IcsOptions, stamp: string): string[] {
+	const todo = options.component === 'todo';
+	const repeats = !!task.recurrence && !task.completed && !options.singleOccurrence;
+	const lines = [
+		`BEGIN:${todo ? 'VTODO' : 'VEVENT'}`,
+		`UID:${taskUid(task)}`,
+		`DTSTAMP:${stamp}`,
+		// A completed event has no status of its own, so its title says so
+		`SUMMARY:${escapeText(!todo && task.completed ? `✓ ${task.title}` : task.title)}`,
+	];
+
+	if (todo) {
+		// A repeating to-do needs a start for its RRULE to count from
+		if (repeats) lines.push(dateProperty('DTSTART', task));
+		lines.push(dateProperty('DUE', task));
+		lines.push(`STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+		if (task.completed && task.completedAt) {
+			// RFC 5545 only allows a UTC time here
+			lines.push(`COMPLETED:${formatDate(task.completedAt)}T000000Z`);
+		}
+	} else {
+		lines.push(dateProperty('DTSTART', task));
+		if (task.doTime) lines.push(`DURATION:PT${options.eventMinutes ?? 30}M`);
+		lines.push('STATUS:CONFIRMED');
+		lines.push('TRANSP:TRANSPARENT');
+	}
+
+	if (repeats) lines.push(`RRULE:${toRRule(task.recurrence!)}`);
+	if (task.url) lines.push(`URL:${task.url}`);
+	if (task.notes) lines.push(`DESCRIPTION:${escapeText(task.notes)}`);
+
+	// Date-only tasks start at midnight, when an alarm would help no one
+	if (options.alarmMinutes !== null && task.doTime && !task.completed) {
+		lines.push(
+			'BEGIN:VALARM',
+			'ACTION:DISPLAY',
+			`DESCRIPTION:${escapeText(task.title)}`,
+			`TRIGGER${todo && !repeats ? ';RELATED=END' : ''}:-PT${options.alarmMinutes}M`,
+			'END:VALARM',
+		);
+	}
+
+	lines.push(`END:${todo ? 'VTODO' : 'VEVENT'}`);
+	return lines;
+}
+
+function calendar(components: string[], name?: string): string {
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		'PRODID:-//Focus//Obsidian Focus Plugin//EN',
+		'CALSCALE:GREGORIAN',
+		...(name ? [`X-WR-CALNAME:${name}`] : []),
+		...components,
+		'END:VCALENDAR',
+	];
+	return lines.flatMap(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * An RFC 5545 calendar of the tasks that have a do date, active and completed
+ */
+export function buildCalendar(data: FocusData, options: IcsOptions): string {
+	const stamp = formatUtc(options.now ?? new Date());
+	const tasks = [
+		...data.tasks.immediate,
+		...data.tasks.thisWeek,
+		...data.tasks.unscheduled,
+		...Object.values(data.completedTasks).flat(),
+	].filter(task => task.doDate);
+
+	return calendar(tasks.flatMap(task => taskComponent(task, options, stamp)), 'Focus');
+}
+
+/**
+ * A calendar object holding one dated task, as a CalDAV server stores it
+ */
+export function buildTaskCalendar(task: Task, options: IcsOptions): string {
+	return calendar(taskComponent(task, options, formatUtc(options.now ?? new Date())));
+}
+
+/**
+ * Whether two calendars differ only in their DTSTAMPs, so an unchanged schedule isn't rewritten
+ */
+export function sameCalendar(a: string, b: string): boolean {
+	const withoutStamps = (ics: string) => ics.replace(/^DTSTAMP:.*$/gm, '');
+	return withoutStamps(a) === withoutStamps(b);
+}
@@ -0,0 +1,82 @@
+import { FocusData, ImportRule, SECTION_NAMES, Task, TaskSection } from './types';
+import { getCurrentWeekStart, toISODate } from './taskParser';
+import { matchesGlob } from './vaultSync';
+
+/**
+ * Whether a title has a tag, or a tag nested under it: `#focus` matches `#focus/now`
+ */
+function hasTag(title: string, tag: string): boolean {
+	const name = tag.trim().replace(/^#/, '');
+	if (!name) return false;
+	const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	return new RegExp(`(?:^|\\s)#${escaped}(?=[\\s/]|$)`, 'i').test(title);
+}
+
+/**
+ * Whether a rule's condition holds for a task imported from the note at `path`.
+ * Date conditions look at the do date, or else the due date.
+ */
+export function ruleMatches(rule: ImportRule, task: Task, path: string, today: Date = new Date()): boolean {
+	const date = task.doDate ?? task.dueDate;
+	switch (rule.match) {
+		case 'tag':
+			return hasTag(task.title, rule.value);
+		case 'folder':
+			return matchesGlob(path, rule.value);
+		case 'text':
+			return !!rule.value.trim() && task.title.toLowerCase().includes(rule.value.trim().toLowerCase());
+		case 'dateToday':
+			return !!date && date <= toISODate(today);
+		case 'dateThisWeek': {
+			if (!date) return false;
+			const start = getCurrentWeekStart(today);
+			const [year, month, day] = start.split('-').map(Number);
+			return date >= start && date <= toISODate(new Date(year, month - 1, day + 6));
+		}
+	}
+}
+
+/**
+ * The first rule, in order, that a task imported from `path` matches
+ */
+export function findImportRule(rules: ImportRule[], task: Task, path: string, today: Date = new Date()): ImportRule | undefined {
+	return rules.find(rule => ruleMatches(rule, task, path, today));
+}
+
+/**
+ * Moves a newly imported task from the backlog to the section its rule names and
+ * links it to the rule's goal, found among this week's goals by title. A full
+ * Immediate section sends the task to This Week instead.
+ * @returns The section the task ended up in
+ */
+export function applyImportRule(data: FocusData, task: Task, rule: ImportRule, maxImmediate: number): TaskSection {
+	const goal = rule.goal.trim().toLowerCase();
+	const match = goal ? data.goals.find(g => g.title.trim().toLowerCase() === goal) : undefined;
+	if (match) task.goalId = match.id;
+
+	let section = rule.section;
+	if (section === 'immediate' && data.tasks.immediate.filter(t => !t.completed).length >= maxImmediate) {
+		section = 'thisWeek';
+	}
+	if (section !== task.section) {
+		data.tasks[task.section] = data.tasks[task.section].filter(t => t.id !== task.id);
+		task.section = section;
+		data.tasks[section].push(task);
+	}
+	return section;
+}
+
+/**
+ * A rule in words, e.g. "Tag #focus/now → Immediate, goal Launch"
+ */
+export function describeImportRule(rule: ImportRule): string {
+	const conditions: Record<ImportRule['match'], string> = {
+		tag: `Tag ${rule.value.startsWith('#') ? rule.value : `#${rule.value}`}`,
+		folder: `In ${rule.value}`,
+		text: `Contains "${rule.value}"`,
+		dateToday: 'Dated today or earlier',
+		dateThisWeek: 'Dated this week',
+	};
+	const goal = rule.goal.trim() ? `, goal ${rule.goal.trim()}` : '';
+	return `${conditions[rule.match]} → ${SECTION_NAMES[rule.section]}${goal}`;
+}
@@ -0,0 +1,98 @@
+import { FocusData, SECTION_NAMES, Task, TaskSection } from './types';
+import { generateId, parseTaskLine } from './taskParser';
+
+/**
+ * A line of the inbox file read as a task
+ */
+export interface InboxEntry {
+	text: string; // The line as written, to remove it from the inbox once imported
+	task: Task;
+}
+
+// An optional list marker and open checkbox, then the task text
+const INBOX_LINE = /^(?:[-*+]\s+)?(?:\[([ xX])\]\s*)?(.*)$/;
+
+/**
+ * Reads the tasks appended to the inbox file. Each line is a task, with or without
+ * a `- [ ]` checkbox, written with Focus's markers (📅 date, ⏰ time, 🔁 repeat,
+ * 🔗 link). Blank lines, headings and checked-off lines are not tasks.
+ */
+export function parseInbox(content: string): InboxEntry[] {
+	const entries: InboxEntry[] = [];
+	for (const text of content.split('\n')) {
+		const trimmed = text.trim();
+		if (!trimmed || /^#{1,6}\s/.test(trimmed)) continue;
+
+		const match = trimmed.match(INBOX_LINE);
+		if (!match || (match[1] && match[1] !== ' ') || !match[2].trim()) continue;
+
+		const parsed = parseTaskLine(`- [ ] ${match[2].trim()}`, 'unscheduled');
+		if (!parsed || !parsed.title) continue;
+
+		// A captured task is new to Focus, whatever IDs or links the line carried
+		const task: Task = { ...parsed, id: generateId(), completed: false };
+		delete task.completedAt;
+		delete task.sourceFile;
+		delete task.sourceLine;
+		entries.push({ text, task });
+	}
+	return entries;
+}
+
+/**
+ * Removes imported lines from the inbox, keeping everything else, including lines
+ * appended since it was read
+ */
+export function removeInboxLines(content: string, imported: string[]): string {
+	const remaining = new Map<string, number>();
+	for (const text of imported) remaining.set(text, (remaining.get(text) ?? 0) + 1);
+
+	const kept = content.split('\n').filter((text) => {
+		const count = remaining.get(text);
+		if (!count) return true;
+		remaining.set(text, count - 1);
+		return false;
+	});
+	return kept.join('\n').replace(/^\n+/, '');
+}
+
+/**
+ * Adds imported tasks to `section`. Once Immediate is full, the rest go to This Week.
+ * @returns The section each task went to
+ */
+export function addInboxTasks(data: FocusData, tasks: Task[], section: TaskSection, maxImmediate: number): TaskSection[] {
+	return tasks.map((task) => {
+		let target = section;
+		if (target === 'immediate' && data.tasks.immediate.filter(t => !t.completed).length >= maxImmediate) {
+			target = 'thisWeek';
+		}
+		task.section = target;
+		data.tasks[target].push(task);
+		return target;
+	});
+}
+
+/**
+ * The notes a title links to: `[[Project Alpha|Alpha]]` and `[[Project Alpha#Notes]]` both link to "Project Alpha"
+ */
+export function wikiLinksOf(title: string): string[] {
+	const links: string[] = [];
+	const pattern = /\[\[([^\]]+)\]\]/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(title)) !== null) {
+		const link = match[1].split('|')[0].split('#')[0].trim();
+		if (link && !links.includes(link)) links.push(link);
+	}
+	return links;
+}
+
+/**
+ * Lines for the processed log: when each line was imported and where it went
+ */
+export function formatInboxLog(entries: InboxEntry[], sections: TaskSection[], now: Date = new Date()): string {
+	const pad = (n: number) => ('0' + n).slice(-2);
+	const stamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ${pad(now.getHours())}:${pad(now.getMinutes())}`;
+	return entries
+		.map((entry, i) => `- ${stamp} → ${SECTION_NAMES[sections[i]]}: ${entry.text.trim()}\n`)
+		.join('');
+}
@@ -1,4 +1,4 @@
-import { Modal, Notice, Plugin, Setting, WorkspaceLeaf, TFile, normalizePath } from 'obsidian';
+import { Modal, Notice, Plugin, Setting, WorkspaceLeaf, TAbstractFile, TFile, TFolder, normalizePath, requestUrl } from 'obsidian';
 import {
 	FocusPluginSettings,
 	DEFAULT_SETTINGS,
@@ -13,16 +13,49 @@ import { FocusView } from './FocusView';
 import { AddTaskModal } from './AddTaskModal';
 import { PlanningModal } from './PlanningModal';
 import { EndOfDayModal } from './EndOfDayModal';
+import { StartWeekModal } from './StartWeekModal';
 import { FocusSettingTab } from './SettingsTab';
-import { parseTaskFile, serializeTaskFile, createDefaultTaskFile } from './taskParser';
+import { createDefaultTaskFile, generateId, needsWeeklyRollover, rollOverWeek, RolloverSummary } from './taskParser';
+import { TaskOperation } from './commandHistory';
+import { TaskStore, TaskFileAdapter } from './TaskStore';
+import { ArchiveAdapter } from './TaskArchive';
+import { FocusApi } from './api';
+import { buildCalendar, sameCalendar } from './icsExport';
+import { CalDavCalendar, CalDavClient, CalDavError } from './caldavClient';
+import { CalDavState, emptyCalDavState, planPull, planPush } from './caldavSync';
+import { URI_ACTIONS, findUriTasks, parseAddParams } from './uriActions';
+import { addInboxTasks, formatInboxLog, parseInbox, removeInboxLines, wikiLinksOf } from './inbox';
+import { applyImportRule, findImportRule } from './importRules';
+import {
+	IndexedTask,
+	SOURCE_FIELD_NAMES,
+	SourceAnchor,
+	SourceTask,
+	VaultIndex,
+	addAnchor,
+	anchorOf,
+	applySourceTasks,
+	deletedSourceTasks,
+	editedSourceTasks,
+	findSourceLine,
+	inSyncScope,
+	optsOutOfSync,
+	removeSourceLine,
+	removeSourceTasks,
+	scanNoteTasks,
+	writeAnchors,
+	writeBackLine,
+} from './vaultSync';
 import { initSupabase, signIn, signOut as supabaseSignOut, destroySupabase, getUserId } from './supabaseClient';
-import { pullFromRemote, pushToRemote, subscribeToRealtime, unsubscribeFromRealtime, migrateTaskIds } from './supabaseSync';
+import { localOnlyTaskFields, pullFromRemote, pushToRemote, subscribeToRealtime, unsubscribeFromRealtime, migrateTaskIds } from './supabaseSync';
 
 export default class FocusPlugin extends Plugin {
 	settings: FocusPluginSettings;
 	private hasShownPlanningPrompt = false;
 	private endOfDayTimeout: ReturnType<typeof setTimeout> | null = null;
 	private syncDebounceTimeout: ReturnType<typeof setTimeout> | null = null;
+	private inboxDebounceTimeout: ReturnType<typeof setTimeout> | null = null;
+	private importingInbox = false;
 
 	// Cloud sync state
 	isSyncingFromRemote = false;
@@ -32,9 +65,46 @@ export default class FocusPlugin extends Plugin {
 	// Overflow modal state — suppresses remote sync while user is resolving overflow
 	overflowModalOpen = false;
 
+	// Owns the task data; every view reads and changes tasks through it
+	store: TaskStore;
+
+	// Versioned API for other plugins and scripts: app.plugins.plugins['productivity-focus'].api
+	api: FocusApi;
+
+	// Checkboxes found in each note at the last vault sync (loaded on first use)
+	private vaultIndex: VaultIndex | null = null;
+
+	// CalDAV sync state
+	private caldavState: CalDavState | null = null; // Loaded on first use
+	private syncingCalDav = false;
+	private caldavSyncAgain = false; // Tasks changed during a sync
+	private caldavDebounce: ReturnType<typeof setTimeout> | null = null;
+	private lastCalDavSync = 0;
+	caldavStatus = ''; // Shown in settings
+
 	async onload(): Promise<void> {
 		await this.loadSettings();
 
+		this.store = new TaskStore(this.createTaskFileAdapter(), this.settings.taskFormat, this.createArchiveAdapter());
+		this.register(this.store.onChange((data, source, previous) => {
+			// Push local changes to the cloud (remote pulls and hand edits aren't pushed back)
+			if (source === 'local') {
+				void this.pushLocalChanges(data);
+				void this.removeDeletedFromSources(deletedSourceTasks(previous, data));
+				void this.writeBackToSources(editedSourceTasks(previous, data, this.settings.vaultSyncWriteBack));
+			}
+			// Whatever the change came from, the calendar file and CalDAV calendar follow it
+			void this.exportCalendar(data);
+			this.scheduleCalDavSync();
+		}));
+
+		this.api = new FocusApi(this.store, {
+			maxImmediateTasks: () => this.settings.maxImmediateTasks,
+			onCompleted: async (task) => {
+				if (task.sourceFile) await this.syncTaskCompletionToSource(task);
+			},
+		});
+
 		// Register the Focus view
 		this.registerView(FOCUS_VIEW_TYPE, (leaf) => new FocusView(leaf, this));
 
@@ -68,6 +138,46 @@ export default class FocusPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'undo',
+			name: 'Undo last task change',
+			callback: () => {
+				void this.undo();
+			},
+		});
+
+		this.addCommand({
+			id: 'redo',
+			name: 'Redo task change',
+			callback: () => {
+				void this.redo();
+			},
+		});
+
+		this.addCommand({
+			id: 'start-new-week',
+			name: 'Start new week',
+			callback: () => {
+				new StartWeekModal(this).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'export-calendar',
+			name: 'Export calendar file (.ics)',
+			callback: () => {
+				void this.exportCalendar(undefined, true);
+			},
+		});
+
+		this.addCommand({
+			id: 'sync-caldav',
+			name: 'Sync with CalDAV calendar',
+			callback: () => {
+				void this.syncCalDav(true);
+			},
+		});
+
 		this.addCommand({
 			id: 'sync-vault-tasks',
 			name: 'Sync tasks from vault',
@@ -76,6 +186,9 @@ export default class FocusPlugin extends Plugin {
 			},
 		});
 
+		// Let other apps add, complete and open tasks through obsidian:// links
+		this.registerProtocolHandlers();
+
 		// Add settings tab
 		this.addSettingTab(new FocusSettingTab(this.app, this));
 
@@ -100,6 +213,12 @@ export default class FocusPlugin extends Plugin {
 		// Watch the focus task file for direct edits
 		this.setupTaskFileWatcher();
 
+		// Watch the archive files for direct edits
+		this.setupArchiveWatcher();
+
+		// Import tasks appended to the inbox file
+		this.setupInboxWatcher();
+
 		// Watch for task file being moved/renamed
 		this.setupTaskFileRenameWatcher();
 
@@ -112,13 +231,22 @@ export default class FocusPlugin extends Plugin {
 			setTimeout(() => void this.initCloudSync(), 1500);
 		}
 
-		// Auto-sort tasks by do date on load (delay to let everything initialize)
-		setTimeout(() => void this.runAutoSort(), 3000);
+		// Roll over a finished week, then auto-sort tasks by do date and archive old months on load
+		// (delay to let everything initialize, including the first cloud pull)
+		setTimeout(() => void this.runPeriodicChecks(), 3000);
 
-		// Periodic auto-sort every 5 minutes
+		// Periodic rollover check, auto-sort and archiving every 5 minutes
 		this.registerInterval(window.setInterval(() => {
-			void this.runAutoSort();
+			void this.runPeriodicChecks();
 		}, 5 * 60 * 1000));
+
+		// Fetch calendar changes on load and every few minutes (checked each minute, so a new interval applies at once)
+		setTimeout(() => void this.syncCalDav(), 5000);
+		this.registerInterval(window.setInterval(() => {
+			if (Date.now() - this.lastCalDavSync >= this.settings.caldavSyncMinutes * 60 * 1000) {
+				void this.syncCalDav();
+			}
+		}, 60 * 1000));
 	}
 
 	onunload(): void {
@@ -128,9 +256,15 @@ export default class FocusPlugin extends Plugin {
 		if (this.syncDebounceTimeout) {
 			clearTimeout(this.syncDebounceTimeout);
 		}
+		if (this.inboxDebounceTimeout) {
+			clearTimeout(this.inboxDebounceTimeout);
+		}
 		if (this.cloudSyncDebounce) {
 			clearTimeout(this.cloudSyncDebounce);
 		}
+		if (this.caldavDebounce) {
+			clearTimeout(this.caldavDebounce);
+		}
 		unsubscribeFromRealtime();
 		destroySupabase();
 	}
@@ -171,15 +305,12 @@ export default class FocusPlugin extends Plugin {
 			if (remoteHasTasks) {
 				// Remote has data — use it, overwriting local
 				this.isSyncingFromRemote = true;
-				await this.saveTaskDataWithoutSync(remoteData);
-				this.refreshFocusView();
+				await this.store.replace(remoteData, localOnlyTaskFields());
 				this.isSyncingFromRemote = false;
 			} else {
 				// Remote is empty — seed it with local data (first-time setup)
-				const data = await this.loadTaskData();
-				migrateTaskIds(data);
-				await pushToRemote(data);
-				await this.saveTaskDataWithoutSync(data); // save migrated IDs
+				await this.store.update(undefined, migrateTaskIds); // save migrated IDs
+				await pushToRemote(await this.store.getData(), await this.store.archive.months());
 			}
 
 			// Subscribe to realtime changes
@@ -218,8 +349,7 @@ export default class FocusPlugin extends Plugin {
 			try {
 				const remoteData = await pullFromRemote();
 				if (remoteData) {
-					await this.saveTaskDataWithoutSync(remoteData);
-					this.refreshFocusView();
+					await this.store.replace(remoteData, localOnlyTaskFields());
 				}
 			} catch (err) {
 				console.error('Focus: Remote sync failed', err);
@@ -230,14 +360,15 @@ export default class FocusPlugin extends Plugin {
 	}
 
 	/**
-	 * Push local changes to Supabase (called after saveTaskData).
+	 * Push local changes to Supabase (called after every local change to the store).
 	 * Skipped when we are applying remote changes to avoid loops.
 	 */
 	private async pushLocalChanges(data: FocusData): Promise<void> {
 		if (!this.settings.cloudSyncEnabled || this.isSyncingFromRemote || !getUserId()) return;
 
 		try {
-			await pushToRemote(data);
+			// Months archived to their own files aren't in the data, but stay in the cloud
+			await pushToRemote(data, await this.store.archive.months());
 		} catch (err) {
 			console.error('Focus: Failed to push changes to cloud', err);
 		}
@@ -252,8 +383,7 @@ export default class FocusPlugin extends Plugin {
 		try {
 			const remoteData = await pullFromRemote();
 			if (remoteData) {
-				await this.saveTaskDataWithoutSync(remoteData);
-				this.refreshFocusView();
+				await this.store.replace(remoteData, localOnlyTaskFields());
 			}
 		} catch (err) {
 			console.error('Focus: Catch-up sync failed', err);
@@ -263,24 +393,83 @@ export default class FocusPlugin extends Plugin {
 	}
 
 	/**
-	 * Save task data to the markdown file WITHOUT triggering a cloud push.
-	 * Used when applying remote changes to avoid sync loops.
+	 * Reads and writes the task file at the configured path, creating it when missing
 	 */
-	private async saveTaskDataWithoutSync(data: FocusData): Promise<void> {
-		const filePath = normalizePath(this.settings.taskFilePath);
-		let file = this.app.vault.getAbstractFileByPath(filePath);
+	private createTaskFileAdapter(): TaskFileAdapter {
+		const getFile = () => {
+			const file = this.app.vault.getAbstractFileByPath(normalizePath(this.settings.taskFilePath));
+			return file instanceof TFile ? file : null;
+		};
 
-		const content = serializeTaskFile(data);
+		return {
+			read: async () => {
+				const file = getFile();
+				return file ? this.app.vault.read(file) : null;
+			},
+			write: async (content) => {
+				if (!getFile()) {
+					await this.ensureTaskFileExists();
+				}
+				const file = getFile();
+				if (file) {
+					await this.app.vault.modify(file, content);
+				}
+			},
+		};
+	}
 
-		if (file instanceof TFile) {
-			await this.app.vault.modify(file, content);
-		} else {
-			await this.ensureTaskFileExists();
-			file = this.app.vault.getAbstractFileByPath(filePath);
-			if (file instanceof TFile) {
-				await this.app.vault.modify(file, content);
-			}
-		}
+	/**
+	 * Reads and writes the monthly archive files (`<archive folder>/2026-01.md`)
+	 */
+	private createArchiveAdapter(): ArchiveAdapter {
+		const pathOf = (monthKey: string) => normalizePath(`${this.settings.archiveFolder}/${monthKey}.md`);
+		const getFile = (monthKey: string) => {
+			const file = this.app.vault.getAbstractFileByPath(pathOf(monthKey));
+			return file instanceof TFile ? file : null;
+		};
+
+		return {
+			list: async () => {
+				const folder = this.app.vault.getAbstractFileByPath(normalizePath(this.settings.archiveFolder));
+				if (!(folder instanceof TFolder)) return [];
+				return folder.children
+					.filter((file): file is TFile => file instanceof TFile && /^\d{4}-\d{2}$/.test(file.basename) && file.extension === 'md')
+					.map(file => file.basename);
+			},
+			read: async (monthKey) => {
+				const file = getFile(monthKey);
+				return file ? this.app.vault.read(file) : null;
+			},
+			write: async (monthKey, content) => {
+				const file = getFile(monthKey);
+				if (file) {
+					await this.app.vault.modify(file, content);
+					return;
+				}
+				const folder = normalizePath(this.settings.archiveFolder);
+				if (!this.app.vault.getAbstractFileByPath(folder)) {
+					await this.app.vault.createFolder(folder);
+				}
+				await this.app.vault.create(pathOf(monthKey), content);
+			},
+		};
+	}
+
+	/**
+	 * Whether a path is the inbox file or its processed log
+	 */
+	private isInboxFile(path: string): boolean {
+		return path === normalizePath(this.settings.inboxFilePath) ||
+			(!!this.settings.inboxLogPath.trim() && path === normalizePath(this.settings.inboxLogPath));
+	}
+
+	/**
+	 * The month key of an archive file, or null if the path isn't one
+	 */
+	private archiveMonthOf(path: string): string | null {
+		const folder = normalizePath(this.settings.archiveFolder);
+		const match = path.match(/^(.*)\/(\d{4}-\d{2})\.md$/);
+		return match && match[1] === folder ? match[2] : null;
 	}
 
 	/**
@@ -294,8 +483,8 @@ export default class FocusPlugin extends Plugin {
 			this.app.vault.on('modify', (file) => {
 				if (!(file instanceof TFile)) return;
 				if (!file.path.endsWith('.md')) return;
-				// Don't sync changes to the focus task file itself
-				if (file.path === normalizePath(this.settings.taskFilePath)) return;
+				// Don't sync changes to the focus task file itself or its archive files
+				if (file.path === normalizePath(this.settings.taskFilePath) || this.archiveMonthOf(file.path)) return;
 
 				// Debounce the sync to avoid too many operations
 				this.debouncedSync();
@@ -307,10 +496,29 @@ export default class FocusPlugin extends Plugin {
 			this.app.vault.on('create', (file) => {
 				if (!(file instanceof TFile)) return;
 				if (!file.path.endsWith('.md')) return;
+				// A new archive file (or a recreated task file) isn't a note to sync from
+				if (file.path === normalizePath(this.settings.taskFilePath) || this.archiveMonthOf(file.path)) return;
 
 				this.debouncedSync();
 			})
 		);
+
+		// Follow notes that are moved or deleted
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				if (!(file instanceof TFile)) return;
+				void this.onSourceRenamed(file.path, oldPath);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				if (!(file instanceof TFile)) return;
+				if (!file.path.endsWith('.md')) return;
+
+				// The next sync finds the note gone and deals with its tasks
+				this.debouncedSync();
+			})
+		);
 	}
 
 	/**
@@ -329,12 +537,287 @@ export default class FocusPlugin extends Plugin {
 				}
 
 				this.syncDebounceTimeout = setTimeout(() => {
-					this.refreshFocusView();
+					void this.store.reload();
 				}, 500);
 			})
 		);
 	}
 
+	/**
+	 * Watch the archive files for direct edits, so an open month shows them
+	 */
+	private setupArchiveWatcher(): void {
+		this.registerEvent(
+			this.app.vault.on('modify', (file) => {
+				if (!(file instanceof TFile)) return;
+				const monthKey = this.archiveMonthOf(file.path);
+				if (!monthKey || !this.store.archive.cached(monthKey)) return;
+
+				this.store.archive.forget(monthKey);
+				this.refreshFocusView();
+			})
+		);
+	}
+
+	/**
+	 * Write the dated tasks to the calendar file, if calendar export is on. Skipped
+	 * when nothing but the timestamps would change.
+	 * @param data - The data just saved (read from the store when not given)
+	 * @param notify - Show a notice with the result, for the command
+	 */
+	async exportCalendar(data?: FocusData, notify = false): Promise<void> {
+		if (!this.settings.icsExportEnabled) {
+			if (notify) new Notice('Calendar export is off. Turn it on in settings.');
+			return;
+		}
+
+		const path = normalizePath(this.settings.icsExportPath || 'focus.ics');
+		try {
+			const content = buildCalendar(data ?? await this.store.getData(), {
+				component: this.settings.icsComponent,
+				alarmMinutes: this.settings.icsAlarmMinutes,
+			});
+
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				if (!sameCalendar(await this.app.vault.read(file), content)) {
+					await this.app.vault.modify(file, content);
+				}
+			} else {
+				await this.app.vault.create(path, content);
+			}
+			if (notify) new Notice(`Calendar exported to ${path}`);
+		} catch (error) {
+			console.error('Focus: Failed to export the calendar', error);
+			if (notify) new Notice('Focus: Could not export the calendar. See the console for details.');
+		}
+	}
+
+	/**
+	 * Sync with the CalDAV calendar a moment after the tasks change, so a burst of edits is one sync
+	 */
+	private scheduleCalDavSync(): void {
+		if (!this.settings.caldavEnabled) return;
+		if (this.caldavDebounce) {
+			clearTimeout(this.caldavDebounce);
+		}
+		this.caldavDebounce = setTimeout(() => void this.syncCalDav(), 2000);
+	}
+
+	/**
+	 * A CalDAV client for the account in settings, sending requests with `requestUrl`
+	 */
+	private createCalDavClient(): CalDavClient {
+		const { caldavServerUrl, caldavUsername, caldavPassword } = this.settings;
+		return new CalDavClient(caldavServerUrl, caldavUsername, caldavPassword, async (request) => {
+			const response = await requestUrl({ ...request, throw: false });
+			const headers: Record<string, string> = {};
+			for (const [name, value] of Object.entries(response.headers)) {
+				headers[name.toLowerCase()] = value;
+			}
+			return { status: response.status, headers, text: response.text };
+		});
+	}
+
+	/**
+	 * The account's calendars that can hold to-dos, for the settings dropdown
+	 */
+	discoverCalDavCalendars(): Promise<CalDavCalendar[]> {
+		return this.createCalDavClient().discoverCalendars();
+	}
+
+	/**
+	 * Two-way sync with the CalDAV calendar: first fetch what changed there since the
+	 * last sync and complete (or delete) tasks whose to-dos were completed (or deleted),
+	 * then write a to-do for every task with a do date that was added or changed here.
+	 * @param notify - Show a notice with the result, for the command and settings button
+	 */
+	async syncCalDav(notify = false): Promise<void> {
+		const settings = this.settings;
+		if (!settings.caldavEnabled || !settings.caldavServerUrl || !settings.caldavCalendarUrl) {
+			if (notify) new Notice('Calendar sync is off. Turn it on and pick a calendar in settings.');
+			return;
+		}
+		if (this.syncingCalDav) {
+			this.caldavSyncAgain = true;
+			return;
+		}
+
+		this.syncingCalDav = true;
+		this.lastCalDavSync = Date.now();
+		try {
+			const client = this.createCalDavClient();
+			const loaded = await this.getCalDavState();
+
+			const changes = await client.getChanges(loaded.calendarUrl, loaded.syncToken);
+			const pull = planPull(await this.store.getData(), loaded, changes, settings.caldavDeletedTodos);
+			const state = this.caldavState = pull.state;
+			for (const { id, completedAt } of pull.complete) {
+				const result = await this.store.completeTask(id, completedAt, 'Complete task from calendar');
+				if (result?.task.sourceFile) await this.syncTaskCompletionToSource(result.task);
+			}
+			for (const id of pull.delete) {
+				await this.store.deleteTask(id, 'Delete task from calendar');
+			}
+
+			const push = planPush(await this.store.getData(), state, { alarmMinutes: settings.caldavAlarmMinutes });
+			for (const write of push.put) {
+				try {
+					const etag = await client.putTodo(write.href, write.ics, write.etag);
+					if (write.completed) delete state.items[write.taskId];
+					else state.items[write.taskId] = { href: write.href, etag, hash: write.hash };
+				} catch (error) {
+					// Changed in the calendar since the last pull: the next pull fetches it, then it is written
+					if (!(error instanceof CalDavError && error.status === 412)) throw error;
+				}
+			}
+			for (const remove of push.remove) {
+				try {
+					await client.deleteTodo(remove.href, remove.etag || undefined);
+					delete state.items[remove.taskId];
+				} catch (error) {
+					if (!(error instanceof CalDavError && error.status === 412)) throw error;
+				}
+			}
+			for (const id of push.forget) {
+				delete state.items[id];
+			}
+
+			this.caldavStatus = `Last synced at ${new Date().toLocaleTimeString()}`;
+			if (notify) new Notice(`Calendar synced: ${pull.complete.length + pull.delete.length} from the calendar, ${push.put.length + push.remove.length} to it`);
+		} catch (error) {
+			console.error('Focus: CalDAV sync failed', error);
+			const message = error instanceof Error ? error.message : String(error);
+			this.caldavStatus = `Last sync failed: ${message}`;
+			if (notify) new Notice(`Focus: Calendar sync failed. ${message}`);
+		} finally {
+			// Saved even after a failure, so to-dos already written aren't created again
+			await this.saveCalDavState();
+			this.syncingCalDav = false;
+			if (this.caldavSyncAgain) {
+				this.caldavSyncAgain = false;
+				this.scheduleCalDavSync();
+			}
+		}
+	}
+
+	/**
+	 * The CalDAV sync state, read from the plugin folder the first time. Picking
+	 * another calendar starts over.
+	 */
+	private async getCalDavState(): Promise<CalDavState> {
+		if (!this.caldavState) {
+			try {
+				this.caldavState = JSON.parse(await this.app.vault.adapter.read(this.caldavStatePath())) as CalDavState;
+			} catch {
+				// Missing or unreadable: the first sync fetches the whole calendar and adopts Focus's to-dos
+				this.caldavState = emptyCalDavState(this.settings.caldavCalendarUrl);
+			}
+		}
+		if (this.caldavState.calendarUrl !== this.settings.caldavCalendarUrl) {
+			this.caldavState = emptyCalDavState(this.settings.caldavCalendarUrl);
+		}
+		return this.caldavState;
+	}
+
+	private async saveCalDavState(): Promise<void> {
+		if (!this.caldavState) return;
+		try {
+			await this.app.vault.adapter.write(this.caldavStatePath(), JSON.stringify(this.caldavState));
+		} catch (error) {
+			console.error('Focus: Failed to save the CalDAV sync state', error);
+		}
+	}
+
+	private caldavStatePath(): string {
+		return normalizePath(`${this.manifest.dir}/caldav-state.json`);
+	}
+
+	/**
+	 * Watch the inbox file, so tasks appended from outside Obsidian are imported
+	 * once the file stops changing
+	 */
+	private setupInboxWatcher(): void {
+		const onChange = (file: TAbstractFile) => {
+			if (!(file instanceof TFile) || !this.settings.inboxEnabled) return;
+			if (file.path !== normalizePath(this.settings.inboxFilePath)) return;
+
+			if (this.inboxDebounceTimeout) {
+				clearTimeout(this.inboxDebounceTimeout);
+			}
+			this.inboxDebounceTimeout = setTimeout(() => void this.importInbox(), 1000);
+		};
+		this.registerEvent(this.app.vault.on('modify', onChange));
+		this.registerEvent(this.app.vault.on('create', onChange));
+	}
+
+	/**
+	 * Import the tasks in the inbox file into `inboxSection`, remove them from the
+	 * inbox and note them in the processed log
+	 */
+	async importInbox(): Promise<void> {
+		if (!this.settings.inboxEnabled || this.importingInbox) return;
+		const file = this.app.vault.getAbstractFileByPath(normalizePath(this.settings.inboxFilePath));
+		if (!(file instanceof TFile)) return;
+
+		this.importingInbox = true;
+		try {
+			const entries = parseInbox(await this.app.vault.read(file));
+			if (entries.length === 0) return;
+
+			// Add the tasks before clearing the inbox: a failure leaves duplicates, not lost tasks
+			const sections = await this.store.update('Import inbox', (data) =>
+				addInboxTasks(data, entries.map(entry => entry.task), this.settings.inboxSection, this.settings.maxImmediateTasks)
+			);
+
+			// Read again, so lines appended while importing stay in the inbox
+			const content = await this.app.vault.read(file);
+			await this.app.vault.modify(file, removeInboxLines(content, entries.map(entry => entry.text)));
+
+			if (this.settings.inboxCreateNotes) {
+				await this.createLinkedNotes(entries.map(entry => entry.task), file.path);
+			}
+			await this.appendInboxLog(formatInboxLog(entries, sections));
+
+			new Notice(`Inbox: ${entries.length} task${entries.length === 1 ? '' : 's'} imported`);
+		} catch (error) {
+			console.error('Focus: Failed to import the inbox', error);
+			new Notice('Focus: Could not import the inbox. See the console for details.');
+		} finally {
+			this.importingInbox = false;
+		}
+	}
+
+	/**
+	 * Create the notes that tasks link to with [[wiki links]], where they don't exist yet
+	 */
+	private async createLinkedNotes(tasks: Task[], sourcePath: string): Promise<void> {
+		for (const link of tasks.flatMap(task => wikiLinksOf(task.title))) {
+			if (this.app.metadataCache.getFirstLinkpathDest(link, sourcePath)) continue;
+
+			const folder = this.app.fileManager.getNewFileParent(sourcePath).path;
+			const path = normalizePath(folder && folder !== '/' ? `${folder}/${link}.md` : `${link}.md`);
+			if (this.app.vault.getAbstractFileByPath(path)) continue;
+			try {
+				await this.app.vault.create(path, '');
+			} catch (error) {
+				console.error(`Focus: Failed to create linked note ${path}`, error);
+			}
+		}
+	}
+
+	private async appendInboxLog(lines: string): Promise<void> {
+		if (!this.settings.inboxLogPath.trim() || !lines) return;
+		const path = normalizePath(this.settings.inboxLogPath);
+
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) {
+			await this.app.vault.append(file, lines);
+		} else {
+			await this.app.vault.create(path, `# Focus inbox log\n\n${lines}`);
+		}
+	}
+
 	/**
 	 * Watch for the task file being moved or renamed in the vault.
 	 * When detected, prompt the user to update the setting to the new path.
@@ -357,7 +840,7 @@ export default class FocusPlugin extends Plugin {
 					e.preventDefault();
 					this.settings.taskFilePath = newPath;
 					await this.saveSettings();
-					this.refreshFocusView();
+					await this.store.reload();
 					new Notice(`Task file path updated to: ${newPath}`);
 				});
 				fragment.appendChild(updateLink);
@@ -486,50 +969,68 @@ export default class FocusPlugin extends Plugin {
 		}
 	}
 
-	async loadTaskData(): Promise<FocusData> {
-		const filePath = normalizePath(this.settings.taskFilePath);
-		const file = this.app.vault.getAbstractFileByPath(filePath);
-
-		if (file instanceof TFile) {
-			const content = await this.app.vault.read(file);
-			return parseTaskFile(content);
+	/**
+	 * Undo the latest recorded task change
+	 */
+	async undo(expected?: TaskOperation): Promise<void> {
+		const operation = await this.store.undo(expected);
+		if (!operation) {
+			new Notice('Nothing to undo');
+			return;
 		}
-
-		// File doesn't exist, return empty data
-		const today = new Date().toISOString().split('T')[0];
-		return {
-			weekOf: today,
-			goals: [],
-			habits: [],
-			habitResetDate: today,
-			tasks: {
-				immediate: [],
-				thisWeek: [],
-				unscheduled: [],
-			},
-			completedTasks: {},
-		};
+		await this.syncHistoryToSource(operation, 'undo');
+		new Notice(`Undone: ${operation.label}`);
 	}
 
-	async saveTaskData(data: FocusData): Promise<void> {
-		const filePath = normalizePath(this.settings.taskFilePath);
-		let file = this.app.vault.getAbstractFileByPath(filePath);
-
-		const content = serializeTaskFile(data);
+	/**
+	 * Redo the latest undone task change
+	 */
+	async redo(): Promise<void> {
+		const operation = await this.store.redo();
+		if (!operation) {
+			new Notice('Nothing to redo');
+			return;
+		}
+		await this.syncHistoryToSource(operation, 'redo');
+		new Notice(`Redone: ${operation.label}`);
+	}
 
-		if (file instanceof TFile) {
-			await this.app.vault.modify(file, content);
-		} else {
-			// Create file if it doesn't exist
-			await this.ensureTaskFileExists();
-			file = this.app.vault.getAbstractFileByPath(filePath);
-			if (file instanceof TFile) {
-				await this.app.vault.modify(file, content);
+	/**
+	 * Completion of vault tasks is mirrored in their source notes, so undoing a completion unchecks it there too
+	 */
+	private async syncHistoryToSource(operation: TaskOperation, direction: 'undo' | 'redo'): Promise<void> {
+		for (const change of operation.tasks) {
+			const from = direction === 'undo' ? change.after : change.before;
+			const to = direction === 'undo' ? change.before : change.after;
+			if (from && to && to.task.sourceFile && from.task.completed !== to.task.completed) {
+				await this.syncTaskCompletionToSource(to.task);
 			}
 		}
+	}
 
-		// Push to cloud if enabled (skipped when applying remote changes)
-		void this.pushLocalChanges(data);
+	/**
+	 * Show a notice with an Undo link for the change that was just saved
+	 */
+	showUndoNotice(message: string): void {
+		// The change just made; the link undoes only that, and only while nothing newer is on top
+		const operation = this.store.history.peekUndo();
+		const notice = new Notice(createFragment((el) => {
+			el.appendText(`${message} `);
+			const undoLink = el.createEl('a', { text: 'Undo', href: '#', cls: 'focus-undo-link' });
+			undoLink.addEventListener('click', (e) => {
+				e.preventDefault();
+				if (!operation || this.store.history.peekUndo() !== operation) {
+					// Keep the notice open so the disabled link explains itself
+					e.stopPropagation();
+					undoLink.addClass('is-disabled');
+					undoLink.setAttr('aria-disabled', 'true');
+					undoLink.setText('Can\'t undo: changed since');
+					return;
+				}
+				notice.hide();
+				void this.undo(operation);
+			});
+		}), 6000);
 	}
 
 	/**
@@ -543,20 +1044,20 @@ export default class FocusPlugin extends Plugin {
 		modal.open();
 	}
 
-	private async addTask(title: string, section: TaskSection, url?: string, doDate?: string, doTime?: string, recurrence?: Recurrence): Promise<void> {
-		const data = await this.loadTaskData();
-
-		// Check max immediate (though currently modal only supports thisWeek/unscheduled)
-		if (section === 'immediate') {
-			const activeImmediate = data.tasks.immediate.filter((t) => !t.completed);
-			if (activeImmediate.length >= this.settings.maxImmediateTasks) {
-				new Notice(`Maximum ${this.settings.maxImmediateTasks} tasks in immediate. Move one out first.`);
-				return;
-			}
-		}
+	/**
+	 * Open the add task modal prefilled with an existing task. Saving updates the
+	 * task in place, so it keeps its ID and section.
+	 */
+	openEditTaskModal(task: Task): void {
+		const modal = new AddTaskModal(this, task.section === 'thisWeek', (title, _section, url, doDate, doTime, recurrence) => {
+			void this.store.updateTask(task.id, { title, url, doDate, doTime, recurrence });
+		}, task);
+		modal.open();
+	}
 
+	private async addTask(title: string, section: TaskSection, url?: string, doDate?: string, doTime?: string, recurrence?: Recurrence): Promise<void> {
 		const newTask: Task = {
-			id: Date.now().toString(36) + Math.random().toString(36).substring(2, 11),
+			id: generateId(),
 			title,
 			completed: false,
 			section: section,
@@ -566,64 +1067,120 @@ export default class FocusPlugin extends Plugin {
 			recurrence,
 		};
 
-		data.tasks[section].push(newTask);
-		await this.saveTaskData(data);
-
-		this.refreshFocusView();
+		const added = await this.store.update('Add task', (data) => {
+			// Check max immediate (though currently modal only supports thisWeek/unscheduled)
+			if (section === 'immediate' && data.tasks.immediate.filter(t => !t.completed).length >= this.settings.maxImmediateTasks) {
+				return false;
+			}
+			data.tasks[section].push(newTask);
+			return true;
+		});
+		if (!added) {
+			new Notice(`Maximum ${this.settings.maxImmediateTasks} tasks in immediate. Move one out first.`);
+			return;
+		}
 
 		const sectionName =
 			section === 'immediate' ? 'immediate' : section === 'thisWeek' ? 'this week' : 'unscheduled';
 		new Notice(`Task added to ${sectionName}`);
 	}
 
+	/**
+	 * Register the `obsidian://focus-add`, `focus-complete` and `focus-open` actions,
+	 * for bookmarklets, launchers and scripts. Each reports its result with a Notice.
+	 */
+	private registerProtocolHandlers(): void {
+		this.registerObsidianProtocolHandler(URI_ACTIONS.add, (params) => {
+			const task = parseAddParams(params);
+			if ('error' in task) {
+				new Notice(`Focus: Couldn't add the task: ${task.error}.`);
+				return;
+			}
+			void this.addTask(task.title, task.section, task.url, task.doDate, task.doTime, task.recurrence);
+		});
+
+		this.registerObsidianProtocolHandler(URI_ACTIONS.complete, (params) => {
+			void this.completeTaskFromUri(params);
+		});
+
+		this.registerObsidianProtocolHandler(URI_ACTIONS.open, (params) => {
+			if (params.view === 'planning') {
+				this.openPlanningModal();
+			} else {
+				void this.activateFocusView();
+			}
+		});
+	}
+
+	/**
+	 * Complete the open task a `focus-complete` link names by `id` or `title`
+	 */
+	private async completeTaskFromUri(params: Record<string, string | undefined>): Promise<void> {
+		const matches = findUriTasks(await this.store.getData(), params);
+		if (matches.length !== 1) {
+			const what = params.id ? `with ID ${params.id}` : `called "${params.title ?? ''}"`;
+			new Notice(matches.length === 0
+				? `Focus: No open task ${what}.`
+				: `Focus: ${matches.length} open tasks are ${what}. Use the task's ID instead.`);
+			return;
+		}
+
+		const result = await this.store.completeTask(matches[0].id);
+		if (!result) return;
+
+		if (result.next) {
+			new Notice(`Next occurrence created for ${result.next.doDate}`);
+		}
+		this.showUndoNotice(`Completed "${result.task.title}".`);
+
+		if (result.task.sourceFile) {
+			await this.syncTaskCompletionToSource(result.task);
+		}
+	}
+
 	/**
 	 * Auto-sort: move today's do-date tasks from thisWeek to immediate,
 	 * and sort sections by do date
 	 */
 	async runAutoSort(): Promise<void> {
 		if (this.overflowModalOpen) return;
-		const data = await this.loadTaskData();
 		const today = new Date().toISOString().split('T')[0];
 		const maxImmediate = this.settings.maxImmediateTasks;
-		let changed = false;
-
-		// Find thisWeek tasks with doDate === today
-		const todayTasks = data.tasks.thisWeek.filter(t => t.doDate === today && !t.completed);
-		const overflowTasks: Task[] = [];
-
-		for (const task of todayTasks) {
-			const activeImmediate = data.tasks.immediate.filter(t => !t.completed);
-			if (activeImmediate.length < maxImmediate) {
-				// Move to immediate
-				data.tasks.thisWeek = data.tasks.thisWeek.filter(t => t.id !== task.id);
-				task.section = 'immediate';
-				data.tasks.immediate.unshift(task);
-				changed = true;
-			} else {
-				overflowTasks.push(task);
+
+		const overflowTasks = await this.store.update(undefined, (data) => {
+			// Find thisWeek tasks with doDate === today
+			const todayTasks = data.tasks.thisWeek.filter(t => t.doDate === today && !t.completed);
+			const overflow: Task[] = [];
+
+			for (const task of todayTasks) {
+				const activeImmediate = data.tasks.immediate.filter(t => !t.completed);
+				if (activeImmediate.length < maxImmediate) {
+					// Move to immediate
+					data.tasks.thisWeek = data.tasks.thisWeek.filter(t => t.id !== task.id);
+					task.section = 'immediate';
+					data.tasks.immediate.unshift(task);
+				} else {
+					overflow.push(task);
+				}
 			}
-		}
 
-		// Sort sections: do-date tasks first (earliest first), then non-do-date
-		for (const section of ['immediate', 'thisWeek', 'unscheduled'] as TaskSection[]) {
-			data.tasks[section].sort((a, b) => {
-				if (a.completed !== b.completed) return a.completed ? 1 : -1;
-				if (a.doDate && !b.doDate) return -1;
-				if (!a.doDate && b.doDate) return 1;
-				if (a.doDate && b.doDate) return a.doDate.localeCompare(b.doDate);
-				return 0;
-			});
-			changed = true;
-		}
+			// Sort sections: do-date tasks first (earliest first), then non-do-date
+			for (const section of ['immediate', 'thisWeek', 'unscheduled'] as TaskSection[]) {
+				data.tasks[section].sort((a, b) => {
+					if (a.completed !== b.completed) return a.completed ? 1 : -1;
+					if (a.doDate && !b.doDate) return -1;
+					if (!a.doDate && b.doDate) return 1;
+					if (a.doDate && b.doDate) return a.doDate.localeCompare(b.doDate);
+					return 0;
+				});
+			}
 
-		if (changed) {
-			await this.saveTaskData(data);
-			this.refreshFocusView();
-		}
+			return overflow;
+		});
 
 		// Show overflow modal if needed
 		if (overflowTasks.length > 0) {
-			const modal = new AutoSortOverflowModal(this, data, overflowTasks);
+			const modal = new AutoSortOverflowModal(this, overflowTasks);
 			modal.open();
 		}
 	}
@@ -645,7 +1202,8 @@ export default class FocusPlugin extends Plugin {
 
 	/**
 	 * Scan the vault for tasks and sync them to the Unscheduled backlog
-	 * Also syncs completion status for existing synced tasks
+	 * Also syncs completion status for existing synced tasks. Only notes that have
+	 * checkboxes (per the metadata cache) and changed since the last scan are read.
 	 * @param silent - If true, don't show notices (used for auto-sync)
 	 */
 	async syncVaultTasks(silent: boolean = false): Promise<number> {
@@ -656,73 +1214,90 @@ export default class FocusPlugin extends Plugin {
 			return 0;
 		}
 
-		const data = await this.loadTaskData();
-		const taskFilePath = normalizePath(this.settings.taskFilePath);
+		const tag = this.settings.vaultSyncMode === 'tag' ? this.settings.vaultSyncTag : undefined;
 
-		// Build a map of existing tasks by title for quick lookup
-		const existingTasksByTitle = new Map<string, { task: Task; section: TaskSection }>();
-		for (const section of ['immediate', 'thisWeek', 'unscheduled'] as TaskSection[]) {
-			for (const task of data.tasks[section]) {
-				existingTasksByTitle.set(task.title, { task, section });
-			}
+		// Start over when the notes would be read differently than when the index was built
+		const index = await this.getVaultIndex();
+		const filter = `v2:${this.settings.vaultSyncMode}:${tag ?? ''}:${this.settings.vaultSyncFormat}`;
+		if (index.filter !== filter) {
+			index.filter = filter;
+			index.files = {};
 		}
 
-		let newTasksCount = 0;
-		let syncedCompletions = 0;
-		const files = this.app.vault.getMarkdownFiles();
-
-		for (const file of files) {
-			// Skip the focus task file itself
-			if (file.path === taskFilePath) continue;
-
-			const content = await this.app.vault.read(file);
-			const lines = content.split('\n');
+		// Read the changed notes' checkboxes first; the store only applies the result
+		const changed: { path: string; mtime: number; tasks: SourceTask[]; previous: IndexedTask[] }[] = [];
+		const seen = new Set<string>();
+		for (const file of this.vaultSyncNotes()) {
+			seen.add(file.path);
+			if (index.files[file.path]?.mtime === file.stat.mtime) continue;
+
+			const content = await this.app.vault.cachedRead(file);
+			changed.push({
+				path: file.path,
+				mtime: file.stat.mtime,
+				tasks: scanNoteTasks(content, this.settings.vaultSyncFormat, tag),
+				previous: index.files[file.path]?.tasks ?? [],
+			});
+		}
 
-			for (let i = 0; i < lines.length; i++) {
-				const line = lines[i];
-				// Match both completed and uncompleted tasks: - [ ] or - [x]
-				const match = line.match(/^[\s]*-\s*\[([xX\s])\]\s*(.+)$/);
-				if (!match) continue;
+		// Tasks linked to lines in the notes read again, or in notes that were deleted
+		// or no longer have checkboxes, may have lost their line
+		const unlinked = new Set<string>();
+		const linkedIds = (tasks: IndexedTask[]) => tasks.map(entry => entry.id).filter((id): id is string => !!id);
+		for (const note of changed) {
+			linkedIds(note.previous).forEach(id => unlinked.add(id));
+		}
+		let indexChanged = changed.length > 0;
+		for (const path of Object.keys(index.files)) {
+			if (!seen.has(path)) {
+				linkedIds(index.files[path].tasks).forEach(id => unlinked.add(id));
+				delete index.files[path];
+				indexChanged = true;
+			}
+		}
 
-				const isCompleted = match[1].toLowerCase() === 'x';
-				const taskText = match[2].trim();
+		const { results, removed } = unlinked.size > 0 || changed.length > 0
+			? await this.store.update(undefined, (data) => {
+				const results = changed.map(note => applySourceTasks(data, note.path, note.tasks, note.previous));
 
-				// If tag mode, check for the tag
-				if (this.settings.vaultSyncMode === 'tag') {
-					if (!taskText.includes(this.settings.vaultSyncTag)) continue;
+				// Route the new tasks by the first import rule each matches
+				for (const [i, result] of results.entries()) {
+					for (const task of result.newTasks) {
+						const rule = findImportRule(this.settings.vaultSyncRules, task, changed[i].path);
+						if (rule) applyImportRule(data, task, rule, this.settings.maxImmediateTasks);
+					}
 				}
 
-				// Check if this task already exists in Focus
-				const existing = existingTasksByTitle.get(taskText);
-
-				if (existing) {
-					// Task exists - sync completion status from vault to Focus
-					if (existing.task.sourceFile === file.path && existing.task.completed !== isCompleted) {
-						existing.task.completed = isCompleted;
-						existing.task.sourceLine = i + 1; // Update line number
-						syncedCompletions++;
+				// A line still found anywhere (e.g. moved to another note) keeps its task
+				for (const [path, entry] of Object.entries(index.files)) {
+					if (!changed.some(note => note.path === path)) {
+						linkedIds(entry.tasks).forEach(id => unlinked.delete(id));
 					}
-				} else if (!isCompleted) {
-					// New uncompleted task - add to Focus
-					const newTask: Task = {
-						id: Date.now().toString(36) + Math.random().toString(36).substring(2, 11) + i,
-						title: taskText,
-						completed: false,
-						section: 'unscheduled',
-						sourceFile: file.path,
-						sourceLine: i + 1,
-					};
-
-					data.tasks.unscheduled.push(newTask);
-					existingTasksByTitle.set(taskText, { task: newTask, section: 'unscheduled' });
-					newTasksCount++;
 				}
+				results.forEach(result => linkedIds(result.tasks).forEach(id => unlinked.delete(id)));
+
+				return { results, removed: removeSourceTasks(data, unlinked, this.settings.vaultSyncRemovedLines) };
+			})
+			: { results: [], removed: 0 };
+
+		let newTasksCount = 0;
+		let syncedCompletions = 0;
+		let updatedCount = 0;
+		for (const [i, result] of results.entries()) {
+			const { path, mtime } = changed[i];
+			index.files[path] = { mtime, tasks: result.tasks };
+			newTasksCount += result.added;
+			syncedCompletions += result.completions;
+			updatedCount += result.updated;
+
+			// Link the lines to their tasks, so they're still matched after an edit
+			if (result.anchors.length > 0) {
+				await this.writeSourceAnchors(path, result.anchors);
 			}
 		}
 
-		if (newTasksCount > 0 || syncedCompletions > 0) {
-			await this.saveTaskData(data);
-			this.refreshFocusView();
+		if (indexChanged) {
+			await this.saveVaultIndex();
 		}
 
 		if (!silent) {
@@ -733,13 +1308,189 @@ export default class FocusPlugin extends Plugin {
 			if (syncedCompletions > 0) {
 				messages.push(`${syncedCompletions} completion${syncedCompletions === 1 ? '' : 's'} synced`);
 			}
+			if (updatedCount > 0) {
+				messages.push(`${updatedCount} updated`);
+			}
+			if (removed > 0) {
+				const action = this.settings.vaultSyncRemovedLines === 'delete' ? 'removed' : 'unlinked';
+				messages.push(`${removed} ${action} (line deleted from note)`);
+			}
 			if (messages.length > 0) {
 				new Notice(`Vault sync: ${messages.join(', ')}`);
 			} else {
 				new Notice('Vault sync: already up to date');
 			}
 		}
-		return newTasksCount + syncedCompletions;
+		return newTasksCount + syncedCompletions + updatedCount + removed;
+	}
+
+	/**
+	 * Write `^focus-<id>` anchors into a note's task lines
+	 */
+	private async writeSourceAnchors(path: string, anchors: SourceAnchor[]): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) return;
+
+		try {
+			const lines = (await this.app.vault.read(file)).split('\n');
+			if (writeAnchors(lines, anchors)) {
+				await this.app.vault.modify(file, lines.join('\n'));
+			}
+		} catch (error) {
+			console.error('Focus: Failed to link tasks in source file', error);
+		}
+	}
+
+	/**
+	 * The notes vault sync reads: those in scope with checkboxes, leaving out the task
+	 * file, its archive files and notes with `focus: false` in their frontmatter.
+	 * A note dropping out of scope is treated like a deleted note.
+	 */
+	private vaultSyncNotes(): TFile[] {
+		const taskFilePath = normalizePath(this.settings.taskFilePath);
+		const { vaultSyncFolders, vaultSyncExcludeFolders } = this.settings;
+		return this.app.vault.getMarkdownFiles().filter((file) => {
+			if (file.path === taskFilePath || this.archiveMonthOf(file.path)) return false;
+			if (this.settings.inboxEnabled && this.isInboxFile(file.path)) return false;
+			if (!inSyncScope(file.path, vaultSyncFolders, vaultSyncExcludeFolders)) return false;
+
+			// Notes the metadata cache hasn't indexed yet are read to be safe
+			const cache = this.app.metadataCache.getFileCache(file);
+			if (!cache) return true;
+			return !optsOutOfSync(cache.frontmatter) && !!cache.listItems?.some(item => item.task !== undefined);
+		});
+	}
+
+	/**
+	 * How many notes and tasks vault sync would read with the current settings
+	 */
+	async previewVaultSync(): Promise<{ files: number; tasks: number }> {
+		const tag = this.settings.vaultSyncMode === 'tag' ? this.settings.vaultSyncTag : undefined;
+		let files = 0;
+		let tasks = 0;
+		for (const file of this.vaultSyncNotes()) {
+			const count = scanNoteTasks(await this.app.vault.cachedRead(file), this.settings.vaultSyncFormat, tag).length;
+			if (count > 0) {
+				files++;
+				tasks += count;
+			}
+		}
+		return { files, tasks };
+	}
+
+	/**
+	 * The vault sync index, read from the plugin folder the first time
+	 */
+	private async getVaultIndex(): Promise<VaultIndex> {
+		if (!this.vaultIndex) {
+			try {
+				this.vaultIndex = JSON.parse(await this.app.vault.adapter.read(this.vaultIndexPath())) as VaultIndex;
+			} catch {
+				// Missing or unreadable: every note is scanned once to rebuild it
+				this.vaultIndex = { filter: '', files: {} };
+			}
+		}
+		return this.vaultIndex;
+	}
+
+	private async saveVaultIndex(): Promise<void> {
+		if (!this.vaultIndex) return;
+		try {
+			await this.app.vault.adapter.write(this.vaultIndexPath(), JSON.stringify(this.vaultIndex));
+		} catch (error) {
+			console.error('Focus: Failed to save the vault sync index', error);
+		}
+	}
+
+	private vaultIndexPath(): string {
+		return normalizePath(`${this.manifest.dir}/vault-index.json`);
+	}
+
+	/**
+	 * Keep the index and the tasks' source paths in step with a renamed note
+	 */
+	private async onSourceRenamed(path: string, oldPath: string): Promise<void> {
+		const index = await this.getVaultIndex();
+		if (!index.files[oldPath]) return;
+
+		index.files[path] = index.files[oldPath];
+		delete index.files[oldPath];
+		await this.store.update(undefined, (data) => {
+			for (const section of ['immediate', 'thisWeek', 'unscheduled'] as TaskSection[]) {
+				for (const task of data.tasks[section]) {
+					if (task.sourceFile === oldPath) task.sourceFile = path;
+				}
+			}
+		});
+		await this.saveVaultIndex();
+	}
+
+	/**
+	 * Write the fields chosen in `vaultSyncWriteBack` from edited tasks into their notes.
+	 * Fields that were also changed in the note since the last sync are left alone.
+	 */
+	private async writeBackToSources(tasks: Task[]): Promise<void> {
+		if (tasks.length === 0 || this.settings.vaultSyncMode === 'off') return;
+
+		const index = await this.getVaultIndex();
+		const byFile = new Map<string, Task[]>();
+		for (const task of tasks) {
+			byFile.set(task.sourceFile!, [...(byFile.get(task.sourceFile!) ?? []), task]);
+		}
+
+		for (const [path, fileTasks] of byFile) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+
+			try {
+				const lines = (await this.app.vault.read(file)).split('\n');
+				let changed = false;
+				for (const task of fileTasks) {
+					const lineIndex = findSourceLine(lines, task, this.settings.vaultSyncFormat);
+					if (lineIndex === -1) continue;
+
+					const entry = index.files[path]?.tasks.find(t => t.id === task.id);
+					const result = writeBackLine(lines[lineIndex], task, entry?.fields, this.settings.vaultSyncWriteBack, this.settings.vaultSyncFormat);
+					if (result.text !== lines[lineIndex]) {
+						lines[lineIndex] = result.text;
+						changed = true;
+						if (entry) entry.fields = result.fields;
+					}
+					if (result.conflicts.length > 0) {
+						new Notice(`Focus: "${task.title}" was also changed in ${file.basename}. Kept the note's ${result.conflicts.map(key => SOURCE_FIELD_NAMES[key]).join(', ')}.`);
+					}
+				}
+
+				if (changed) {
+					await this.app.vault.modify(file, lines.join('\n'));
+				}
+			} catch (error) {
+				console.error('Focus: Failed to write task changes to source file', error);
+			}
+		}
+		await this.saveVaultIndex();
+	}
+
+	/**
+	 * Apply the `vaultSyncDeletedTasks` setting to the notes of tasks deleted in Focus
+	 */
+	private async removeDeletedFromSources(tasks: Task[]): Promise<void> {
+		const action = this.settings.vaultSyncDeletedTasks;
+		if (action === 'keep') return;
+
+		for (const task of tasks) {
+			const file = this.app.vault.getAbstractFileByPath(task.sourceFile!);
+			if (!(file instanceof TFile)) continue;
+
+			try {
+				const lines = (await this.app.vault.read(file)).split('\n');
+				if (removeSourceLine(lines, task.id, action)) {
+					await this.app.vault.modify(file, lines.join('\n'));
+				}
+			} catch (error) {
+				console.error('Focus: Failed to update source file of deleted task', error);
+			}
+		}
 	}
 
 	/**
@@ -757,23 +1508,8 @@ export default class FocusPlugin extends Plugin {
 			const content = await this.app.vault.read(file);
 			const lines = content.split('\n');
 
-			// Find the task by matching its title content (more reliable than line number)
-			// We need to find a line that contains the task title in a checkbox format
-			const taskTitle = task.title.trim();
-			let foundIndex = -1;
-
-			for (let i = 0; i < lines.length; i++) {
-				const line = lines[i];
-				// Match both completed and uncompleted checkboxes
-				const match = line.match(/^(\s*-\s*)\[([xX\s])\]\s*(.+)$/);
-				if (match) {
-					const lineTaskText = match[3].trim();
-					if (lineTaskText === taskTitle) {
-						foundIndex = i;
-						break;
-					}
-				}
-			}
+			// Find the task by its anchor, or else by title near where it was last seen
+			const foundIndex = findSourceLine(lines, task, this.settings.vaultSyncFormat);
 
 			if (foundIndex === -1) {
 				console.warn('Focus: Could not find task in source file:', task.title);
@@ -792,6 +1528,11 @@ export default class FocusPlugin extends Plugin {
 				lines[foundIndex] = line.replace(/^(\s*-\s*)\[[xX]\]/, '$1[ ]');
 			}
 
+			// A line found by title gets its anchor, so the next match doesn't depend on the title
+			if (!anchorOf(lines[foundIndex])) {
+				lines[foundIndex] = addAnchor(lines[foundIndex], task.id) ?? lines[foundIndex];
+			}
+
 			// Only write if something changed
 			if (lines[foundIndex] !== originalLine) {
 				await this.app.vault.modify(file, lines.join('\n'));
@@ -974,42 +1715,73 @@ export default class FocusPlugin extends Plugin {
 	}
 
 	/**
-	 * Perform weekly rollover of tasks
+	 * The checks run on load and every few minutes: weekly rollover, auto-sort, archiving and the inbox
 	 */
-	async performWeeklyRollover(): Promise<void> {
-		const data = await this.loadTaskData();
-		let changed = false;
-
-		// Roll over incomplete Immediate tasks to This Week
-		if (this.settings.rolloverImmediateToThisWeek) {
-			const incompleteTasks = data.tasks.immediate.filter(t => !t.completed);
-			for (const task of incompleteTasks) {
-				task.section = 'thisWeek';
-				data.tasks.thisWeek.push(task);
-				changed = true;
-			}
-			data.tasks.immediate = data.tasks.immediate.filter(t => t.completed);
-		}
+	private async runPeriodicChecks(): Promise<void> {
+		await this.checkWeeklyRollover();
+		await this.runAutoSort();
+		await this.archiveOldMonths();
+		// Catches lines synced into the inbox while Obsidian was closed
+		await this.importInbox();
+	}
 
-		// Roll over incomplete This Week tasks to Unscheduled
-		if (this.settings.rolloverThisWeekToUnscheduled) {
-			const incompleteTasks = data.tasks.thisWeek.filter(t => !t.completed);
-			for (const task of incompleteTasks) {
-				task.section = 'unscheduled';
-				data.tasks.unscheduled.push(task);
-				changed = true;
-			}
-			data.tasks.thisWeek = data.tasks.thisWeek.filter(t => t.completed);
+	/**
+	 * Move completed months older than the archive setting out of the task file
+	 */
+	async archiveOldMonths(): Promise<void> {
+		if (this.settings.archiveAfterMonths <= 0 || this.overflowModalOpen || this.isSyncingFromRemote) return;
+
+		try {
+			await this.store.archiveOldMonths(this.settings.archiveAfterMonths);
+		} catch (err) {
+			console.error('Focus: Failed to archive completed months', err);
+			new Notice('Focus: Could not archive completed months. See the console for details.');
 		}
+	}
 
-		// Update the week
-		data.weekOf = new Date().toISOString().split('T')[0];
+	/**
+	 * Roll over automatically once the week in the task file's `weekOf` has ended.
+	 * The new `weekOf` is saved with the moved tasks, so other devices and later
+	 * restarts see the rollover as done.
+	 */
+	async checkWeeklyRollover(): Promise<void> {
+		if (this.overflowModalOpen || this.isSyncingFromRemote) return;
+		const filePath = normalizePath(this.settings.taskFilePath);
+		if (!(this.app.vault.getAbstractFileByPath(filePath) instanceof TFile)) return;
+
+		if (needsWeeklyRollover(await this.store.getData())) {
+			await this.performWeeklyRollover();
+		}
+	}
 
-		if (changed) {
-			await this.saveTaskData(data);
-			this.refreshFocusView();
-			new Notice('Weekly rollover complete');
+	/**
+	 * Perform weekly rollover of tasks
+	 * @param label - Records the rollover for undo, for one started by hand
+	 * @returns The tasks that moved, by destination
+	 */
+	async performWeeklyRollover(label?: string): Promise<RolloverSummary> {
+		const summary = await this.store.update(label, data => rollOverWeek(data, {
+			immediateToThisWeek: this.settings.rolloverImmediateToThisWeek,
+			thisWeekToUnscheduled: this.settings.rolloverThisWeekToUnscheduled,
+		}));
+
+		const moves: string[] = [];
+		if (summary.toThisWeek.length > 0) {
+			moves.push(`${summary.toThisWeek.length} from immediate to this week`);
+		}
+		if (summary.toUnscheduled.length > 0) {
+			moves.push(`${summary.toUnscheduled.length} from this week to unscheduled`);
 		}
+		const message = moves.length > 0
+			? `New week started. Moved ${moves.join(', ')}.`
+			: 'New week started. No tasks needed to move.';
+		if (label) {
+			this.showUndoNotice(message);
+		} else {
+			new Notice(message, 8000);
+		}
+
+		return summary;
 	}
 }
 
@@ -1020,7 +1792,7 @@ class AutoSortOverflowModal extends Modal {
 	private plugin: FocusPlugin;
 	private overflowTaskIds: string[];
 
-	constructor(plugin: FocusPlugin, _data: FocusData, overflowTasks: Task[]) {
+	constructor(plugin: FocusPlugin, overflowTasks: Task[]) {
 		super(plugin.app);
 		this.plugin = plugin;
 		// Store IDs so we always look up fresh data
@@ -1045,7 +1817,7 @@ class AutoSortOverflowModal extends Modal {
 	}
 
 	private async renderContent(contentEl: HTMLElement): Promise<void> {
-		const data = await this.plugin.loadTaskData();
+		const data = await this.plugin.store.getData();
 
 		// Find the overflow tasks in fresh data
 		const overflowTasks = this.overflowTaskIds
@@ -1069,17 +1841,16 @@ class AutoSortOverflowModal extends Modal {
 			.setDesc(`Allow ${this.plugin.settings.maxImmediateTasks + overflowTasks.length} immediate tasks for now`)
 			.addButton((btn) =>
 				btn.setButtonText('Increase limit').setCta().onClick(async () => {
-					const freshData = await this.plugin.loadTaskData();
-					for (const id of this.overflowTaskIds) {
-						const task = freshData.tasks.thisWeek.find(t => t.id === id);
-						if (task) {
-							freshData.tasks.thisWeek = freshData.tasks.thisWeek.filter(t => t.id !== id);
-							task.section = 'immediate';
-							freshData.tasks.immediate.unshift(task);
+					await this.plugin.store.update(undefined, (freshData) => {
+						for (const id of this.overflowTaskIds) {
+							const task = freshData.tasks.thisWeek.find(t => t.id === id);
+							if (task) {
+								freshData.tasks.thisWeek = freshData.tasks.thisWeek.filter(t => t.id !== id);
+								task.section = 'immediate';
+								freshData.tasks.immediate.unshift(task);
+							}
 						}
-					}
-					await this.plugin.saveTaskData(freshData);
-					this.plugin.refreshFocusView();
+					});
 					this.close();
 				})
 			);
@@ -1093,30 +1864,24 @@ class AutoSortOverflowModal extends Modal {
 					.setName(task.title)
 					.addButton((btn) =>
 						btn.setButtonText('Demote').onClick(async () => {
-							const freshData = await this.plugin.loadTaskData();
-
-							// Move this task to thisWeek
-							const taskToDemote = freshData.tasks.immediate.find(t => t.id === task.id);
-							if (taskToDemote) {
-								freshData.tasks.immediate = freshData.tasks.immediate.filter(t => t.id !== task.id);
-								taskToDemote.section = 'thisWeek';
-								freshData.tasks.thisWeek.push(taskToDemote);
-							}
+							const promoteId = this.overflowTaskIds.shift();
+							await this.plugin.store.update(undefined, (freshData) => {
+								// Move this task to thisWeek
+								const taskToDemote = freshData.tasks.immediate.find(t => t.id === task.id);
+								if (taskToDemote) {
+									freshData.tasks.immediate = freshData.tasks.immediate.filter(t => t.id !== task.id);
+									taskToDemote.section = 'thisWeek';
+									freshData.tasks.thisWeek.push(taskToDemote);
+								}
 
-							// Promote the first overflow task to immediate
-							const promoteId = this.overflowTaskIds[0];
-							if (promoteId) {
+								// Promote the first overflow task to immediate
 								const toPromote = freshData.tasks.thisWeek.find(t => t.id === promoteId);
 								if (toPromote) {
 									freshData.tasks.thisWeek = freshData.tasks.thisWeek.filter(t => t.id !== promoteId);
 									toPromote.section = 'immediate';
 									freshData.tasks.immediate.unshift(toPromote);
 								}
-								this.overflowTaskIds.shift();
-							}
-
-							await this.plugin.saveTaskData(freshData);
-							this.plugin.refreshFocusView();
+							});
 
 							if (this.overflowTaskIds.length === 0) {
 								this.close();
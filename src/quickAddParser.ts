@@ -0,0 +1,255 @@
+import { Recurrence } from './types';
+import { RECURRENCE_RULE_SOURCE, parseRecurrenceRule, toISODate } from './taskParser';
+
+/**
+ * What the quick add parser recognised in a typed task
+ */
+export interface QuickAddResult {
+	title: string; // The input with recognised dates, times, recurrence and URL removed
+	doDate?: string; // ISO date
+	doTime?: string; // 24h time
+	recurrence?: Recurrence;
+	url?: string;
+	tags: string[]; // Tags stay in the title, where Obsidian expects them
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Ends a day word unless it is possessive: "Monday's notes" names no date
+ */
+const NOT_POSSESSIVE = "\\b(?!['\u2019]s\\b)";
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const MONTH_SOURCE =
+	'(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+const NUMBER_WORDS: Record<string, number> = {
+	a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+	six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+interface Span {
+	start: number;
+	end: number;
+}
+
+interface Phrase {
+	pattern: RegExp;
+	/** Turns a match into task fields; returning null leaves the text in the title */
+	resolve: (match: RegExpExecArray, now: Date) => Partial<QuickAddResult> | null;
+}
+
+/**
+ * Text that is never read as a date or time: wiki links, markdown links and inline code
+ */
+const PROTECTED = /\[\[[^\]]*\]\]|\[[^\]]*\]\([^)]*\)|`[^`]*`/g;
+
+const URL_PHRASE: Phrase = {
+	pattern: /\bhttps?:\/\/[^\s<>]*[^\s<>.,;:!?)]/gi,
+	resolve: (m) => ({ url: m[0] }),
+};
+
+const RECURRENCE_PHRASE: Phrase = {
+	pattern: new RegExp(`\\b${RECURRENCE_RULE_SOURCE}\\b`, 'gi'),
+	resolve: (m) => {
+		const recurrence = parseRecurrenceRule(m[0]);
+		return recurrence ? { recurrence } : null;
+	},
+};
+
+/**
+ * Date phrases in order of preference; the first one found wins
+ */
+const DATE_PHRASES: Phrase[] = [
+	{
+		pattern: /\b(?:on\s+)?(\d{4})-(\d{2})-(\d{2})\b/gi,
+		resolve: (m) => {
+			const date = new Date(parseInt(m[1]), parseInt(m[2]) - 1, parseInt(m[3]));
+			return date.getDate() === parseInt(m[3]) ? { doDate: toISODate(date) } : null;
+		},
+	},
+	{
+		pattern: new RegExp(`\\b(today|tonight|tomorrow|tmrw|tmr)${NOT_POSSESSIVE}`, 'gi'),
+		resolve: (m, now) => ({
+			doDate: toISODate(addDays(now, /^(today|tonight)$/i.test(m[1]) ? 0 : 1)),
+		}),
+	},
+	{
+		pattern: /\bin\s+(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten)\s+(days?|weeks?|months?)\b/gi,
+		resolve: (m, now) => {
+			const count = NUMBER_WORDS[m[1].toLowerCase()] ?? parseInt(m[1]);
+			const unit = m[2].toLowerCase();
+			if (unit.startsWith('month')) return { doDate: toISODate(addMonths(now, count)) };
+			return { doDate: toISODate(addDays(now, unit.startsWith('week') ? count * 7 : count)) };
+		},
+	},
+	{
+		pattern: /\bnext\s+(week|month)\b/gi,
+		resolve: (m, now) => ({
+			doDate: toISODate(m[1].toLowerCase() === 'week' ? addDays(now, 7) : addMonths(now, 1)),
+		}),
+	},
+	{
+		// "monday", "on Monday", "next Monday": the first one after today
+		pattern: new RegExp(`\\b(?:(?:on|next|this)\\s+)?(${WEEKDAYS.join('|')})${NOT_POSSESSIVE}`, 'gi'),
+		resolve: (m, now) => {
+			const ahead = (WEEKDAYS.indexOf(m[1].toLowerCase()) - now.getDay() + 7) % 7 || 7;
+			return { doDate: toISODate(addDays(now, ahead)) };
+		},
+	},
+	{
+		// "Jan 27", "on January 27th"
+		pattern: new RegExp(`\\b(?:on\\s+)?${MONTH_SOURCE}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'gi'),
+		resolve: (m, now) => resolveMonthDay(m[1], m[2], now),
+	},
+	{
+		// "27 Jan", "on the 27th of January"
+		pattern: new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_SOURCE}\\b`, 'gi'),
+		resolve: (m, now) => resolveMonthDay(m[2], m[1], now),
+	},
+];
+
+const TIME_PHRASES: Phrase[] = [
+	{
+		pattern: /\b(?:at\s+)?(\d{1,2})(?::([0-5]\d))?\s*(am|pm)\b/gi,
+		resolve: (m) => {
+			const hour = parseInt(m[1]);
+			if (hour < 1 || hour > 12) return null;
+			const isPm = m[3].toLowerCase() === 'pm';
+			return { doTime: formatTime((hour % 12) + (isPm ? 12 : 0), m[2] ? parseInt(m[2]) : 0) };
+		},
+	},
+	{
+		pattern: /\b(?:at\s+)?([01]?\d|2[0-3]):([0-5]\d)\b/gi,
+		resolve: (m) => ({ doTime: formatTime(parseInt(m[1]), parseInt(m[2])) }),
+	},
+	{
+		pattern: /\b(?:at\s+)?(noon|midnight)\b/gi,
+		resolve: (m) => ({ doTime: m[1].toLowerCase() === 'noon' ? '12:00' : '00:00' }),
+	},
+];
+
+const TAG = /(?:^|\s)#([^\s#]*[^\s#\d][^\s#]*)/g;
+
+/**
+ * Parses a quick add entry such as "Call dentist tomorrow 3pm" or
+ * "pay rent every month on the 1st" into a title and task fields.
+ * Everything runs locally; `now` is only a parameter so results are testable.
+ *
+ * - A time without a date means today, or tomorrow once that time has passed
+ * - A weekly or monthly recurrence on a given day starts on its next occurrence
+ */
+export function parseQuickAdd(input: string, now: Date = new Date()): QuickAddResult {
+	const result: QuickAddResult = { title: input.trim(), tags: [] };
+	const taken: Span[] = [];
+
+	let match: RegExpExecArray | null;
+	PROTECTED.lastIndex = 0;
+	while ((match = PROTECTED.exec(input)) !== null) {
+		taken.push({ start: match.index, end: match.index + match[0].length });
+	}
+	const protectedCount = taken.length;
+
+	const claim = (phrase: Phrase): boolean => {
+		phrase.pattern.lastIndex = 0;
+		let m: RegExpExecArray | null;
+		while ((m = phrase.pattern.exec(input)) !== null) {
+			const span = { start: m.index, end: m.index + m[0].length };
+			if (taken.some(t => span.start < t.end && t.start < span.end)) continue;
+			const fields = phrase.resolve(m, now);
+			if (!fields) continue;
+			Object.assign(result, fields);
+			taken.push(span);
+			return true;
+		}
+		return false;
+	};
+
+	claim(URL_PHRASE);
+	claim(RECURRENCE_PHRASE);
+	DATE_PHRASES.some(claim);
+	TIME_PHRASES.some(claim);
+
+	TAG.lastIndex = 0;
+	while ((match = TAG.exec(input)) !== null) {
+		result.tags.push(match[1]);
+	}
+
+	if (result.recurrence && !result.doDate) {
+		result.doDate = firstOccurrence(result.recurrence, now);
+	}
+
+	if (result.doTime && !result.doDate) {
+		const [hour, minute] = result.doTime.split(':').map(n => parseInt(n));
+		const passed = hour * 60 + minute <= now.getHours() * 60 + now.getMinutes();
+		result.doDate = toISODate(addDays(now, passed ? 1 : 0));
+	}
+
+	// Cut the recognised phrases out of the title, keeping protected text
+	const removed = taken.slice(protectedCount).sort((a, b) => b.start - a.start);
+	let title = input;
+	for (const span of removed) {
+		const after = title.slice(span.end);
+		// Punctuation that followed the phrase closes up onto the preceding word
+		title = /^[.,;:!?]/.test(after)
+			? title.slice(0, span.start).replace(/\s+$/, '') + after
+			: title.slice(0, span.start) + ' ' + after;
+	}
+	result.title = title.replace(/\s+/g, ' ').replace(/[\s,;]+$/, '').trim();
+
+	return result;
+}
+
+/**
+ * First date of a recurrence pinned to a weekday or day of the month, from today on
+ */
+function firstOccurrence(recurrence: Recurrence, now: Date): string | undefined {
+	if (recurrence.type === 'weeks' && recurrence.dayOfWeek != null) {
+		return toISODate(addDays(now, (recurrence.dayOfWeek - now.getDay() + 7) % 7));
+	}
+	if (recurrence.type === 'months' && recurrence.dayOfMonth != null) {
+		const monthOffset = now.getDate() > recurrence.dayOfMonth ? 1 : 0;
+		return toISODate(monthDay(now.getFullYear(), now.getMonth() + monthOffset, recurrence.dayOfMonth));
+	}
+	return undefined;
+}
+
+/**
+ * A month and day without a year: this year, or next year if it has already passed
+ */
+function resolveMonthDay(monthName: string, dayText: string, now: Date): Partial<QuickAddResult> | null {
+	const month = MONTHS.indexOf(monthName.slice(0, 3).toLowerCase());
+	const day = parseInt(dayText);
+	const date = new Date(now.getFullYear(), month, day);
+	if (date.getMonth() !== month) return null; // e.g. Feb 30
+
+	const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+	if (date < today) date.setFullYear(date.getFullYear() + 1);
+	return { doDate: toISODate(date) };
+}
+
+function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function addMonths(date: Date, months: number): Date {
+	return monthDay(date.getFullYear(), date.getMonth() + months, date.getDate());
+}
+
+/**
+ * The given day of a month, clamped to the month's last day
+ */
+function monthDay(year: number, month: number, day: number): Date {
+	const lastDay = new Date(year, month + 1, 0).getDate();
+	return new Date(year, month, Math.min(day, lastDay));
+}
+
+function formatTime(hour: number, minute: number): string {
+	return `${pad(hour)}:${pad(minute)}`;
+}
+
+function pad(n: number): string {
+	return n < 10 ? `0${n}` : String(n);
+}
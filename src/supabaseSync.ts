@@ -21,6 +21,7 @@ interface DbTask {
 	recurrence_interval: number | null;
 	recurrence_day_of_week: number | null;
 	recurrence_day_of_month: number | null;
+	notes?: string | null; // Missing until the table has the column, see the README
 	sort_order: number;
 	archived_month: string | null;
 }
@@ -58,6 +59,20 @@ interface DbUserSettings {
 	habit_reset_date: string | null;
 }
 
+/**
+ * Task fields the tasks table has no columns for. A pull keeps the local values,
+ * so checklists, source links and Obsidian Tasks metadata survive a cloud round trip.
+ */
+export const LOCAL_ONLY_TASK_FIELDS: (keyof Task)[] = ['sourceFile', 'sourceLine', 'dueDate', 'startDate', 'priority', 'subtasks'];
+
+/**
+ * The fields a pull should keep locally: notes too, until the last pull found
+ * the tasks table's `notes` column
+ */
+export function localOnlyTaskFields(): (keyof Task)[] {
+	return remoteHasNotesColumn ? LOCAL_ONLY_TASK_FIELDS : [...LOCAL_ONLY_TASK_FIELDS, 'notes'];
+}
+
 // ============================================================
 // Mappers: DB → Local
 // ============================================================
@@ -84,11 +99,12 @@ function dbTaskToLocal(row: DbTask): Task {
 		doDate: row.do_date ?? undefined,
 		doTime: row.do_time ?? undefined,
 		recurrence,
+		notes: row.notes ?? undefined,
 	};
 }
 
 function localTaskToDbFields(task: Task, userId: string): Record<string, unknown> {
-	return {
+	const fields: Record<string, unknown> = {
 		id: task.id,
 		user_id: userId,
 		title: task.title,
@@ -106,6 +122,9 @@ function localTaskToDbFields(task: Task, userId: string): Record<string, unknown
 		sort_order: 0,
 		archived_month: null,
 	};
+	// Sending a column the table lacks fails the whole upsert
+	if (remoteHasNotesColumn) fields.notes = task.notes ?? null;
+	return fields;
 }
 
 // ============================================================
@@ -137,9 +156,15 @@ export async function pullFromRemote(): Promise<FocusData | null> {
 	}
 
 	const allDbTasks = (tasksRes.data as DbTask[]) || [];
+	if (allDbTasks.length > 0) {
+		remoteHasNotesColumn = 'notes' in allDbTasks[0];
+	} else {
+		// No row to look at; ask for the column itself
+		remoteHasNotesColumn = !(await supabase.from('tasks').select('notes').limit(1)).error;
+	}
 
 	// Track known remote IDs so pushToRemote only deletes tasks we've seen
-	lastKnownRemoteTaskIds = new Set(allDbTasks.map(t => t.id));
+	lastKnownRemoteTaskIds = new Map(allDbTasks.map(t => [t.id, t.archived_month]));
 	const dbGoals = (goalsRes.data as DbGoal[]) || [];
 	lastKnownRemoteGoalIds = new Set(dbGoals.map(g => g.id));
 	const dbHabits = (habitsRes.data as DbHabit[]) || [];
@@ -198,8 +223,10 @@ export async function pullFromRemote(): Promise<FocusData | null> {
 /**
  * Push all local FocusData to Supabase.
  * Uses upsert to handle both new and existing records.
+ * @param archivedMonths - Months kept in local archive files; their tasks aren't in
+ *   `data`, but are left in place remotely
  */
-export async function pushToRemote(data: FocusData): Promise<boolean> {
+export async function pushToRemote(data: FocusData, archivedMonths: string[] = []): Promise<boolean> {
 	const supabase = getSupabase();
 	const userId = getUserId();
 	if (!supabase || !userId) return false;
@@ -243,8 +270,16 @@ export async function pushToRemote(data: FocusData): Promise<boolean> {
 
 		// Only delete tasks that we previously pulled from remote but are now gone locally.
 		// This prevents wiping tasks added by other clients (e.g., the PWA).
-		const localTaskIds = new Set(allTasks.map(t => t.id as string));
-		const tasksToDelete = [...lastKnownRemoteTaskIds].filter(id => !localTaskIds.has(id));
+		const localTaskIds = new Map(allTasks.map(t => [t.id as string, t.archived_month as string | null]));
+		const tasksToDelete: string[] = [];
+		lastKnownRemoteTaskIds.forEach((month, id) => {
+			if (localTaskIds.has(id)) return;
+			if (month && archivedMonths.includes(month)) {
+				localTaskIds.set(id, month);
+			} else {
+				tasksToDelete.push(id);
+			}
+		});
 		if (tasksToDelete.length > 0) {
 			await supabase.from('tasks').delete().eq('user_id', userId).in('id', tasksToDelete);
 		}
@@ -312,9 +347,10 @@ export async function pushToRemote(data: FocusData): Promise<boolean> {
 // Known remote ID tracking (prevents deleting tasks added by other clients)
 // ============================================================
 
-let lastKnownRemoteTaskIds: Set<string> = new Set();
+let lastKnownRemoteTaskIds: Map<string, string | null> = new Map(); // ID → archived month
 let lastKnownRemoteGoalIds: Set<string> = new Set();
 let lastKnownRemoteHabitIds: Set<string> = new Set();
+let remoteHasNotesColumn = false; // Set by each pull; tables made before task notes lack it
 
 // ============================================================
 // Realtime subscription
@@ -1,12 +1,274 @@
-import { FocusData, Task, TaskSection, WeeklyGoal, DailyHabit, Recurrence, RecurrenceType } from './types';
+import { FocusData, Task, Subtask, TaskSection, WeeklyGoal, DailyHabit, Recurrence, RecurrenceType, TaskPriority, TaskFormat } from './types';
 
 /**
  * Generates a unique ID for tasks
  */
-function generateId(): string {
+export function generateId(): string {
 	return Date.now().toString(36) + Math.random().toString(36).substring(2, 11);
 }
 
+/**
+ * Extracts a trailing block ID (format: ^abc123) from a line's text.
+ * Block IDs are how tasks and habits keep a stable identity across reloads.
+ */
+function extractBlockId(text: string): { text: string; id?: string } {
+	const idMatch = text.match(/(?:^|\s+)\^([A-Za-z0-9-]+)\s*$/);
+	if (!idMatch) return { text };
+	return { text: text.slice(0, idMatch.index).trim(), id: idMatch[1] };
+}
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const PRIORITY_EMOJI: Record<TaskPriority, string> = {
+	highest: '🔺',
+	high: '⏫',
+	medium: '🔼',
+	low: '🔽',
+	lowest: '⏬',
+};
+
+/**
+ * Obsidian Tasks recurrence phrases Focus can represent, e.g. "every day", "every 3 days",
+ * "every week on Monday", "every Monday", "every 2 months on the 1st"
+ */
+export const RECURRENCE_RULE_SOURCE =
+	'every\\s+(?:(\\d+)\\s+)?(days?|weeks?|months?|' + WEEKDAY_NAMES.join('|') + ')' +
+	'(?:\\s+on\\s+(?:the\\s+)?(' + WEEKDAY_NAMES.join('|') + '|\\d{1,2}(?:st|nd|rd|th)))?' +
+	'(?:\\s+when\\s+done)?';
+
+/**
+ * Parses an Obsidian Tasks recurrence phrase into a Recurrence.
+ * Returns null for phrases Focus can't represent (e.g. "every year").
+ */
+export function parseRecurrenceRule(rule: string): Recurrence | null {
+	const match = rule.trim().match(new RegExp(`^${RECURRENCE_RULE_SOURCE}$`, 'i'));
+	if (!match) return null;
+
+	const interval = match[1] ? parseInt(match[1]) : 1;
+	const unit = match[2].toLowerCase();
+	const on = match[3]?.toLowerCase();
+	if (interval < 1) return null;
+
+	// "every Monday" is shorthand for "every week on Monday"
+	const weekdayUnit = WEEKDAY_NAMES.indexOf(unit);
+	if (weekdayUnit > -1) {
+		return on ? null : { type: 'weeks', interval, dayOfWeek: weekdayUnit };
+	}
+
+	if (unit.startsWith('day')) {
+		return on ? null : { type: 'days', interval };
+	}
+
+	if (unit.startsWith('week')) {
+		if (!on) return { type: 'weeks', interval };
+		const dayOfWeek = WEEKDAY_NAMES.indexOf(on);
+		return dayOfWeek > -1 ? { type: 'weeks', interval, dayOfWeek } : null;
+	}
+
+	if (!on) return { type: 'months', interval };
+	const dayOfMonth = parseInt(on);
+	return dayOfMonth >= 1 && dayOfMonth <= 31 ? { type: 'months', interval, dayOfMonth } : null;
+}
+
+/**
+ * Formats a Recurrence as an Obsidian Tasks phrase, e.g. "every 2 weeks on Monday"
+ */
+export function formatRecurrenceRule(recurrence: Recurrence): string {
+	const unit = recurrence.type.slice(0, -1); // "days" -> "day"
+	let rule = recurrence.interval === 1 ? `every ${unit}` : `every ${recurrence.interval} ${recurrence.type}`;
+
+	if (recurrence.type === 'weeks' && recurrence.dayOfWeek != null) {
+		const name = WEEKDAY_NAMES[recurrence.dayOfWeek];
+		rule += ` on ${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+	}
+	if (recurrence.type === 'months' && recurrence.dayOfMonth != null) {
+		const day = recurrence.dayOfMonth;
+		const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+		rule += ` on the ${day}${suffix}`;
+	}
+
+	return rule;
+}
+
+/**
+ * Formats a Recurrence in Focus's compact form, e.g. "weeks:2:1"
+ */
+function formatFocusRecurrence(recurrence: Recurrence): string {
+	let rule = `${recurrence.type}:${recurrence.interval}`;
+	if (recurrence.type === 'weeks' && recurrence.dayOfWeek != null) {
+		rule += `:${recurrence.dayOfWeek}`;
+	}
+	if (recurrence.type === 'months' && recurrence.dayOfMonth != null) {
+		rule += `:${recurrence.dayOfMonth}`;
+	}
+	return rule;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+interface MetadataMarker {
+	pattern: RegExp;
+	/** Copies the match into the task fields; returning false leaves the text in the title */
+	apply: (fields: Partial<Task>, match: RegExpExecArray, format: TaskFormat) => boolean | void;
+}
+
+/**
+ * Inline metadata markers recognised after a task title. Each pattern is sticky and
+ * is only tried at the start of a whitespace-separated token; a marker whose value
+ * doesn't match is left in the title untouched.
+ */
+const METADATA_MARKERS: MetadataMarker[] = [
+	{
+		// 📅 YYYY-MM-DD — the reminder date in Focus format, the due date in Obsidian Tasks
+		pattern: /📅\s*(\d{4}-\d{2}-\d{2})(?=\s|$)/y,
+		apply: (fields, m, format) => {
+			if (format === 'focus') {
+				fields.doDate = m[1];
+			} else {
+				fields.dueDate = m[1];
+			}
+		},
+	},
+	{
+		// ⏳ YYYY-MM-DD (Obsidian Tasks scheduled date)
+		pattern: /⏳\s*(\d{4}-\d{2}-\d{2})(?=\s|$)/y,
+		apply: (fields, m) => { fields.doDate = m[1]; },
+	},
+	{
+		// 🛫 YYYY-MM-DD (Obsidian Tasks start date)
+		pattern: /🛫\s*(\d{4}-\d{2}-\d{2})(?=\s|$)/y,
+		apply: (fields, m) => { fields.startDate = m[1]; },
+	},
+	{
+		// ⏰ HH:MM
+		pattern: /⏰\s*(\d{1,2}:\d{2})(?=\s|$)/y,
+		apply: (fields, m) => { fields.doTime = m[1]; },
+	},
+	{
+		// 🔁 days:3, 🔁 weeks:2:1, 🔁 months:1:19, or 🔁 every week on Monday
+		pattern: new RegExp(`🔁\\s*(?:(days|weeks|months):(\\d+)(?::(\\d+))?|(${RECURRENCE_RULE_SOURCE}))(?=\\s|$)`, 'iy'),
+		apply: (fields, m) => {
+			if (m[4]) {
+				const recurrence = parseRecurrenceRule(m[4]);
+				if (!recurrence) return false;
+				fields.recurrence = recurrence;
+				return;
+			}
+			const recurrence: Recurrence = { type: m[1].toLowerCase() as RecurrenceType, interval: parseInt(m[2]) };
+			if (recurrence.type === 'weeks' && m[3]) {
+				recurrence.dayOfWeek = parseInt(m[3]);
+			}
+			if (recurrence.type === 'months' && m[3]) {
+				recurrence.dayOfMonth = parseInt(m[3]);
+			}
+			fields.recurrence = recurrence;
+		},
+	},
+	{
+		// 🔺 ⏫ 🔼 🔽 ⏬
+		pattern: /(🔺|⏫|🔼|🔽|⏬)(?=\s|$)/y,
+		apply: (fields, m) => {
+			fields.priority = (Object.keys(PRIORITY_EMOJI) as TaskPriority[]).find(p => PRIORITY_EMOJI[p] === m[1]);
+		},
+	},
+	{
+		// ✅ YYYY-MM-DD
+		pattern: /✅\s*(\d{4}-\d{2}-\d{2})(?=\s|$)/y,
+		apply: (fields, m) => { fields.completedAt = m[1]; },
+	},
+	{
+		// [due:: 2026-01-27], (scheduled:: 2026-01-27), [priority:: high], [repeat:: every week] ...
+		pattern: /[[(](due|scheduled|start|completion|priority|repeat)::\s*([^\])]*?)\s*[\])](?=\s|$)/iy,
+		apply: (fields, m) => {
+			const value = m[2];
+			switch (m[1].toLowerCase()) {
+				case 'due':
+					if (!ISO_DATE.test(value)) return false;
+					fields.dueDate = value;
+					return;
+				case 'scheduled':
+					if (!ISO_DATE.test(value)) return false;
+					fields.doDate = value;
+					return;
+				case 'start':
+					if (!ISO_DATE.test(value)) return false;
+					fields.startDate = value;
+					return;
+				case 'completion':
+					if (!ISO_DATE.test(value)) return false;
+					fields.completedAt = value;
+					return;
+				case 'priority': {
+					const priority = value.toLowerCase() as TaskPriority;
+					if (!(priority in PRIORITY_EMOJI)) return false;
+					fields.priority = priority;
+					return;
+				}
+				case 'repeat': {
+					const recurrence = parseRecurrenceRule(value);
+					if (!recurrence) return false;
+					fields.recurrence = recurrence;
+					return;
+				}
+			}
+			return false;
+		},
+	},
+	{
+		// 🎯 goalId
+		pattern: /🎯\s*(\S+)(?=\s|$)/y,
+		apply: (fields, m) => { fields.goalId = m[1]; },
+	},
+	{
+		// 📄 path/to/note.md or 📄 path/to/note.md:12 (paths may contain spaces, but not other markers)
+		pattern: /📄\s*([^📅⏳🛫⏰🔁🔺⏫🔼🔽⏬✅🎯📄🔗]+?\.md)(?:\s*:\s*(\d+))?(?=\s|$)/uy,
+		apply: (fields, m) => {
+			fields.sourceFile = m[1].trim();
+			fields.sourceLine = m[2] ? parseInt(m[2]) : undefined;
+		},
+	},
+	{
+		// 🔗 https://...
+		pattern: /🔗\s*(https?:\/\/\S+)(?=\s|$)/y,
+		apply: (fields, m) => { fields.url = m[1]; },
+	},
+];
+
+/**
+ * Pulls every recognised metadata marker out of the text after the checkbox,
+ * wherever it appears. Returns what's left over as the title.
+ */
+function extractMetadata(text: string, fields: Partial<Task>, format: TaskFormat): string {
+	const kept: string[] = [];
+	let segmentStart = 0;
+	let pos = 0;
+
+	while (pos < text.length) {
+		if (pos === 0 || /\s/.test(text[pos - 1])) {
+			let consumed = 0;
+			for (const marker of METADATA_MARKERS) {
+				marker.pattern.lastIndex = pos;
+				const match = marker.pattern.exec(text);
+				// Later duplicates win, matching how a person reads the line left to right
+				if (match && marker.apply(fields, match, format) !== false) {
+					consumed = match[0].length;
+					break;
+				}
+			}
+			if (consumed > 0) {
+				kept.push(text.slice(segmentStart, pos));
+				pos += consumed;
+				segmentStart = pos;
+				continue;
+			}
+		}
+		pos++;
+	}
+	kept.push(text.slice(segmentStart));
+
+	return kept.map(part => part.trim()).filter(part => part.length > 0).join(' ');
+}
+
 /**
  * Parses a markdown task line into a Task object
  * Format: "- [ ] Task title" or "- [x] Task title"
@@ -14,80 +276,46 @@ function generateId(): string {
  * Optional do date: "- [ ] Task title 📅 2026-01-27"
  * Optional do time: "- [ ] Task title 📅 2026-01-27 ⏰ 14:30"
  * Optional completed date: "- [x] Task title ✅ 2026-01-27"
+ * Optional goal link: "- [ ] Task title 🎯 goalId"
+ * Optional vault source: "- [ ] Task title 📄 Projects/Note.md:12"
+ * Stable ID (always last): "- [ ] Task title ^k3j9x2a1b"
+ *
+ * Obsidian Tasks emoji (⏳ 🛫 📅 🔺⏫🔼🔽⏬ 🔁 every ...) and dataview fields
+ * ([due:: ], [scheduled:: ], ...) are read too; `format` decides what 📅 means.
+ * Markers may appear in any order after the title; unknown text is kept in the title.
  */
-function parseTaskLine(line: string, section: TaskSection): Task | null {
+export function parseTaskLine(line: string, section: TaskSection, format: TaskFormat = 'focus'): Task | null {
 	const match = line.match(/^-\s*\[([ xX])\]\s*(.+)$/);
 	if (!match) return null;
 
 	const completed = match[1].toLowerCase() === 'x';
-	let title = match[2].trim();
-	let url: string | undefined;
-	let doDate: string | undefined;
-	let doTime: string | undefined;
-	let completedAt: string | undefined;
-
-	// Extract URL if present (format: 🔗 https://...)
-	const urlMatch = title.match(/\s*🔗\s*(https?:\/\/\S+)\s*$/);
-	if (urlMatch) {
-		url = urlMatch[1];
-		title = title.replace(urlMatch[0], '').trim();
-	}
-
-	// Extract completed date if present (format: ✅ YYYY-MM-DD)
-	const completedMatch = title.match(/\s*✅\s*(\d{4}-\d{2}-\d{2})\s*$/);
-	if (completedMatch) {
-		completedAt = completedMatch[1];
-		title = title.replace(completedMatch[0], '').trim();
-	}
-
-	// Extract do time if present (format: ⏰ HH:MM)
-	const timeMatch = title.match(/\s*⏰\s*(\d{1,2}:\d{2})\s*$/);
-	if (timeMatch) {
-		doTime = timeMatch[1];
-		title = title.replace(timeMatch[0], '').trim();
-	}
-
-	// Extract do date if present (format: 📅 YYYY-MM-DD)
-	const dateMatch = title.match(/\s*📅\s*(\d{4}-\d{2}-\d{2})\s*$/);
-	if (dateMatch) {
-		doDate = dateMatch[1];
-		title = title.replace(dateMatch[0], '').trim();
-	}
-
-	// Extract recurrence if present (format: 🔁 days:3, 🔁 weeks:2:1, 🔁 months:1:19)
-	let recurrence: Recurrence | undefined;
-	const recurrenceMatch = title.match(/\s*🔁\s*(days|weeks|months):(\d+)(?::(\d+))?\s*$/);
-	if (recurrenceMatch) {
-		recurrence = {
-			type: recurrenceMatch[1] as RecurrenceType,
-			interval: parseInt(recurrenceMatch[2]),
-		};
-		if (recurrence.type === 'weeks' && recurrenceMatch[3]) {
-			recurrence.dayOfWeek = parseInt(recurrenceMatch[3]);
-		}
-		if (recurrence.type === 'months' && recurrenceMatch[3]) {
-			recurrence.dayOfMonth = parseInt(recurrenceMatch[3]);
-		}
-		title = title.replace(recurrenceMatch[0], '').trim();
-	}
+	const { text, id } = extractBlockId(match[2].trim());
+	const fields: Partial<Task> = {};
+	const title = extractMetadata(text, fields, format);
 
 	return {
-		id: generateId(),
+		id: id ?? generateId(),
 		title,
 		completed,
-		completedAt,
+		completedAt: fields.completedAt,
 		section,
-		url,
-		doDate,
-		doTime,
-		recurrence,
+		goalId: fields.goalId,
+		sourceFile: fields.sourceFile,
+		sourceLine: fields.sourceLine,
+		url: fields.url,
+		doDate: fields.doDate,
+		doTime: fields.doTime,
+		recurrence: fields.recurrence,
+		dueDate: fields.dueDate,
+		startDate: fields.startDate,
+		priority: fields.priority,
 	};
 }
 
 /**
  * Parses the frontmatter from the task file
  */
-function parseFrontmatter(content: string): { weekOf: string; goals: WeeklyGoal[]; habitResetDate: string; bodyStart: number } {
+export function parseFrontmatter(content: string): { weekOf: string; goals: WeeklyGoal[]; habitResetDate: string; bodyStart: number } {
 	const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
 
 	const today = new Date().toISOString().split('T')[0];
@@ -117,9 +345,9 @@ function parseFrontmatter(content: string): { weekOf: string; goals: WeeklyGoal[
 		if (goalsMatch) {
 			const goalLines = goalsMatch[1].split('\n').filter(line => line.trim());
 			goals = goalLines.map(line => {
-				const goalTitle = line.replace(/^\s*-\s*/, '').trim();
+				const { text: goalTitle, id } = extractBlockId(line.replace(/^\s*-\s*/, '').trim());
 				return {
-					id: generateId(),
+					id: id ?? generateId(),
 					title: goalTitle,
 				};
 			});
@@ -150,113 +378,301 @@ function parseMonthHeader(line: string): string | null {
 
 /**
  * Parses a habit line into a DailyHabit object
- * Format: "- [ ] Habit title" or "- [x] Habit title"
+ * Format: "- [ ] Habit title ^id" or "- [x] Habit title ^id"
  */
 function parseHabitLine(line: string): DailyHabit | null {
 	const match = line.match(/^-\s*\[([ xX])\]\s*(.+)$/);
 	if (!match) return null;
 
 	const completedToday = match[1].toLowerCase() === 'x';
-	const title = match[2].trim();
+	const { text: title, id } = extractBlockId(match[2].trim());
 
 	return {
-		id: generateId(),
+		id: id ?? generateId(),
 		title,
 		completedToday,
 	};
 }
 
 /**
- * Parses the entire task file content into FocusData
+ * Options shared by parseTaskFile and serializeTaskFile
  */
-export function parseTaskFile(content: string): FocusData {
-	const { weekOf, goals, habitResetDate, bodyStart } = parseFrontmatter(content);
-	const body = content.slice(bodyStart);
+export interface TaskFileOptions {
+	/** Dialect the task metadata is written in (default: 'focus') */
+	format?: TaskFormat;
+	/**
+	 * Current content of the task file. When given, serializeTaskFile keeps every line
+	 * Focus doesn't manage where it was and only rewrites task lines that changed.
+	 */
+	previous?: string;
+}
 
-	const habits: DailyHabit[] = [];
-	const tasks: FocusData['tasks'] = {
-		immediate: [],
-		thisWeek: [],
-		unscheduled: [],
-	};
+/** A section Focus manages: habits, a task section, the completed archive or one archived month ("month:2026-01") */
+type SectionKey = 'habits' | TaskSection | 'completed' | `month:${string}`;
 
-	const completedTasks: Record<string, Task[]> = {};
+const SECTION_HEADINGS: Record<string, SectionKey> = {
+	'## daily habits': 'habits',
+	'## immediate': 'immediate',
+	'## this week': 'thisWeek',
+	'## unscheduled': 'unscheduled',
+	'## completed': 'completed',
+};
+
+const TASK_SECTIONS: TaskSection[] = ['immediate', 'thisWeek', 'unscheduled'];
+
+/** A task or habit line, with the indented lines (sub-bullets, notes) written under it */
+interface DocumentEntry {
+	line: string;
+	children: string[];
+	item: Task | DailyHabit;
+	/** False when the line had no ^id, so the item's ID was generated while parsing */
+	hasId: boolean;
+}
+
+type DocumentLine = { entry: DocumentEntry } | { text: string };
+
+interface DocumentSection {
+	/** Undefined for the text before the first heading and for headings Focus doesn't manage */
+	key?: SectionKey;
+	/** The heading as written; undefined for the text before the first heading */
+	heading?: string;
+	lines: DocumentLine[];
+}
+
+/**
+ * The task file as written: frontmatter lines plus every body line, grouped by heading.
+ * Lines Focus doesn't understand are kept as text so the file can be written back losslessly.
+ */
+interface TaskDocument {
+	/** Lines between the --- fences, or null if the file has no frontmatter */
+	frontmatter: string[] | null;
+	sections: DocumentSection[];
+}
 
-	let currentSection: TaskSection | null = null;
-	let inHabitsSection = false;
+function monthOf(key: SectionKey | undefined): string | null {
+	return key && key.startsWith('month:') ? key.slice('month:'.length) : null;
+}
+
+/**
+ * Splits the task file into its document model
+ */
+function parseTaskDocument(content: string, format: TaskFormat): TaskDocument {
+	const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+	const body = frontmatterMatch ? content.slice(frontmatterMatch[0].length) : content;
+
+	const sections: DocumentSection[] = [{ lines: [] }];
+	let current = sections[0];
 	let inCompletedSection = false;
-	let currentMonth: string | null = null;
+	let habitCount = 0;
+	let lastEntry: DocumentEntry | null = null;
 
-	const lines = body.split('\n');
-	for (const line of lines) {
+	for (const line of body.split('\n')) {
 		const trimmedLine = line.trim();
 
-		// Check for section headers
-		if (trimmedLine.toLowerCase() === '## daily habits') {
-			currentSection = null;
-			inHabitsSection = true;
-			inCompletedSection = false;
-			currentMonth = null;
-			continue;
-		} else if (trimmedLine.toLowerCase() === '## immediate') {
-			currentSection = 'immediate';
-			inHabitsSection = false;
-			inCompletedSection = false;
-			currentMonth = null;
-			continue;
-		} else if (trimmedLine.toLowerCase() === '## this week') {
-			currentSection = 'thisWeek';
-			inHabitsSection = false;
-			inCompletedSection = false;
-			currentMonth = null;
+		// Indented lines directly under a task or habit belong to it
+		// (whitespace-only ones too, so notes can hold paragraph breaks)
+		if (lastEntry && /^\s/.test(line)) {
+			lastEntry.children.push(line);
 			continue;
-		} else if (trimmedLine.toLowerCase() === '## unscheduled') {
-			currentSection = 'unscheduled';
-			inHabitsSection = false;
-			inCompletedSection = false;
-			currentMonth = null;
-			continue;
-		} else if (trimmedLine.toLowerCase() === '## completed') {
-			currentSection = null;
-			inHabitsSection = false;
-			inCompletedSection = true;
-			currentMonth = null;
+		}
+		lastEntry = null;
+
+		// Section headers; any other level-2 heading ends the current section
+		if (/^##\s/.test(trimmedLine)) {
+			current = { key: SECTION_HEADINGS[trimmedLine.toLowerCase()], heading: line, lines: [] };
+			sections.push(current);
+			inCompletedSection = current.key === 'completed';
 			continue;
 		}
 
-		// Check for month headers within completed section
+		// Month headers within the completed section
 		if (inCompletedSection && trimmedLine.startsWith('###')) {
 			const monthKey = parseMonthHeader(trimmedLine);
 			if (monthKey) {
-				currentMonth = monthKey;
-				if (!completedTasks[currentMonth]) {
-					completedTasks[currentMonth] = [];
-				}
+				current = { key: `month:${monthKey}`, heading: line, lines: [] };
+				sections.push(current);
+				continue;
 			}
-			continue;
 		}
 
-		// Parse habit or task lines
-		if (trimmedLine.startsWith('-')) {
-			if (inHabitsSection) {
-				// Parse as habit (max 3)
-				if (habits.length < 3) {
-					const habit = parseHabitLine(trimmedLine);
-					if (habit) {
-						habits.push(habit);
-					}
-				}
-			} else if (inCompletedSection && currentMonth) {
-				// Parse as completed task (section doesn't matter for archived tasks)
-				const task = parseTaskLine(trimmedLine, 'unscheduled');
-				if (task) {
-					task.completed = true; // Ensure it's marked completed
-					completedTasks[currentMonth].push(task);
-				}
-			} else if (currentSection) {
-				const task = parseTaskLine(trimmedLine, currentSection);
-				if (task) {
-					tasks[currentSection].push(task);
+		// Only unindented checkboxes are tasks or habits
+		let item: Task | DailyHabit | null = null;
+		if (line.startsWith('-') && current.key && current.key !== 'completed') {
+			const monthKey = monthOf(current.key);
+			if (current.key === 'habits') {
+				// Max 3 habits; any beyond that are kept as plain text
+				item = habitCount < 3 ? parseHabitLine(trimmedLine) : null;
+				if (item) habitCount++;
+			} else if (monthKey) {
+				// Section doesn't matter for archived tasks
+				const task = parseTaskLine(trimmedLine, 'unscheduled', format);
+				if (task) task.completed = true; // Ensure it's marked completed
+				item = task;
+			} else {
+				item = parseTaskLine(trimmedLine, current.key as TaskSection, format);
+			}
+		}
+
+		if (item) {
+			lastEntry = { line, children: [], item, hasId: extractBlockId(trimmedLine).id !== undefined };
+			current.lines.push({ entry: lastEntry });
+		} else {
+			current.lines.push({ text: line });
+		}
+	}
+
+	return { frontmatter: frontmatterMatch ? frontmatterMatch[1].split('\n') : null, sections };
+}
+
+const SUBTASK_LINE = /^(\s+)-\s*\[([ xX])\]\s*(.*)$/;
+
+function indentWidth(indent: string): number {
+	return indent.replace(/\t/g, '    ').length;
+}
+
+/**
+ * Builds the subtask tree from the indented checkboxes under a task.
+ * Other indented lines are ignored here; they're kept as written by the serializer.
+ */
+function parseSubtasks(children: string[]): Subtask[] | undefined {
+	const root: Subtask[] = [];
+	const parents: { indent: number; subtask: Subtask }[] = [];
+
+	for (const line of children) {
+		const match = line.match(SUBTASK_LINE);
+		if (!match) continue;
+
+		const indent = indentWidth(match[1]);
+		while (parents.length > 0 && parents[parents.length - 1].indent >= indent) {
+			parents.pop();
+		}
+
+		const subtask: Subtask = { title: match[3].trim(), completed: match[2].toLowerCase() === 'x' };
+		const parent = parents[parents.length - 1]?.subtask;
+		if (parent) {
+			parent.subtasks = [...(parent.subtasks ?? []), subtask];
+		} else {
+			root.push(subtask);
+		}
+		parents.push({ indent, subtask });
+	}
+
+	return root.length > 0 ? root : undefined;
+}
+
+/**
+ * Lists subtasks depth-first, the order they appear in the file
+ */
+function flattenSubtasks(subtasks: Subtask[] = [], depth = 0): { subtask: Subtask; depth: number }[] {
+	return subtasks.reduce<{ subtask: Subtask; depth: number }[]>(
+		(flat, subtask) => flat.concat([{ subtask, depth }], flattenSubtasks(subtask.subtasks, depth + 1)),
+		[],
+	);
+}
+
+/**
+ * Counts completed and total subtasks at every level, e.g. for a "2/5" progress label
+ */
+export function countSubtasks(subtasks: Subtask[] = []): { done: number; total: number } {
+	const flat = flattenSubtasks(subtasks);
+	return { done: flat.filter(({ subtask }) => subtask.completed).length, total: flat.length };
+}
+
+function serializeSubtask(subtask: Subtask, indent: string): string {
+	return `${indent}- [${subtask.completed ? 'x' : ' '}] ${subtask.title}`;
+}
+
+/**
+ * Reads a task's notes from the indented lines under it that aren't checkboxes,
+ * with their shared indentation removed
+ */
+function parseNotes(children: string[]): string | undefined {
+	const lines = children.filter(line => !SUBTASK_LINE.test(line));
+	const indents = lines.filter(line => line.trim()).map(line => line.match(/^\s*/)![0]);
+	if (indents.length === 0) return undefined;
+
+	let shared = indents[0];
+	for (const indent of indents) {
+		while (!indent.startsWith(shared)) shared = shared.slice(0, -1);
+	}
+
+	return lines
+		.map(line => (line.trim() ? line.slice(shared.length) : ''))
+		.join('\n')
+		.replace(/^\n+|\n+$/g, '');
+}
+
+function serializeNotes(notes: string | undefined): string[] {
+	return notes ? notes.split('\n').map(line => `\t${line}`) : [];
+}
+
+/**
+ * Writes the lines under a task. Notes are kept as written unless they changed, in which
+ * case they're rewritten above the checklist. Checkboxes whose shape is unchanged are updated
+ * in place (keeping their indentation), otherwise the checklist is rewritten after the notes.
+ */
+function serializeTaskChildren(children: string[], task: Task): string[] {
+	if ((parseNotes(children) ?? '') !== (task.notes ?? '')) {
+		children = [...serializeNotes(task.notes), ...children.filter(line => SUBTASK_LINE.test(line))];
+	}
+
+	const flat = flattenSubtasks(task.subtasks);
+	const previous = flattenSubtasks(parseSubtasks(children));
+
+	if (previous.length === flat.length && previous.every((entry, i) => entry.depth === flat[i].depth)) {
+		let index = 0;
+		return children.map(line => {
+			const match = line.match(SUBTASK_LINE);
+			if (!match) return line;
+			const { subtask } = flat[index];
+			const old = previous[index++].subtask;
+			return old.title === subtask.title && old.completed === subtask.completed ? line : serializeSubtask(subtask, match[1]);
+		});
+	}
+
+	return [
+		...children.filter(line => !SUBTASK_LINE.test(line)),
+		...flat.map(({ subtask, depth }) => serializeSubtask(subtask, '\t'.repeat(depth + 1))),
+	];
+}
+
+/**
+ * Parses the entire task file content into FocusData
+ */
+export function parseTaskFile(content: string, options: TaskFileOptions = {}): FocusData {
+	const { weekOf, goals, habitResetDate } = parseFrontmatter(content);
+	const document = parseTaskDocument(content, options.format ?? 'focus');
+
+	const habits: DailyHabit[] = [];
+	const tasks: FocusData['tasks'] = {
+		immediate: [],
+		thisWeek: [],
+		unscheduled: [],
+	};
+
+	const completedTasks: Record<string, Task[]> = {};
+
+	for (const section of document.sections) {
+		const monthKey = monthOf(section.key);
+		if (monthKey && !completedTasks[monthKey]) {
+			completedTasks[monthKey] = [];
+		}
+
+		for (const line of section.lines) {
+			if (!('entry' in line)) continue;
+			if (section.key === 'habits') {
+				habits.push(line.entry.item as DailyHabit);
+			} else {
+				const task = line.entry.item as Task;
+				const subtasks = parseSubtasks(line.entry.children);
+				if (subtasks) task.subtasks = subtasks;
+				const notes = parseNotes(line.entry.children);
+				if (notes) task.notes = notes;
+
+				if (monthKey) {
+					completedTasks[monthKey].push(task);
+				} else {
+					tasks[section.key as TaskSection].push(task);
 				}
 			}
 		}
@@ -273,22 +689,52 @@ export function parseTaskFile(content: string): FocusData {
 }
 
 /**
- * Serializes a Task to markdown format
+ * Serializes a Task to markdown format.
+ * In the Obsidian Tasks formats the Focus-only markers (⏰ 🎯 📄 🔗) come first,
+ * because Tasks only reads its own fields from the end of the line.
  */
-function serializeTask(task: Task, includeCompletedAt = false): string {
+export function serializeTask(task: Task, includeCompletedAt = false, format: TaskFormat = 'focus'): string {
 	const checkbox = task.completed ? '[x]' : '[ ]';
-	const datePart = task.doDate ? ` 📅 ${task.doDate}` : '';
-	const timePart = task.doTime ? ` ⏰ ${task.doTime}` : '';
-	const recurrencePart = task.recurrence
-		? ` 🔁 ${task.recurrence.type}:${task.recurrence.interval}${
-			task.recurrence.type === 'weeks' && task.recurrence.dayOfWeek != null ? ':' + task.recurrence.dayOfWeek : ''
-		}${
-			task.recurrence.type === 'months' && task.recurrence.dayOfMonth != null ? ':' + task.recurrence.dayOfMonth : ''
-		}`
-		: '';
-	const completedPart = includeCompletedAt && task.completedAt ? ` ✅ ${task.completedAt}` : '';
-	const urlPart = task.url ? ` 🔗 ${task.url}` : '';
-	return `- ${checkbox} ${task.title}${datePart}${timePart}${recurrencePart}${completedPart}${urlPart}`;
+	const completedAt = includeCompletedAt ? task.completedAt : undefined;
+	const parts: string[] = [task.title];
+
+	const focusOnlyParts: string[] = [];
+	if (task.goalId) focusOnlyParts.push(`🎯 ${task.goalId}`);
+	if (task.sourceFile) {
+		focusOnlyParts.push(`📄 ${task.sourceFile}${task.sourceLine != null ? ':' + task.sourceLine : ''}`);
+	}
+	if (task.url) focusOnlyParts.push(`🔗 ${task.url}`);
+
+	if (format === 'focus') {
+		if (task.priority) parts.push(PRIORITY_EMOJI[task.priority]);
+		if (task.doDate) parts.push(`📅 ${task.doDate}`);
+		if (task.doTime) parts.push(`⏰ ${task.doTime}`);
+		if (task.recurrence) parts.push(`🔁 ${formatFocusRecurrence(task.recurrence)}`);
+		if (task.startDate) parts.push(`🛫 ${task.startDate}`);
+		if (task.dueDate) parts.push(`[due:: ${task.dueDate}]`);
+		if (completedAt) parts.push(`✅ ${completedAt}`);
+		parts.push(...focusOnlyParts);
+	} else if (format === 'tasks') {
+		if (task.doTime) parts.push(`⏰ ${task.doTime}`);
+		parts.push(...focusOnlyParts);
+		if (task.priority) parts.push(PRIORITY_EMOJI[task.priority]);
+		if (task.recurrence) parts.push(`🔁 ${formatRecurrenceRule(task.recurrence)}`);
+		if (task.startDate) parts.push(`🛫 ${task.startDate}`);
+		if (task.doDate) parts.push(`⏳ ${task.doDate}`);
+		if (task.dueDate) parts.push(`📅 ${task.dueDate}`);
+		if (completedAt) parts.push(`✅ ${completedAt}`);
+	} else {
+		if (task.doTime) parts.push(`⏰ ${task.doTime}`);
+		parts.push(...focusOnlyParts);
+		if (task.priority) parts.push(`[priority:: ${task.priority}]`);
+		if (task.recurrence) parts.push(`[repeat:: ${formatRecurrenceRule(task.recurrence)}]`);
+		if (task.startDate) parts.push(`[start:: ${task.startDate}]`);
+		if (task.doDate) parts.push(`[scheduled:: ${task.doDate}]`);
+		if (task.dueDate) parts.push(`[due:: ${task.dueDate}]`);
+		if (completedAt) parts.push(`[completion:: ${completedAt}]`);
+	}
+
+	return `- ${checkbox} ${parts.join(' ')} ^${task.id}`;
 }
 
 /**
@@ -308,81 +754,269 @@ function formatMonthHeader(monthKey: string): string {
  */
 function serializeHabit(habit: DailyHabit): string {
 	const checkbox = habit.completedToday ? '[x]' : '[ ]';
-	return `- ${checkbox} ${habit.title}`;
+	return `- ${checkbox} ${habit.title} ^${habit.id}`;
 }
 
 /**
- * Serializes FocusData back to markdown format
+ * Frontmatter keys Focus writes, with their lines, in the order they're written
  */
-export function serializeTaskFile(data: FocusData): string {
-	const lines: string[] = [];
+function frontmatterFields(data: FocusData): [string, string[]][] {
+	return [
+		['weekOf', [`weekOf: ${data.weekOf}`]],
+		['habitResetDate', [`habitResetDate: ${data.habitResetDate}`]],
+		['goals', data.goals.length > 0 ? ['goals:', ...data.goals.map(goal => `  - ${goal.title} ^${goal.id}`)] : ['goals: []']],
+	];
+}
 
-	// Frontmatter
-	lines.push('---');
-	lines.push(`weekOf: ${data.weekOf}`);
-	lines.push(`habitResetDate: ${data.habitResetDate}`);
-	if (data.goals.length > 0) {
-		lines.push('goals:');
-		for (const goal of data.goals) {
-			lines.push(`  - ${goal.title}`);
-		}
-	} else {
-		lines.push('goals: []');
-	}
-	lines.push('---');
-	lines.push('');
+/**
+ * Rewrites the frontmatter keys Focus manages in place, keeping any other keys as written
+ */
+function mergeFrontmatter(lines: string[], data: FocusData): string[] {
+	const fields = new Map(frontmatterFields(data));
+	const written = new Set<string>();
+	const merged: string[] = [];
+	let skippingValue = false;
 
-	// Daily Habits section (only if there are habits)
-	if (data.habits && data.habits.length > 0) {
-		lines.push('## Daily Habits');
-		for (const habit of data.habits) {
-			lines.push(serializeHabit(habit));
+	for (const line of lines) {
+		const keyMatch = line.match(/^([^\s#-][^:]*):/);
+		if (keyMatch) {
+			const key = keyMatch[1].trim();
+			skippingValue = fields.has(key);
+			if (skippingValue) {
+				// A repeated key is dropped along with its value
+				if (!written.has(key)) merged.push(...fields.get(key)!);
+				written.add(key);
+				continue;
+			}
+		} else if (skippingValue && line.trim() && (/^\s/.test(line) || line.startsWith('-'))) {
+			// The old value (e.g. the goals list) of a key we just rewrote
+			continue;
+		} else {
+			skippingValue = false;
 		}
-		lines.push('');
+		merged.push(line);
 	}
 
-	// Immediate section
-	lines.push('## Immediate');
-	for (const task of data.tasks.immediate) {
-		lines.push(serializeTask(task));
+	for (const [key, fieldLines] of fields) {
+		if (!written.has(key)) merged.push(...fieldLines);
 	}
-	lines.push('');
+	return merged;
+}
+
+const SECTION_ORDER: SectionKey[] = ['habits', 'immediate', 'thisWeek', 'unscheduled', 'completed'];
+
+const SECTION_TITLES: Record<string, string> = {
+	habits: '## Daily Habits',
+	immediate: '## Immediate',
+	thisWeek: '## This week',
+	unscheduled: '## Unscheduled',
+	completed: '## Completed',
+};
 
-	// This week section
-	lines.push('## This week');
-	for (const task of data.tasks.thisWeek) {
-		lines.push(serializeTask(task));
+/**
+ * Position of a managed section in the order Focus writes them
+ */
+function sectionRank(key: SectionKey): number {
+	return monthOf(key) ? SECTION_ORDER.length : SECTION_ORDER.indexOf(key);
+}
+
+function sectionHeading(key: SectionKey): string {
+	const monthKey = monthOf(key);
+	return monthKey ? `### ${formatMonthHeader(monthKey)}` : SECTION_TITLES[key];
+}
+
+function isBlankLine(line: DocumentLine): boolean {
+	return 'text' in line && line.text.trim() === '';
+}
+
+/**
+ * Serializes FocusData back to markdown format.
+ * With `options.previous`, the result is merged into the existing file: prose, extra headings,
+ * indented lines under tasks and unknown frontmatter keys stay where they were, and task
+ * lines whose content didn't change are kept exactly as written.
+ */
+export function serializeTaskFile(data: FocusData, options: TaskFileOptions = {}): string {
+	const format = options.format ?? 'focus';
+	const document: TaskDocument = options.previous !== undefined
+		? parseTaskDocument(options.previous, format)
+		: { frontmatter: [], sections: [{ lines: [{ text: '' }, { text: '' }] }] };
+
+	const render = (key: SectionKey, item: Task | DailyHabit): string =>
+		key === 'habits' ? serializeHabit(item as DailyHabit) : serializeTask(item as Task, monthOf(key) !== null, format);
+
+	// What each managed section should contain, in the order Focus writes them
+	const wanted = new Map<SectionKey, (Task | DailyHabit)[]>();
+	if (data.habits && data.habits.length > 0) {
+		wanted.set('habits', data.habits);
+	}
+	for (const section of TASK_SECTIONS) {
+		wanted.set(section, data.tasks[section]);
+	}
+	const completedTasks = data.completedTasks || {};
+	const monthKeys = Object.keys(completedTasks)
+		.filter(key => completedTasks[key] && completedTasks[key].length > 0)
+		.sort()
+		.reverse(); // Most recent first
+	if (monthKeys.length > 0) {
+		wanted.set('completed', []);
+		for (const monthKey of monthKeys) {
+			wanted.set(`month:${monthKey}`, completedTasks[monthKey]);
+		}
 	}
-	lines.push('');
 
-	// Unscheduled section
-	lines.push('## Unscheduled');
-	for (const task of data.tasks.unscheduled) {
-		lines.push(serializeTask(task));
+	// Pair each item with the line it was read from: by ID, or by content for lines that had no ID yet
+	const signature = (key: SectionKey, item: Task | DailyHabit): string =>
+		`${key === 'habits' ? 'habit' : 'task'}:${render(key, { ...item, id: '' })}`;
+	const entryKeys = new Map<DocumentEntry, SectionKey>();
+	const byId = new Map<string, DocumentEntry[]>();
+	const bySignature = new Map<string, DocumentEntry[]>();
+	for (const section of document.sections) {
+		for (const line of section.lines) {
+			if (!('entry' in line) || !section.key) continue;
+			const { entry } = line;
+			const index = entry.hasId ? byId : bySignature;
+			const lookup = entry.hasId ? entry.item.id : signature(section.key, entry.item);
+			index.set(lookup, [...(index.get(lookup) ?? []), entry]);
+			entryKeys.set(entry, section.key);
+		}
 	}
-	lines.push('');
+	const sourceOf = new Map<Task | DailyHabit, DocumentEntry>();
+	wanted.forEach((items, key) => {
+		for (const item of items) {
+			const entry = byId.get(item.id)?.shift() ?? bySignature.get(signature(key, item))?.shift();
+			if (entry) sourceOf.set(item, entry);
+		}
+	});
 
-	// Completed section (archived by month)
-	const completedTasks = data.completedTasks || {};
-	const monthKeys = Object.keys(completedTasks).sort().reverse(); // Most recent first
+	const renderSection = (key: SectionKey | undefined, section: DocumentSection | undefined, items: (Task | DailyHabit)[]): string[] => {
+		const heading = section ? section.heading : sectionHeading(key!);
+		const lines: string[] = heading !== undefined ? [heading] : [];
+		const sectionLines = section ? section.lines : [];
 
-	if (monthKeys.length > 0) {
-		lines.push('## Completed');
-		lines.push('');
+		// Trailing blank lines stay at the end of the section
+		let tailStart = sectionLines.length;
+		while (tailStart > 0 && isBlankLine(sectionLines[tailStart - 1])) tailStart--;
 
-		for (const monthKey of monthKeys) {
-			const tasks = completedTasks[monthKey];
-			if (tasks && tasks.length > 0) {
-				lines.push(`### ${formatMonthHeader(monthKey)}`);
-				for (const task of tasks) {
-					lines.push(serializeTask(task, true));
+		// Other text follows the nearest entry above it that is still written here
+		const emitted = new Set(items.map(item => sourceOf.get(item)));
+		const anchored = new Map<DocumentEntry | null, string[]>([[null, []]]);
+		let anchor: DocumentEntry | null = null;
+		for (const line of sectionLines.slice(0, tailStart)) {
+			if ('entry' in line) {
+				if (emitted.has(line.entry)) {
+					anchor = line.entry;
+					anchored.set(anchor, []);
 				}
-				lines.push('');
+				continue;
 			}
+			anchored.get(anchor)!.push(line.text);
+		}
+
+		lines.push(...anchored.get(null)!);
+		for (const item of items) {
+			const line = render(key!, item);
+			const entry = sourceOf.get(item);
+			const children = entry ? entry.children : [];
+			const childLines = key === 'habits' ? children : serializeTaskChildren(children, item as Task);
+			if (!entry) {
+				lines.push(line, ...childLines);
+				continue;
+			}
+			// Lines whose content didn't change are kept exactly as written
+			const unchanged = entry.hasId && render(entryKeys.get(entry)!, entry.item) === line;
+			lines.push(unchanged ? entry.line : line, ...childLines, ...(anchored.get(entry) ?? []));
+		}
+
+		for (const line of sectionLines.slice(tailStart)) {
+			if ('text' in line) lines.push(line.text);
+		}
+		if (!section) lines.push('');
+		return lines;
+	};
+
+	// The first section in the file with a given key is where its items are written
+	const homes = new Map<SectionKey, DocumentSection>();
+	for (const section of document.sections) {
+		if (section.key && wanted.has(section.key) && !homes.has(section.key)) {
+			homes.set(section.key, section);
+		}
+	}
+
+	// Archived months are always written together, right under the completed heading
+	const renderManaged = (key: SectionKey): string[] => {
+		const lines = renderSection(key, homes.get(key), wanted.get(key)!);
+		if (key === 'completed') {
+			wanted.forEach((items, monthKey) => {
+				if (monthOf(monthKey)) lines.push(...renderSection(monthKey, homes.get(monthKey), items));
+			});
 		}
+		return lines;
+	};
+
+	// Rewrite the sections already in the file, in their current order
+	const rendered: { key?: SectionKey; lines: string[] }[] = [];
+	for (const section of document.sections) {
+		const key = section.key;
+		if (key && homes.get(key) === section) {
+			if (!monthOf(key)) rendered.push({ key, lines: renderManaged(key) });
+			continue;
+		}
+		// A managed section with nothing left in it is removed, unless it holds text of its own
+		if (key && section.lines.every(line => 'entry' in line || line.text.trim() === '')) continue;
+		rendered.push({ key, lines: renderSection(key, section, []) });
+	}
+
+	// Add missing sections after the last one that comes before them
+	wanted.forEach((items, key) => {
+		if (homes.has(key) || monthOf(key)) return;
+		let index = -1;
+		rendered.forEach((section, i) => {
+			if (section.key && sectionRank(section.key) < sectionRank(key)) index = i + 1;
+		});
+		if (index === -1) {
+			index = rendered.findIndex(section => section.key !== undefined && sectionRank(section.key) > sectionRank(key));
+		}
+		if (index === -1) index = rendered.length;
+		rendered.splice(index, 0, { key, lines: renderManaged(key) });
+	});
+
+	const frontmatter = mergeFrontmatter(document.frontmatter ?? [], data);
+	const body = rendered.reduce<string[]>((lines, section) => lines.concat(section.lines), []);
+	return `---\n${frontmatter.join('\n')}\n---${document.frontmatter ? '' : '\n'}${body.join('\n')}`;
+}
+
+/**
+ * Checks whether any task, habit or goal was given a freshly generated ID while parsing,
+ * i.e. the file predates persisted IDs and should be written back once
+ */
+export function hasUnpersistedIds(data: FocusData, content: string): boolean {
+	const ids: string[] = [...data.habits.map(h => h.id), ...data.goals.map(g => g.id)];
+	for (const section of ['immediate', 'thisWeek', 'unscheduled'] as TaskSection[]) {
+		ids.push(...data.tasks[section].map(t => t.id));
+	}
+	for (const tasks of Object.values(data.completedTasks || {})) {
+		ids.push(...tasks.map(t => t.id));
 	}
+	return ids.some(id => !content.includes(`^${id}`));
+}
 
-	return lines.join('\n');
+/**
+ * Serializes one archived month as a file of its own: the same "## Completed"
+ * section the task file uses, holding just that month
+ */
+export function serializeArchiveFile(monthKey: string, tasks: Task[], format: TaskFormat = 'focus'): string {
+	const lines = ['## Completed', '', `### ${formatMonthHeader(monthKey)}`];
+	for (const task of tasks) {
+		lines.push(serializeTask(task, true, format), ...serializeTaskChildren([], task));
+	}
+	return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Parses an archive file back into its tasks, by month
+ */
+export function parseArchiveFile(content: string, format: TaskFormat = 'focus'): Record<string, Task[]> {
+	return parseTaskFile(content, { format }).completedTasks;
 }
 
 /**
@@ -404,15 +1038,74 @@ export function createDefaultTaskFile(): string {
 	});
 }
 
+/**
+ * A date as an ISO date string, in local time
+ */
+export function toISODate(date: Date): string {
+	return `${date.getFullYear()}-${('0' + (date.getMonth() + 1)).slice(-2)}-${('0' + date.getDate()).slice(-2)}`;
+}
+
 /**
  * Gets the current week's Monday date in ISO format
  */
-export function getCurrentWeekStart(): string {
-	const now = new Date();
+export function getCurrentWeekStart(now: Date = new Date()): string {
 	const day = now.getDay();
 	const diff = now.getDate() - day + (day === 0 ? -6 : 1); // Adjust for Sunday
-	const monday = new Date(now.setDate(diff));
-	return monday.toISOString().split('T')[0];
+	// Built and formatted in local time, so the week turns over at local midnight
+	return toISODate(new Date(now.getFullYear(), now.getMonth(), diff));
+}
+
+/**
+ * Tasks moved by a weekly rollover, by destination
+ */
+export interface RolloverSummary {
+	toThisWeek: Task[];
+	toUnscheduled: Task[];
+}
+
+/**
+ * Whether the task file still belongs to an earlier week. `weekOf` only ever moves
+ * forward, so once any device has rolled the file over this is false everywhere.
+ */
+export function needsWeeklyRollover(data: FocusData, weekStart: string = getCurrentWeekStart()): boolean {
+	return data.weekOf < weekStart;
+}
+
+/**
+ * Rolls incomplete tasks over into the week starting `weekStart` and stamps `weekOf`.
+ * This Week empties into Unscheduled before Immediate empties into This Week,
+ * so a task moves down at most one section per rollover.
+ */
+export function rollOverWeek(
+	data: FocusData,
+	options: { immediateToThisWeek: boolean; thisWeekToUnscheduled: boolean },
+	weekStart: string = getCurrentWeekStart()
+): RolloverSummary {
+	const summary: RolloverSummary = { toThisWeek: [], toUnscheduled: [] };
+
+	if (options.thisWeekToUnscheduled) {
+		summary.toUnscheduled = data.tasks.thisWeek.filter(t => !t.completed);
+		for (const task of summary.toUnscheduled) {
+			task.section = 'unscheduled';
+			data.tasks.unscheduled.push(task);
+		}
+		data.tasks.thisWeek = data.tasks.thisWeek.filter(t => t.completed);
+	}
+
+	if (options.immediateToThisWeek) {
+		summary.toThisWeek = data.tasks.immediate.filter(t => !t.completed);
+		for (const task of summary.toThisWeek) {
+			task.section = 'thisWeek';
+			data.tasks.thisWeek.push(task);
+		}
+		data.tasks.immediate = data.tasks.immediate.filter(t => t.completed);
+	}
+
+	if (weekStart > data.weekOf) {
+		data.weekOf = weekStart;
+	}
+
+	return summary;
 }
 
 /**
@@ -436,12 +1129,13 @@ export function computeNextRecurrenceDate(recurrence: Recurrence, fromDate?: str
 			base.setDate(base.getDate() + recurrence.interval * 7);
 			break;
 		case 'months': {
+			const targetDay = recurrence.dayOfMonth ?? base.getDate();
+			// Step from the 1st so e.g. Jan 31 doesn't overflow past February
+			base.setDate(1);
 			base.setMonth(base.getMonth() + recurrence.interval);
-			if (recurrence.dayOfMonth != null) {
-				// Clamp to last day of the target month
-				const lastDay = new Date(base.getFullYear(), base.getMonth() + 1, 0).getDate();
-				base.setDate(Math.min(recurrence.dayOfMonth, lastDay));
-			}
+			// Clamp to last day of the target month
+			const lastDay = new Date(base.getFullYear(), base.getMonth() + 1, 0).getDate();
+			base.setDate(Math.min(targetDay, lastDay));
 			break;
 		}
 	}
@@ -11,8 +11,34 @@ export interface Task {
 	doDate?: string; // ISO date: "2026-01-27" - when to be reminded
 	doTime?: string; // 24h time: "14:30"
 	recurrence?: Recurrence; // Recurring task rule
+	dueDate?: string; // ISO date: hard deadline (Obsidian Tasks 📅 / [due:: ])
+	startDate?: string; // ISO date: not actionable before (Obsidian Tasks 🛫 / [start:: ])
+	priority?: TaskPriority; // Obsidian Tasks priority (🔺 ⏫ 🔼 🔽 ⏬)
+	subtasks?: Subtask[]; // Checklist written as indented checkboxes under the task
+	notes?: string; // Multi-line description, written as an indented block under the task
 }
 
+/**
+ * A checklist item under a task. Subtasks live inside their parent,
+ * so they never count toward a section's task limit.
+ */
+export interface Subtask {
+	title: string;
+	completed: boolean;
+	subtasks?: Subtask[]; // Nested checklist items
+}
+
+export type TaskPriority = 'highest' | 'high' | 'medium' | 'low' | 'lowest';
+
+/**
+ * Syntax used when writing task metadata.
+ * - focus: Focus's own markers (📅 is the reminder date)
+ * - tasks: Obsidian Tasks emoji format (⏳ is the reminder date, 📅 the due date)
+ * - dataview: Obsidian Tasks dataview format ([scheduled:: ], [due:: ], ...)
+ * All three are always accepted when reading.
+ */
+export type TaskFormat = 'focus' | 'tasks' | 'dataview';
+
 export type RecurrenceType = 'days' | 'weeks' | 'months';
 
 export interface Recurrence {
@@ -24,6 +50,15 @@ export interface Recurrence {
 
 export type TaskSection = 'immediate' | 'thisWeek' | 'unscheduled';
 
+/**
+ * Section names as headings, settings and logs show them
+ */
+export const SECTION_NAMES: Record<TaskSection, string> = {
+	immediate: 'Immediate',
+	thisWeek: 'This Week',
+	unscheduled: 'Unscheduled',
+};
+
 export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday, 6 = Saturday
 
 export const DAY_NAMES: Record<DayOfWeek, string> = {
@@ -63,9 +98,63 @@ export interface FocusData {
 
 export type VaultSyncMode = 'off' | 'all' | 'tag';
 
+/**
+ * What vault sync does with a task whose line was removed from its note
+ * - keep: the task stays in Focus as an orphan, no longer linked to the note
+ * - delete: the task is deleted from Focus too
+ */
+export type SourceLineRemoval = 'keep' | 'delete';
+
+/**
+ * What happens to a note's line when its task is deleted in Focus
+ */
+export type SourceTaskDeletion = 'keep' | 'strike' | 'delete';
+
+/**
+ * Fields written back from Focus into a synced task's line in its note.
+ * `section` adds a tag like `#focus/immediate`.
+ */
+export type SourceWriteField = 'title' | 'doDate' | 'recurrence' | 'section';
+
+/**
+ * What an import rule looks at in a task pulled in by vault sync
+ * - tag: the title has the tag in `value`, or one nested under it
+ * - folder: the note's path matches the folder or glob in `value`
+ * - text: the title contains `value`
+ * - dateToday / dateThisWeek: the do date (or due date) is today or earlier / in the current week
+ */
+export type ImportRuleMatch = 'tag' | 'folder' | 'text' | 'dateToday' | 'dateThisWeek';
+
+/**
+ * Routes tasks newly imported by vault sync. Rules are tried in order and the first
+ * that matches decides.
+ */
+export interface ImportRule {
+	match: ImportRuleMatch;
+	value: string; // Tag, folder or text; unused by the date conditions
+	section: TaskSection;
+	goal: string; // Title of a weekly goal to link the task to (empty = none)
+}
+
+/**
+ * What each dated task becomes in the exported calendar file
+ * - event: a VEVENT, shown by every calendar app
+ * - todo: a VTODO, for apps with a task list
+ */
+export type IcsComponent = 'event' | 'todo';
+
+/**
+ * What happens to a task when its to-do is deleted in the CalDAV calendar
+ * - keep: keep the task and stop syncing it
+ * - complete: complete the task
+ * - delete: delete the task
+ */
+export type CalDavDeletion = 'keep' | 'complete' | 'delete';
+
 export interface FocusPluginSettings {
 	// File settings
 	taskFilePath: string;
+	taskFormat: TaskFormat;
 
 	// Task limits
 	maxImmediateTasks: number;
@@ -81,7 +170,36 @@ export interface FocusPluginSettings {
 	// Vault sync
 	vaultSyncMode: VaultSyncMode;
 	vaultSyncTag: string;
-	vaultSyncFolders: string[]; // Empty = all folders
+	vaultSyncFormat: TaskFormat; // How task lines in notes are read and written back, apart from the task file
+	vaultSyncFolders: string[]; // Folders or globs to read (empty = all folders)
+	vaultSyncExcludeFolders: string[]; // Folders or globs never read
+	vaultSyncRemovedLines: SourceLineRemoval;
+	vaultSyncDeletedTasks: SourceTaskDeletion;
+	vaultSyncWriteBack: SourceWriteField[];
+	vaultSyncRules: ImportRule[];
+
+	// Inbox capture
+	inboxEnabled: boolean;
+	inboxFilePath: string; // File other tools append task lines to
+	inboxSection: TaskSection; // Where imported tasks go
+	inboxCreateNotes: boolean; // Create notes for [[links]] in imported tasks
+	inboxLogPath: string; // Processed log (empty = no log)
+
+	// Calendar export
+	icsExportEnabled: boolean;
+	icsExportPath: string; // .ics file in the vault, rewritten on every save
+	icsComponent: IcsComponent;
+	icsAlarmMinutes: number | null; // Alarm before timed tasks (null = no alarm)
+
+	// Calendar sync (CalDAV)
+	caldavEnabled: boolean;
+	caldavServerUrl: string;
+	caldavUsername: string;
+	caldavPassword: string;
+	caldavCalendarUrl: string; // Found by discovery
+	caldavAlarmMinutes: number | null; // Alarm before timed tasks (null = no alarm)
+	caldavSyncMinutes: number; // How often to fetch changes
+	caldavDeletedTodos: CalDavDeletion;
 
 	// Rollover behavior
 	rolloverImmediateToThisWeek: boolean;
@@ -90,6 +208,10 @@ export interface FocusPluginSettings {
 	// Display options
 	hideCompletedTasks: boolean;
 
+	// Archive
+	archiveAfterMonths: number; // Completed months older than this many go to archive files (0 = never)
+	archiveFolder: string;
+
 	// Periodic notes
 	dailyNotesFolder: string;
 	dailyNotesFormat: string;
@@ -108,6 +230,7 @@ export interface FocusPluginSettings {
 
 export const DEFAULT_SETTINGS: FocusPluginSettings = {
 	taskFilePath: 'focus-tasks.md',
+	taskFormat: 'focus',
 	maxImmediateTasks: 5,
 	planningReminderEnabled: true,
 	planningReminderDay: 0, // Sunday
@@ -115,10 +238,35 @@ export const DEFAULT_SETTINGS: FocusPluginSettings = {
 	endOfDayReviewTime: '21:00',
 	vaultSyncMode: 'off',
 	vaultSyncTag: '#focus',
+	vaultSyncFormat: 'tasks',
 	vaultSyncFolders: [],
+	vaultSyncExcludeFolders: [],
+	vaultSyncRemovedLines: 'keep',
+	vaultSyncDeletedTasks: 'keep',
+	vaultSyncWriteBack: ['title', 'doDate', 'recurrence'],
+	vaultSyncRules: [],
+	inboxEnabled: false,
+	inboxFilePath: 'focus-inbox.md',
+	inboxSection: 'unscheduled',
+	inboxCreateNotes: false,
+	inboxLogPath: 'focus-inbox-log.md',
+	icsExportEnabled: false,
+	icsExportPath: 'focus.ics',
+	icsComponent: 'event',
+	icsAlarmMinutes: 15,
+	caldavEnabled: false,
+	caldavServerUrl: '',
+	caldavUsername: '',
+	caldavPassword: '',
+	caldavCalendarUrl: '',
+	caldavAlarmMinutes: 15,
+	caldavSyncMinutes: 5,
+	caldavDeletedTodos: 'keep',
 	rolloverImmediateToThisWeek: true,
 	rolloverThisWeekToUnscheduled: true,
 	hideCompletedTasks: false,
+	archiveAfterMonths: 0,
+	archiveFolder: 'focus-archive',
 	dailyNotesFolder: '',
 	dailyNotesFormat: 'YYYY-MM-DD',
 	dailyNotesTemplate: '',
@@ -0,0 +1,97 @@
+import { FocusData, Recurrence, Task, TaskSection } from './types';
+import { parseRecurrenceRule } from './taskParser';
+import { parseQuickAdd } from './quickAddParser';
+
+/**
+ * The `obsidian://` actions Focus registers, e.g.
+ * `obsidian://focus-add?title=Call%20Sam&date=tomorrow&section=immediate`
+ */
+export const URI_ACTIONS = {
+	add: 'focus-add',
+	complete: 'focus-complete',
+	open: 'focus-open',
+} as const;
+
+/**
+ * A task to add, read from a `focus-add` URI
+ */
+export interface UriTask {
+	title: string;
+	section: TaskSection;
+	url?: string;
+	doDate?: string;
+	doTime?: string;
+	recurrence?: Recurrence;
+}
+
+const SECTION_PARAMS: Record<string, TaskSection> = {
+	immediate: 'immediate',
+	now: 'immediate',
+	thisweek: 'thisWeek',
+	'this-week': 'thisWeek',
+	week: 'thisWeek',
+	unscheduled: 'unscheduled',
+	backlog: 'unscheduled',
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads the parameters of a `focus-add` URI. The title is read like quick add, so
+ * "Call Sam tomorrow at 3pm" works on its own; `date`, `time`, `repeat` and `url`
+ * override what the title says. `date` takes an ISO date or a phrase like "friday".
+ * @returns The task, or an error message naming the parameter that couldn't be read
+ */
+export function parseAddParams(params: Record<string, string | undefined>, now: Date = new Date()): UriTask | { error: string } {
+	const parsed = parseQuickAdd(params.title ?? '', now);
+	if (!parsed.title) return { error: 'a title is needed' };
+
+	const task: UriTask = {
+		title: parsed.title,
+		section: 'unscheduled',
+		url: parsed.url,
+		doDate: parsed.doDate,
+		doTime: parsed.doTime,
+		recurrence: parsed.recurrence,
+	};
+
+	if (params.section) {
+		const section = SECTION_PARAMS[params.section.trim().toLowerCase()];
+		if (!section) return { error: `unknown section "${params.section}"` };
+		task.section = section;
+	}
+
+	if (params.date) {
+		const date = params.date.trim();
+		const phrase = ISO_DATE.test(date) ? { doDate: date, doTime: undefined } : parseQuickAdd(date, now);
+		if (!phrase.doDate) return { error: `unrecognised date "${params.date}"` };
+		task.doDate = phrase.doDate;
+		if (phrase.doTime) task.doTime = phrase.doTime;
+	}
+
+	if (params.time) {
+		const match = params.time.trim().match(/^(\d{1,2}):(\d{2})$/);
+		if (!match || parseInt(match[1]) > 23 || parseInt(match[2]) > 59) return { error: `unrecognised time "${params.time}"` };
+		task.doTime = `${('0' + match[1]).slice(-2)}:${match[2]}`;
+	}
+
+	if (params.repeat) {
+		const recurrence = parseRecurrenceRule(params.repeat);
+		if (!recurrence) return { error: `unrecognised repeat "${params.repeat}"` };
+		task.recurrence = recurrence;
+	}
+
+	if (params.url) task.url = params.url.trim();
+	return task;
+}
+
+/**
+ * The open tasks a `focus-complete` URI names: by `id`, or else by title (ignoring case)
+ */
+export function findUriTasks(data: FocusData, params: Record<string, string | undefined>): Task[] {
+	const tasks = [...data.tasks.immediate, ...data.tasks.thisWeek, ...data.tasks.unscheduled].filter(t => !t.completed);
+	if (params.id) return tasks.filter(t => t.id === params.id);
+
+	const title = params.title?.trim().toLowerCase();
+	return title ? tasks.filter(t => t.title.trim().toLowerCase() === title) : [];
+}
@@ -0,0 +1,503 @@
+import { FocusData, SourceLineRemoval, SourceWriteField, Task, TaskFormat, TaskSection } from './types';
+import { generateId, parseTaskLine, serializeTask } from './taskParser';
+
+const SECTIONS: TaskSection[] = ['immediate', 'thisWeek', 'unscheduled'];
+
+// Matches both completed and uncompleted checkboxes: - [ ] or - [x]
+const CHECKBOX_LINE = /^\s*-\s*\[([xX\s])\]\s*(.+)$/;
+
+// A block ID at the end of a line, whether ours or the user's
+const TRAILING_BLOCK_ID = /\s\^[A-Za-z0-9-]+\s*$/;
+
+/**
+ * Source tasks are linked to their Focus task by a block ID written at the end of
+ * the line: `- [ ] Follow up ^focus-k3j9x2a1b`, where `k3j9x2a1b` is the task's ID
+ */
+const ANCHOR_PREFIX = 'focus-';
+
+/**
+ * The task fields a note's line decides. A change to one of them in the note is copied to the task.
+ */
+export type SourceFields = Pick<Task, 'title' | 'url' | 'doDate' | 'doTime' | 'recurrence' | 'dueDate' | 'startDate' | 'priority'>;
+
+const SOURCE_FIELDS: (keyof SourceFields)[] = ['title', 'url', 'doDate', 'doTime', 'recurrence', 'dueDate', 'startDate', 'priority'];
+
+/**
+ * How each field is named in messages
+ */
+export const SOURCE_FIELD_NAMES: Record<keyof SourceFields, string> = {
+	title: 'title',
+	url: 'link',
+	doDate: 'date',
+	doTime: 'time',
+	recurrence: 'repeat',
+	dueDate: 'due date',
+	startDate: 'start date',
+	priority: 'priority',
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The task fields each write-back choice covers
+ */
+const WRITE_FIELDS: Record<Exclude<SourceWriteField, 'section'>, (keyof SourceFields)[]> = {
+	title: ['title'],
+	doDate: ['doDate', 'doTime'],
+	recurrence: ['recurrence'],
+};
+
+/**
+ * Tags written into a note's line to show which Focus section its task is in
+ */
+const SECTION_TAGS: Record<TaskSection, string> = {
+	immediate: '#focus/immediate',
+	thisWeek: '#focus/this-week',
+	unscheduled: '#focus/unscheduled',
+};
+
+const SECTION_TAG = /(?:^|\s+)#focus\/(?:immediate|this-week|unscheduled)(?=\s|$)/g;
+
+/**
+ * A checkbox found in a note
+ */
+export interface SourceTask {
+	line: number; // 0-based line number
+	text: string; // The line as read, to find it again when writing
+	completed: boolean;
+	parsed: Task; // Title and metadata as read from the line
+	anchor?: string; // ID of the Focus task the line is linked to
+}
+
+/**
+ * What the index remembers about a checkbox in a note
+ */
+export interface IndexedTask {
+	line: number;
+	completed: boolean;
+	fields: SourceFields; // As last read, to tell edits made in the note from edits made in Focus
+	id?: string; // ID of the Focus task the line is linked to
+}
+
+/**
+ * The checkboxes found in each note at its last scan, so notes that haven't changed
+ * since (same mtime) aren't read again
+ */
+export interface VaultIndex {
+	filter: string; // Sync mode and tag the index was built with; a change means a rescan
+	files: Record<string, { mtime: number; tasks: IndexedTask[] }>;
+}
+
+/**
+ * A link to write into a note: the line to give a `^focus-<id>` anchor
+ */
+export interface SourceAnchor {
+	line: number;
+	text: string;
+	id: string;
+}
+
+/**
+ * The result of applying one note's checkboxes to the task data
+ */
+export interface SourceSyncResult {
+	added: number;
+	newTasks: Task[]; // The tasks added to the backlog
+	completions: number;
+	updated: number; // Tasks whose fields were changed in the note
+	anchors: SourceAnchor[]; // Lines that still need their anchor written
+	tasks: IndexedTask[]; // The note's checkboxes, for the index
+}
+
+/**
+ * The anchor ID at the end of a line (`^focus-<id>`), if it has one
+ */
+export function anchorOf(line: string): string | undefined {
+	const id = parseTaskLine(line.trim(), 'unscheduled')?.id;
+	return id?.startsWith(ANCHOR_PREFIX) ? id.slice(ANCHOR_PREFIX.length) : undefined;
+}
+
+/**
+ * Adds a `^focus-<id>` anchor to the end of a line
+ * @returns The anchored line, or null if the line already ends in a block ID of its own
+ */
+export function addAnchor(line: string, id: string): string | null {
+	if (TRAILING_BLOCK_ID.test(line)) return null;
+	return `${line.trimEnd()} ^${ANCHOR_PREFIX}${id}`;
+}
+
+/**
+ * Finds the checkboxes in a note
+ * @param tag - Only checkboxes containing this tag are returned
+ */
+export function scanNoteTasks(content: string, format: TaskFormat, tag?: string): SourceTask[] {
+	const tasks: SourceTask[] = [];
+	content.split('\n').forEach((text, line) => {
+		const match = text.match(CHECKBOX_LINE);
+		if (!match) return;
+		if (tag && !match[2].includes(tag)) return;
+
+		// Read dates, priority and recurrence written in the vault's task dialect
+		const parsed = parseTaskLine(text.trim(), 'unscheduled', format);
+		if (!parsed) return;
+
+		const anchor = parsed.id.startsWith(ANCHOR_PREFIX) ? parsed.id.slice(ANCHOR_PREFIX.length) : undefined;
+		tasks.push({ line, text, completed: match[1].toLowerCase() === 'x', parsed, anchor });
+	});
+	return tasks;
+}
+
+/**
+ * Turns a glob into a regular expression over a whole path: `*` and `?` stay within
+ * a folder name, `**` crosses folders
+ */
+function globToRegExp(glob: string): RegExp {
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*' && glob[i + 1] === '*') {
+			// `**/` may also match no folder at all
+			if (glob[i + 2] === '/') {
+				source += '(?:.*/)?';
+				i += 2;
+			} else {
+				source += '.*';
+				i += 1;
+			}
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a path matches a folder or glob pattern. A pattern without wildcards is a
+ * folder (or file) path, and a pattern matching a folder matches everything in it:
+ * `Templates`, `Templates/` and `**\/Templates` all match `Templates/Daily.md`.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+	const glob = pattern.trim().replace(/^\.?\/+/, '').replace(/\/+$/, '');
+	if (!glob) return false;
+	if (!/[*?]/.test(glob)) {
+		return path === glob || path.startsWith(`${glob}/`);
+	}
+
+	const regex = globToRegExp(glob);
+	const parts = path.split('/');
+	for (let i = 1; i <= parts.length; i++) {
+		if (regex.test(parts.slice(0, i).join('/'))) return true;
+	}
+	return false;
+}
+
+/**
+ * Whether vault sync reads a note: it must match an include pattern (when there are
+ * any) and no exclude pattern
+ */
+export function inSyncScope(path: string, include: string[], exclude: string[]): boolean {
+	const patterns = (list: string[]) => list.filter(pattern => pattern.trim());
+	const included = patterns(include);
+	if (included.length > 0 && !included.some(pattern => matchesGlob(path, pattern))) return false;
+	return !patterns(exclude).some(pattern => matchesGlob(path, pattern));
+}
+
+/**
+ * Whether a note opts out of vault sync with `focus: false` in its frontmatter
+ */
+export function optsOutOfSync(frontmatter: Record<string, unknown> | undefined): boolean {
+	const value = frontmatter?.focus;
+	return value === false || (typeof value === 'string' && value.trim().toLowerCase() === 'false');
+}
+
+/**
+ * Finds a task's line in its source note: by its anchor, or else (for lines written
+ * before anchors, or whose anchor was removed) by title, nearest the line it was last seen on
+ * @returns The 0-based line number, or -1 if the task isn't in the note
+ */
+export function findSourceLine(lines: string[], task: Task, format: TaskFormat): number {
+	const anchored = lines.findIndex(line => CHECKBOX_LINE.test(line) && anchorOf(line) === task.id);
+	if (anchored > -1) return anchored;
+
+	const lastSeen = (task.sourceLine ?? 1) - 1;
+	let found = -1;
+	lines.forEach((line, index) => {
+		if (!CHECKBOX_LINE.test(line) || anchorOf(line)) return;
+		const parsed = parseTaskLine(line.trim(), 'unscheduled', format);
+		if (!parsed || withoutSectionTag(parsed.title) !== withoutSectionTag(task.title)) return;
+		if (found === -1 || Math.abs(index - lastSeen) < Math.abs(found - lastSeen)) {
+			found = index;
+		}
+	});
+	return found;
+}
+
+/**
+ * A title without the section tags Focus writes; they aren't part of the title
+ */
+function withoutSectionTag(title: string): string {
+	return title.replace(SECTION_TAG, '').trim();
+}
+
+/**
+ * The title and metadata of a parsed line
+ */
+function sourceFields(task: Task): SourceFields {
+	const fields: SourceFields = { title: withoutSectionTag(task.title) };
+	for (const key of SOURCE_FIELDS) {
+		if (key !== 'title' && task[key] !== undefined) copyField(fields, key, task[key]);
+	}
+	return fields;
+}
+
+function copyField<K extends keyof SourceFields>(target: SourceFields, key: K, value: SourceFields[K]): void {
+	if (value === undefined) {
+		delete target[key];
+	} else {
+		target[key] = value;
+	}
+}
+
+/**
+ * Applies the checkboxes of one note to the task data: anchored lines update their
+ * task, unanchored ones are matched to a task from the same note with the same title
+ * or else added to the backlog (when not yet done). Tasks whose line has no anchor
+ * yet are returned in `anchors`.
+ * @param previous - The note's checkboxes at the last scan. Only fields that changed in
+ *   the note since then are copied, so edits made in Focus aren't undone by a rescan.
+ */
+export function applySourceTasks(data: FocusData, path: string, sourceTasks: SourceTask[], previous: IndexedTask[] = []): SourceSyncResult {
+	const result: SourceSyncResult = { added: 0, newTasks: [], completions: 0, updated: 0, anchors: [], tasks: [] };
+	const lastRead = new Map(previous.filter(entry => entry.id && entry.fields).map(entry => [entry.id!, entry.fields]));
+
+	const active = new Map<string, Task>();
+	for (const section of SECTIONS) {
+		for (const task of data.tasks[section]) active.set(task.id, task);
+	}
+	const known = new Set(active.keys());
+	for (const tasks of Object.values(data.completedTasks)) {
+		for (const task of tasks) known.add(task.id);
+	}
+
+	// Tasks that a line of this note already speaks for
+	const claimed = new Set(sourceTasks.map(source => source.anchor).filter((id): id is string => !!id));
+
+	const link = (task: Task, source: SourceTask, fields: SourceFields): void => {
+		task.sourceFile = path;
+		task.sourceLine = source.line + 1;
+		if (task.completed !== source.completed) {
+			task.completed = source.completed;
+			result.completions++;
+		}
+
+		const before = lastRead.get(task.id);
+		let updated = false;
+		for (const key of SOURCE_FIELDS) {
+			if (before && sameValue(before[key], fields[key])) continue;
+			if (!sameValue(task[key], fields[key])) {
+				copyField(task, key, fields[key]);
+				updated = true;
+			}
+		}
+		if (updated) result.updated++;
+	};
+
+	for (const source of sourceTasks) {
+		const fields = sourceFields(source.parsed);
+		const entry: IndexedTask = { line: source.line, completed: source.completed, fields };
+		result.tasks.push(entry);
+
+		if (source.anchor) {
+			// Anchored: the task it belongs to, if it's still in Focus
+			const task = active.get(source.anchor);
+			if (task) link(task, source, fields);
+			if (known.has(source.anchor)) entry.id = source.anchor;
+			continue;
+		}
+
+		// Written before anchors: the unclaimed task from this note with the same title, nearest first
+		let match: Task | undefined;
+		active.forEach((task) => {
+			if (claimed.has(task.id) || task.sourceFile !== path || task.title !== fields.title) return;
+			const distance = (t: Task) => Math.abs((t.sourceLine ?? 0) - 1 - source.line);
+			if (!match || distance(task) < distance(match)) match = task;
+		});
+
+		if (match) {
+			link(match, source, fields);
+		} else if (!source.completed) {
+			match = {
+				...fields,
+				id: generateId(),
+				completed: false,
+				section: 'unscheduled',
+				sourceFile: path,
+				sourceLine: source.line + 1,
+			};
+			data.tasks.unscheduled.push(match);
+			active.set(match.id, match);
+			result.added++;
+			result.newTasks.push(match);
+		} else {
+			continue;
+		}
+
+		claimed.add(match.id);
+		entry.id = match.id;
+		result.anchors.push({ line: source.line, text: source.text, id: match.id });
+	}
+
+	return result;
+}
+
+/**
+ * Writes anchors into a note's lines. A line that moved since it was read is found by its text.
+ * @returns Whether any line changed
+ */
+export function writeAnchors(lines: string[], anchors: SourceAnchor[]): boolean {
+	let changed = false;
+	for (const anchor of anchors) {
+		const index = lines[anchor.line] === anchor.text ? anchor.line : lines.indexOf(anchor.text);
+		if (index === -1) continue;
+
+		const anchored = addAnchor(lines[index], anchor.id);
+		if (anchored) {
+			lines[index] = anchored;
+			changed = true;
+		}
+	}
+	return changed;
+}
+
+/**
+ * Deals with tasks whose line was removed from its note: either deleted from Focus
+ * or kept as orphans, no longer linked to a note
+ * @returns How many tasks were deleted or unlinked
+ */
+export function removeSourceTasks(data: FocusData, ids: Set<string>, action: SourceLineRemoval): number {
+	let count = 0;
+	for (const section of SECTIONS) {
+		data.tasks[section] = data.tasks[section].filter((task) => {
+			if (!ids.has(task.id) || !task.sourceFile) return true;
+			count++;
+			if (action === 'delete') return false;
+
+			delete task.sourceFile;
+			delete task.sourceLine;
+			return true;
+		});
+	}
+	return count;
+}
+
+/**
+ * Tasks from notes that were deleted in Focus between two versions of the data
+ * (completing or archiving a task doesn't count)
+ */
+export function deletedSourceTasks(before: FocusData, after: FocusData): Task[] {
+	const remaining = new Set<string>();
+	for (const section of SECTIONS) {
+		for (const task of after.tasks[section]) remaining.add(task.id);
+	}
+	for (const tasks of Object.values(after.completedTasks)) {
+		for (const task of tasks) remaining.add(task.id);
+	}
+
+	return SECTIONS
+		.flatMap(section => before.tasks[section])
+		.filter(task => task.sourceFile && !task.completed && !remaining.has(task.id));
+}
+
+/**
+ * Removes or strikes through the anchored line of a task deleted in Focus. Only the
+ * anchored line is touched, never a line that merely has the same title.
+ * @returns Whether the line changed
+ */
+export function removeSourceLine(lines: string[], id: string, action: 'strike' | 'delete'): boolean {
+	const index = lines.findIndex(line => CHECKBOX_LINE.test(line) && anchorOf(line) === id);
+	if (index === -1) return false;
+
+	if (action === 'delete') {
+		lines.splice(index, 1);
+		return true;
+	}
+
+	const match = lines[index].match(/^(\s*-\s*\[[xX\s]\]\s*)(.*?)(\s+\^[A-Za-z0-9-]+\s*)$/);
+	if (!match || match[2].startsWith('~~')) return false;
+	lines[index] = `${match[1]}~~${match[2]}~~${match[3]}`;
+	return true;
+}
+
+/**
+ * Active source tasks whose written-back fields were changed between two versions of the data
+ */
+export function editedSourceTasks(before: FocusData, after: FocusData, fields: SourceWriteField[]): Task[] {
+	const previous = new Map<string, Task>();
+	for (const section of SECTIONS) {
+		for (const task of before.tasks[section]) previous.set(task.id, task);
+	}
+
+	const keys = fields.flatMap(field => field === 'section' ? [] : WRITE_FIELDS[field]);
+	return SECTIONS.flatMap(section => after.tasks[section]).filter((task) => {
+		const old = previous.get(task.id);
+		if (!task.sourceFile || !old) return false;
+		return keys.some(key => !sameValue(old[key], task[key])) ||
+			(fields.includes('section') && old.section !== task.section);
+	});
+}
+
+/**
+ * The outcome of writing a task's fields into its line
+ */
+export interface WriteBackResult {
+	text: string; // The line to write; the same line if nothing changed
+	fields: SourceFields; // The line's fields after the write, for the index
+	conflicts: (keyof SourceFields)[]; // Fields left alone because the note changed them too
+}
+
+/**
+ * Writes a task's chosen fields into its line in a note. A field that was changed in
+ * the note since it was last read (`lastRead`) is left as the note has it: the next
+ * sync copies it to Focus instead. Without `lastRead` nothing can be told apart, so
+ * every differing field counts as a conflict.
+ */
+export function writeBackLine(line: string, task: Task, lastRead: SourceFields | undefined, fields: SourceWriteField[], format: TaskFormat): WriteBackResult {
+	const parsed = parseTaskLine(line.trim(), 'unscheduled', format);
+	const prefix = line.match(/^\s*-\s*\[[^\]]\]\s*/);
+	if (!parsed || !prefix) return { text: line, fields: lastRead ?? { title: task.title }, conflicts: [] };
+
+	const current = sourceFields(parsed);
+	const merged: SourceFields = { ...current };
+	const conflicts: (keyof SourceFields)[] = [];
+	let changed = false;
+
+	for (const field of fields) {
+		if (field === 'section') continue;
+		for (const key of WRITE_FIELDS[field]) {
+			if (sameValue(current[key], task[key])) continue;
+			if (!lastRead || !sameValue(lastRead[key], current[key])) {
+				conflicts.push(key);
+				continue;
+			}
+			copyField(merged, key, task[key]);
+			changed = true;
+		}
+	}
+
+	const currentTag = parsed.title.match(SECTION_TAG)?.[0].trim();
+	const tag = fields.includes('section') ? SECTION_TAGS[task.section] : currentTag;
+	if (!changed && tag === currentTag) return { text: line, fields: current, conflicts };
+
+	// The rest of the line (priority, due date, text Focus doesn't know) is kept as read
+	const blockId = TRAILING_BLOCK_ID.test(line) ? parsed.id : `${ANCHOR_PREFIX}${task.id}`;
+	const rebuilt: Task = { ...parsed, ...merged, id: blockId, title: tag ? `${merged.title} ${tag}` : merged.title };
+	for (const key of SOURCE_FIELDS) {
+		if (!(key in merged)) delete rebuilt[key];
+	}
+	const text = prefix[0] + serializeTask(rebuilt, true, format).replace(/^- \[.\] /, '');
+	return { text, fields: merged, conflicts };
+}
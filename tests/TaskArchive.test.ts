@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { ArchiveAdapter, TaskArchive, monthsToArchive } from '../src/TaskArchive';
+import { parseArchiveFile, serializeArchiveFile } from '../src/taskParser';
+import { Task } from '../src/types';
+
+/**
+ * In-memory archive folder, counting reads so lazy loading can be checked
+ */
+class MemoryArchive implements ArchiveAdapter {
+	files = new Map<string, string>();
+	reads = 0;
+	writes = 0;
+
+	async list(): Promise<string[]> {
+		return Array.from(this.files.keys());
+	}
+
+	async read(monthKey: string): Promise<string | null> {
+		this.reads++;
+		return this.files.get(monthKey) ?? null;
+	}
+
+	async write(monthKey: string, content: string): Promise<void> {
+		this.writes++;
+		this.files.set(monthKey, content);
+	}
+}
+
+const done = (id: string, title: string, completedAt: string): Task => ({
+	id, title, completed: true, completedAt, section: 'unscheduled',
+});
+
+describe('monthsToArchive', () => {
+	const months = ['2026-10', '2026-07', '2026-06', '2025-12', '2026-09'];
+	const today = new Date(2026, 9, 19);
+
+	it('keeps the current month and the given number before it', () => {
+		expect(monthsToArchive(months, 3, today)).toEqual(['2025-12', '2026-06']);
+		expect(monthsToArchive(months, 1, today)).toEqual(['2025-12', '2026-06', '2026-07']);
+	});
+
+	it('archives nothing when the policy is off', () => {
+		expect(monthsToArchive(months, 0, today)).toEqual([]);
+	});
+
+	it('counts back across the turn of the year', () => {
+		expect(monthsToArchive(['2025-11', '2025-12'], 1, new Date(2026, 0, 5))).toEqual(['2025-11']);
+	});
+});
+
+describe('archive files', () => {
+	it('round-trip a month in each task format', () => {
+		const tasks: Task[] = [
+			{ ...done('a1', 'Write report', '2026-01-12'), doDate: '2026-01-10', priority: 'high' },
+			{ ...done('a2', 'Pack boxes', '2026-01-20'), notes: 'Ask for tape', subtasks: [{ title: 'Books', completed: true }] },
+		];
+		for (const format of ['focus', 'tasks', 'dataview'] as const) {
+			const content = serializeArchiveFile('2026-01', tasks, format);
+			expect(content.startsWith('## Completed\n\n### January 2026\n')).toBe(true);
+			expect(parseArchiveFile(content, format)).toEqual({ '2026-01': tasks });
+		}
+	});
+});
+
+describe('TaskArchive', () => {
+	it('reads a month only once, when first asked for', async () => {
+		const adapter = new MemoryArchive();
+		adapter.files.set('2026-01', serializeArchiveFile('2026-01', [done('a1', 'Old task', '2026-01-05')]));
+		adapter.files.set('2026-03', serializeArchiveFile('2026-03', [done('b1', 'Newer task', '2026-03-05')]));
+		const archive = new TaskArchive(adapter);
+
+		expect(await archive.months()).toEqual(['2026-03', '2026-01']);
+		expect(archive.cached('2026-01')).toBeUndefined();
+		expect(adapter.reads).toBe(0);
+
+		expect((await archive.load('2026-01')).map(t => t.title)).toEqual(['Old task']);
+		await archive.load('2026-01');
+		expect(adapter.reads).toBe(1);
+	});
+
+	it('keeps one copy of a task archived twice and takes tasks back out', async () => {
+		const adapter = new MemoryArchive();
+		const archive = new TaskArchive(adapter);
+
+		await archive.add('2026-01', [done('a1', 'Old task', '2026-01-05')]);
+		await archive.add('2026-01', [done('a1', 'Old task, renamed', '2026-01-05'), done('a2', 'Other', '2026-01-09')]);
+		expect((await new TaskArchive(adapter).load('2026-01')).map(t => t.title)).toEqual(['Old task, renamed', 'Other']);
+
+		expect(await archive.take('2026-01', 'a1')).toMatchObject({ id: 'a1' });
+		expect(await archive.take('2026-01', 'a1')).toBeUndefined();
+		expect((await new TaskArchive(adapter).load('2026-01')).map(t => t.id)).toEqual(['a2']);
+	});
+
+	it('writes a month only when its tasks change', async () => {
+		const adapter = new MemoryArchive();
+		const archive = new TaskArchive(adapter);
+		const tasks = [done('a1', 'Old task', '2026-01-05'), done('a2', 'Other', '2026-01-09')];
+
+		await archive.add('2026-01', tasks);
+		await archive.add('2026-01', structuredClone(tasks));
+		await archive.set('2026-01', structuredClone(tasks));
+		expect(adapter.writes).toBe(1);
+
+		await archive.set('2026-01', [tasks[1]]);
+		expect(adapter.writes).toBe(2);
+		expect((await new TaskArchive(adapter).load('2026-01')).map(t => t.id)).toEqual(['a2']);
+	});
+});
@@ -0,0 +1,285 @@
+import { describe, it, expect } from 'vitest';
+import { TaskStore, TaskFileAdapter, TaskChangeSource } from '../src/TaskStore';
+import { ArchiveAdapter } from '../src/TaskArchive';
+import { parseArchiveFile, parseTaskFile } from '../src/taskParser';
+
+const FILE = `---
+weekOf: 2026-01-26
+habitResetDate: 2026-01-27
+goals: []
+---
+
+## Immediate
+- [ ] Write report ^a1
+
+## This Week
+- [ ] Call dentist ^b1
+- [ ] Water plants 📅 2026-01-27 🔁 every 3 days ^b2
+  - [x] Fill can
+  - [ ] Check soil
+
+## Unscheduled
+- [ ] Learn piano ^c1
+`;
+
+/**
+ * In-memory task file. Each read and write waits a tick, like the vault does.
+ */
+class MemoryFile implements TaskFileAdapter {
+	content: string | null;
+	writes = 0;
+
+	constructor(content: string | null) {
+		this.content = content;
+	}
+
+	async read(): Promise<string | null> {
+		await new Promise(resolve => setTimeout(resolve, 0));
+		return this.content;
+	}
+
+	async write(content: string): Promise<void> {
+		await new Promise(resolve => setTimeout(resolve, 0));
+		this.content = content;
+		this.writes++;
+	}
+}
+
+/**
+ * In-memory archive folder
+ */
+class MemoryArchive implements ArchiveAdapter {
+	files = new Map<string, string>();
+
+	async list(): Promise<string[]> {
+		return Array.from(this.files.keys());
+	}
+
+	async read(monthKey: string): Promise<string | null> {
+		return this.files.get(monthKey) ?? null;
+	}
+
+	async write(monthKey: string, content: string): Promise<void> {
+		this.files.set(monthKey, content);
+	}
+}
+
+const COMPLETED = `
+## Completed
+
+### October 2026
+- [x] Recent task ✅ 2026-10-02 ^d1
+
+### June 2026
+- [x] Old task ✅ 2026-06-10 ^e1
+- [x] Older task ✅ 2026-06-03 ^e2
+`;
+
+const saved = (file: MemoryFile) => parseTaskFile(file.content!);
+const titles = (tasks: { title: string }[]) => tasks.map(t => t.title);
+
+describe('TaskStore', () => {
+	it('keeps every change when operations overlap', async () => {
+		const file = new MemoryFile(FILE);
+		const store = new TaskStore(file);
+
+		// Started together, as a view and the periodic auto-sort would
+		await Promise.all([
+			store.moveTask('c1', 'thisWeek'),
+			store.deleteTask('a1'),
+			store.updateTask('b1', { doDate: '2026-01-30' }),
+			store.update(undefined, (data) => {
+				data.goals.push({ id: 'g1', title: 'Ship it' });
+			}),
+		]);
+
+		const data = saved(file);
+		expect(data.tasks.immediate).toEqual([]);
+		expect(titles(data.tasks.thisWeek)).toEqual(['Call dentist', 'Water plants', 'Learn piano']);
+		expect(data.tasks.thisWeek[0].doDate).toBe('2026-01-30');
+		expect(data.goals).toEqual([{ id: 'g1', title: 'Ship it' }]);
+	});
+
+	it('picks up edits made to the file before applying a change', async () => {
+		const file = new MemoryFile(FILE);
+		const store = new TaskStore(file);
+		await store.getData();
+
+		file.content = file.content!.replace('- [ ] Learn piano ^c1', '- [ ] Learn piano ^c1\n- [ ] Typed by hand ^c2');
+		await store.moveTask('a1', 'thisWeek');
+
+		expect(titles(saved(file).tasks.unscheduled)).toEqual(['Learn piano', 'Typed by hand']);
+		expect(titles((await store.getData()).tasks.thisWeek)).toContain('Write report');
+	});
+
+	it('tells listeners where each change came from', async () => {
+		const file = new MemoryFile(FILE);
+		const store = new TaskStore(file);
+		const sources: TaskChangeSource[] = [];
+		const unsubscribe = store.onChange((_data, source) => sources.push(source));
+
+		await store.getData();
+		await store.deleteTask('c1');
+		await store.replace({ ...(await store.getData()), weekOf: '2026-02-02' });
+		file.content = file.content!.replace('Call dentist', 'Call the dentist');
+		await store.reload();
+		await store.reload(); // Unchanged: no event
+
+		unsubscribe();
+		await store.deleteTask('b1');
+		expect(sources).toEqual(['local', 'remote', 'file']);
+	});
+
+	it('skips the write when a change leaves the file as it was', async () => {
+		const file = new MemoryFile(FILE);
+		const store = new TaskStore(file);
+
+		await store.update('Nothing', () => undefined);
+		await store.moveTask('missing', 'immediate');
+		expect(file.writes).toBe(0);
+		expect(store.history.takeUndo()).toBeUndefined();
+	});
+
+	it('completes a recurring task into its month and schedules the next one', async () => {
+		const file = new MemoryFile(FILE);
+		const store = new TaskStore(file);
+
+		const result = await store.completeTask('b2', '2026-01-27');
+		expect(result?.task).toMatchObject({ completed: true, completedAt: '2026-01-27' });
+		expect(result?.next).toMatchObject({ title: 'Water plants', doDate: '2026-01-30', section: 'thisWeek' });
+		expect(result?.next?.subtasks?.every(s => !s.completed)).toBe(true);
+
+		const data = saved(file);
+		expect(titles(data.completedTasks['2026-01'])).toEqual(['Water plants']);
+		expect(data.tasks.thisWeek.map(t => t.id)).toEqual(['b1', result?.next?.id]);
+
+		await store.restoreTask('b2');
+		expect(saved(file).completedTasks).toEqual({});
+		expect(titles(saved(file).tasks.thisWeek)).toEqual(['Call dentist', 'Water plants', 'Water plants']);
+	});
+
+	it('reorders, toggles checklist items and undoes through its history', async () => {
+		const file = new MemoryFile(FILE);
+		const store = new TaskStore(file);
+
+		await store.reorderTask('b2', 0);
+		expect(titles(saved(file).tasks.thisWeek)).toEqual(['Water plants', 'Call dentist']);
+
+		const task = await store.toggleSubtask('b2', [1], 'Check off subtask');
+		expect(task?.subtasks?.map(s => s.completed)).toEqual([true, true]);
+
+		expect((await store.undo())?.label).toBe('Check off subtask');
+		expect((await store.undo())?.label).toBe('Reorder task');
+		expect(saved(file).tasks).toEqual(parseTaskFile(FILE).tasks);
+
+		expect((await store.redo())?.label).toBe('Reorder task');
+		expect(titles(saved(file).tasks.thisWeek)).toEqual(['Water plants', 'Call dentist']);
+	});
+
+	it('undoes a change still waiting in the queue', async () => {
+		const file = new MemoryFile(FILE);
+		const store = new TaskStore(file);
+		await store.reorderTask('b2', 0);
+
+		const renamed = store.updateTask('c1', { title: 'Learn cello' }, 'Rename task');
+		const undone = store.undo();
+		await renamed;
+
+		expect((await undone)?.label).toBe('Rename task');
+		expect(titles(saved(file).tasks.unscheduled)).toContain('Learn piano');
+		expect(titles(saved(file).tasks.thisWeek)).toEqual(['Water plants', 'Call dentist']);
+	});
+
+	it('undoes a given change only while it is still the latest', async () => {
+		const file = new MemoryFile(FILE);
+		const store = new TaskStore(file);
+
+		await store.reorderTask('b2', 0);
+		const reorder = store.history.peekUndo();
+		await store.moveTask('c1', 'immediate');
+
+		expect(await store.undo(reorder)).toBeUndefined();
+		expect(titles(saved(file).tasks.immediate)).toContain('Learn piano');
+		await store.undo();
+		expect((await store.undo(reorder))?.label).toBe('Reorder task');
+		expect(saved(file).tasks).toEqual(parseTaskFile(FILE).tasks);
+	});
+
+	it('creates the file on the first change when it is missing', async () => {
+		const file = new MemoryFile(null);
+		const store = new TaskStore(file);
+
+		await store.addTask({ id: 'n1', title: 'First task', completed: false, section: 'unscheduled' });
+		expect(titles(saved(file).tasks.unscheduled)).toEqual(['First task']);
+	});
+
+	it('keeps going after a change throws', async () => {
+		const file = new MemoryFile(FILE);
+		const store = new TaskStore(file);
+
+		const failed = store.update(undefined, () => {
+			throw new Error('boom');
+		});
+		const moved = store.moveTask('c1', 'immediate');
+
+		await expect(failed).rejects.toThrow('boom');
+		expect(await moved).toMatchObject({ id: 'c1', section: 'immediate' });
+	});
+
+	it('moves old completed months to archive files and restores tasks from them', async () => {
+		const file = new MemoryFile(FILE + COMPLETED);
+		const archive = new MemoryArchive();
+		const store = new TaskStore(file, 'focus', archive);
+
+		expect(await store.archiveOldMonths(3, new Date(2026, 9, 19))).toEqual(['2026-06']);
+		expect(Object.keys(saved(file).completedTasks)).toEqual(['2026-10']);
+		expect(titles(parseArchiveFile(archive.files.get('2026-06')!)['2026-06'])).toEqual(['Old task', 'Older task']);
+		expect(titles((await store.getCompletedTasks())['2026-06'])).toEqual(['Old task', 'Older task']);
+
+		const restored = await store.restoreArchivedTask('2026-06', 'e1');
+		expect(restored).toMatchObject({ id: 'e1', completed: false });
+		expect(titles(saved(file).tasks.unscheduled)).toContain('Old task');
+		expect(titles(await store.archive.load('2026-06'))).toEqual(['Older task']);
+
+		// Undoing the restore leaves the task completed in the task file
+		await store.undo();
+		expect(titles(saved(file).completedTasks['2026-06'])).toEqual(['Old task']);
+	});
+
+	it('files archived months pulled from the cloud into their archive files', async () => {
+		const file = new MemoryFile(FILE + COMPLETED);
+		const archive = new MemoryArchive();
+		const store = new TaskStore(file, 'focus', archive);
+		await store.archiveOldMonths(3, new Date(2026, 9, 19));
+
+		const remote = parseTaskFile(FILE + COMPLETED);
+		remote.completedTasks['2026-06'].push({ id: 'e3', title: 'Done on phone', completed: true, completedAt: '2026-06-20', section: 'thisWeek' });
+		await store.replace(remote);
+
+		expect(Object.keys(saved(file).completedTasks)).toEqual(['2026-10']);
+		expect(titles(parseArchiveFile(archive.files.get('2026-06')!)['2026-06'])).toEqual(['Old task', 'Older task', 'Done on phone']);
+
+		// Deleted on another device
+		remote.completedTasks['2026-06'] = remote.completedTasks['2026-06'].filter(t => t.id !== 'e2');
+		await store.replace(remote);
+		expect(titles(parseArchiveFile(archive.files.get('2026-06')!)['2026-06'])).toEqual(['Old task', 'Done on phone']);
+	});
+
+	it('keeps fields the cloud has no columns for when a pull replaces the data', async () => {
+		const file = new MemoryFile(FILE.replace('Call dentist ^b1', 'Call dentist ⏫ 📅 2026-02-01 ^b1'));
+		const store = new TaskStore(file);
+		const before = file.content;
+
+		// The cloud copy has the same tasks, without priority, due date or checklist
+		const remote = structuredClone(await store.getData());
+		for (const task of remote.tasks.thisWeek) {
+			delete task.priority;
+			delete task.dueDate;
+			delete task.subtasks;
+		}
+		await store.replace(remote, ['dueDate', 'priority', 'subtasks']);
+
+		expect(file.content).toBe(before);
+		expect((await store.getData()).tasks.thisWeek[1].subtasks?.length).toBe(2);
+	});
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { FocusApi, API_VERSION } from '../src/api';
+import { TaskStore, TaskFileAdapter } from '../src/TaskStore';
+import { Task } from '../src/types';
+
+const FILE = `---
+weekOf: 2026-10-19
+habitResetDate: 2026-10-19
+goals:
+  - Ship the launch ^g1
+---
+
+## Immediate
+- [ ] Write report ^a1
+
+## This Week
+- [ ] Call dentist 📅 2026-10-19 ^b1
+- [ ] Water plants 📅 2026-10-23 ^b2
+
+## Unscheduled
+- [ ] Overdue chore 📅 2026-10-01 ^c1
+`;
+
+/**
+ * In-memory task file
+ */
+class MemoryFile implements TaskFileAdapter {
+	content: string | null;
+
+	constructor(content: string | null) {
+		this.content = content;
+	}
+
+	async read(): Promise<string | null> {
+		return this.content;
+	}
+
+	async write(content: string): Promise<void> {
+		this.content = content;
+	}
+}
+
+function setup(maxImmediate = 2) {
+	const file = new MemoryFile(FILE);
+	const store = new TaskStore(file);
+	const completed: Task[] = [];
+	const api = new FocusApi(store, {
+		maxImmediateTasks: () => maxImmediate,
+		onCompleted: async (task) => { completed.push(task); },
+	});
+	return { api, store, file, completed };
+}
+
+describe('FocusApi', () => {
+	it('lists tasks by section, as copies', async () => {
+		const { api } = setup();
+		expect(api.version).toBe(API_VERSION);
+		expect((await api.getTasks('thisWeek')).map(t => t.id)).toEqual(['b1', 'b2']);
+		expect((await api.getTasks()).map(t => t.id)).toEqual(['a1', 'b1', 'b2', 'c1']);
+
+		const [task] = await api.getTasks('immediate');
+		task.title = 'Changed';
+		expect((await api.getTask('a1'))?.title).toBe('Write report');
+		expect(await api.getGoals()).toEqual([{ id: 'g1', title: 'Ship the launch' }]);
+	});
+
+	it('gives today\'s focus: Immediate, then tasks dated today or earlier', async () => {
+		const { api } = setup();
+		const focus = await api.getTodayFocus(new Date(2026, 9, 19));
+		expect(focus.map(t => t.id)).toEqual(['a1', 'c1', 'b1']);
+	});
+
+	it('adds tasks through the store and keeps to the Immediate limit', async () => {
+		const { api, store, file } = setup();
+		const task = await api.addTask({ title: ' Call Sam ', section: 'immediate', doDate: '2026-10-20' });
+		expect(task).toMatchObject({ title: 'Call Sam', section: 'immediate', doDate: '2026-10-20', completed: false });
+		expect(file.content).toContain(`- [ ] Call Sam 📅 2026-10-20 ^${task.id}`);
+
+		await expect(api.addTask({ title: 'One too many', section: 'immediate' })).rejects.toThrow('maximum of 2');
+		await expect(api.moveTask('b1', 'immediate')).rejects.toThrow('maximum of 2');
+		await expect(api.addTask({ title: '  ' })).rejects.toThrow('title');
+		expect((await api.getTasks('immediate')).length).toBe(2);
+
+		// Undoable like a change made in the view
+		expect((await store.undo())?.label).toBe('Add task');
+		expect(await api.getTask(task.id)).toBeUndefined();
+	});
+
+	it('lets only one of two moves at once take the last Immediate slot', async () => {
+		const { api } = setup();
+		const moves = await Promise.allSettled([api.moveTask('b1', 'immediate'), api.moveTask('b2', 'immediate')]);
+		expect(moves.map(m => m.status)).toEqual(['fulfilled', 'rejected']);
+		expect((await api.getTasks('immediate')).map(t => t.id)).toEqual(['a1', 'b1']);
+	});
+
+	it('moves, completes and deletes tasks, and tells listeners', async () => {
+		const { api, completed } = setup();
+		const sources: string[] = [];
+		const unsubscribe = api.onChange(change => sources.push(change.source));
+
+		expect(await api.moveTask('c1', 'thisWeek', 0)).toMatchObject({ section: 'thisWeek' });
+		expect((await api.getTasks('thisWeek')).map(t => t.id)).toEqual(['c1', 'b1', 'b2']);
+
+		const result = await api.completeTask('b1');
+		expect(result.task).toMatchObject({ id: 'b1', completed: true });
+		expect(completed.map(t => t.id)).toEqual(['b1']);
+		await expect(api.completeTask('b1')).rejects.toThrow('no task with ID b1');
+
+		expect((await api.deleteTask('b2')).title).toBe('Water plants');
+		await expect(api.deleteTask('b2')).rejects.toThrow('no task with ID b2');
+
+		unsubscribe();
+		await api.deleteTask('a1');
+		expect(sources).toEqual(['local', 'local', 'local']);
+	});
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import { CalDavClient, CalDavError, CalDavRequest, CalDavResponse } from '../src/caldavClient';
+
+const BASE = 'https://dav.example.com';
+const CALENDAR = '/calendars/sam/tasks/';
+
+/**
+ * In-process CalDAV server: one principal, one home with a task calendar and an
+ * events-only calendar, and sync tokens that count changes
+ */
+class MockCalDavServer {
+	objects = new Map<string, { etag: string; ics: string; version: number }>();
+	tombstones = new Map<string, number>(); // Path → version it was deleted at
+	version = 1;
+	oldestToken = 1; // Tokens before this are refused, as after a server cleanup
+	omitCalendarData = false; // Sync reports with ETags only, like some servers
+	requests: CalDavRequest[] = [];
+
+	transport = async (request: CalDavRequest): Promise<CalDavResponse> => {
+		this.requests.push(request);
+		// The UTF-8 bytes of "sam:pässword"
+		if (request.headers.Authorization !== `Basic ${btoa('sam:p\u00c3\u00a4ssword')}`) {
+			return { status: 401, headers: {}, text: '' };
+		}
+
+		const path = new URL(request.url).pathname;
+		const body = request.body ?? '';
+		switch (request.method) {
+			case 'PROPFIND':
+				return this.propfind(path, body);
+			case 'REPORT':
+				if (!body.includes('sync-collection')) return this.multiget(body);
+				// RFC 6578 3.2: a sync report with any other depth is a bad request
+				if (request.headers.Depth !== '0') return { status: 400, headers: {}, text: '' };
+				return this.syncCollection(body);
+			case 'PUT':
+				return this.put(path, request.headers, body);
+			case 'DELETE':
+				return this.delete(path, request.headers);
+		}
+	};
+
+	private propfind(path: string, body: string): CalDavResponse {
+		if (body.includes('current-user-principal')) {
+			return multistatus(`<d:response><d:href>${path}</d:href><d:propstat><d:prop><d:current-user-principal><d:href>/principals/sam/</d:href></d:current-user-principal></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`);
+		}
+		if (body.includes('calendar-home-set')) {
+			return multistatus(`<d:response><d:href>/principals/sam/</d:href><d:propstat><d:prop><cal:calendar-home-set><d:href>${BASE}/calendars/sam/</d:href></cal:calendar-home-set></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`);
+		}
+		return multistatus(
+			'<d:response><d:href>/calendars/sam/</d:href><d:propstat><d:prop><d:resourcetype><d:collection/></d:resourcetype></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>' +
+			`<d:response><d:href>${CALENDAR}</d:href><d:propstat><d:prop><d:displayname>Tasks &amp; chores</d:displayname><d:resourcetype><d:collection/><cal:calendar/></d:resourcetype>` +
+			'<cal:supported-calendar-component-set><cal:comp name="VTODO"/></cal:supported-calendar-component-set></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>' +
+			'<d:response><d:href>/calendars/sam/work/</d:href><d:propstat><d:prop><d:displayname>Work</d:displayname><d:resourcetype><d:collection/><cal:calendar/></d:resourcetype>' +
+			'<cal:supported-calendar-component-set><cal:comp name="VEVENT"/></cal:supported-calendar-component-set></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>'
+		);
+	}
+
+	private put(path: string, headers: Record<string, string>, ics: string): CalDavResponse {
+		const existing = this.objects.get(path);
+		if (headers['If-None-Match'] === '*' && existing) return { status: 412, headers: {}, text: '' };
+		if (headers['If-Match'] && headers['If-Match'] !== existing?.etag) return { status: 412, headers: {}, text: '' };
+
+		const version = ++this.version;
+		const etag = `"v${version}"`;
+		this.objects.set(path, { etag, ics, version });
+		this.tombstones.delete(path);
+		return { status: existing ? 204 : 201, headers: { etag }, text: '' };
+	}
+
+	private delete(path: string, headers: Record<string, string>): CalDavResponse {
+		const existing = this.objects.get(path);
+		if (!existing) return { status: 404, headers: {}, text: '' };
+		if (headers['If-Match'] && headers['If-Match'] !== existing.etag) return { status: 412, headers: {}, text: '' };
+
+		this.objects.delete(path);
+		this.tombstones.set(path, ++this.version);
+		return { status: 204, headers: {}, text: '' };
+	}
+
+	private syncCollection(body: string): CalDavResponse {
+		const token = body.match(/<d:sync-token>(?:http:\/\/example\.com\/sync\/)?(\d*)<\/d:sync-token>/)![1];
+		const since = token ? parseInt(token, 10) : 0;
+		if (token && since < this.oldestToken) {
+			return { status: 403, headers: {}, text: '<d:error xmlns:d="DAV:"><d:valid-sync-token/></d:error>' };
+		}
+
+		const responses = [...this.objects]
+			.filter(([, object]) => object.version > since)
+			.map(([path, object]) => this.objectResponse(path, object.etag, this.omitCalendarData ? null : object.ics));
+		if (since > 0) {
+			for (const [path, version] of this.tombstones) {
+				if (version > since) responses.push(`<d:response><d:href>${path}</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>`);
+			}
+		}
+		return multistatus(`${responses.join('')}<d:sync-token>http://example.com/sync/${this.version}</d:sync-token>`);
+	}
+
+	private multiget(body: string): CalDavResponse {
+		const paths = (body.match(/<d:href>[^<]+<\/d:href>/g) ?? []).map(href => href.slice('<d:href>'.length, -'</d:href>'.length));
+		return multistatus(paths.map((path) => {
+			const object = this.objects.get(path);
+			return object
+				? this.objectResponse(path, object.etag, object.ics)
+				: `<d:response><d:href>${path}</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>`;
+		}).join(''));
+	}
+
+	private objectResponse(path: string, etag: string, ics: string | null): string {
+		const data = ics === null ? '' : `<cal:calendar-data>${ics.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</cal:calendar-data>`;
+		return `<d:response><d:href>${path}</d:href><d:propstat><d:prop><d:getetag>${etag.replace(/"/g, '&quot;')}</d:getetag>${data}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+	}
+}
+
+function multistatus(responses: string): CalDavResponse {
+	return {
+		status: 207,
+		headers: { 'content-type': 'application/xml' },
+		text: `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">${responses}</d:multistatus>`,
+	};
+}
+
+const todo = (uid: string, status = 'NEEDS-ACTION') =>
+	`BEGIN:VCALENDAR\r\nVERSION:2.0\r\nBEGIN:VTODO\r\nUID:${uid}\r\nSUMMARY:Fish & chips\r\nSTATUS:${status}\r\nEND:VTODO\r\nEND:VCALENDAR\r\n`;
+
+function setup() {
+	const server = new MockCalDavServer();
+	const client = new CalDavClient('dav.example.com', 'sam', 'pässword', server.transport);
+	return { server, client, calendar: `${BASE}${CALENDAR}` };
+}
+
+describe('CalDavClient', () => {
+	it('finds the calendars that can hold to-dos', async () => {
+		const { client } = setup();
+		expect(await client.discoverCalendars()).toEqual([{ url: `${BASE}${CALENDAR}`, name: 'Tasks & chores' }]);
+	});
+
+	it('reports bad credentials', async () => {
+		const { server } = setup();
+		const client = new CalDavClient(BASE, 'sam', 'wrong', server.transport);
+		const error = await client.discoverCalendars().catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(CalDavError);
+		expect((error as CalDavError).status).toBe(401);
+		expect((error as Error).message).toContain('wrong username or password');
+	});
+
+	it('creates, replaces and deletes to-dos without overwriting changes', async () => {
+		const { server, client, calendar } = setup();
+		const href = `${calendar}a1.ics`;
+
+		const etag = await client.putTodo(href, todo('a1@focus'));
+		expect(server.objects.get(`${CALENDAR}a1.ics`)?.ics).toBe(todo('a1@focus'));
+		await expect(client.putTodo(href, todo('a1@focus'))).rejects.toMatchObject({ status: 412 });
+
+		const newer = await client.putTodo(href, todo('a1@focus', 'IN-PROCESS'), etag);
+		expect(newer).not.toBe(etag);
+		await expect(client.putTodo(href, todo('a1@focus'), etag)).rejects.toMatchObject({ status: 412 });
+		// An unknown ETag replaces whatever is there
+		await client.putTodo(href, todo('a1@focus'), '');
+
+		await client.deleteTodo(href);
+		expect(server.objects.size).toBe(0);
+		await client.deleteTodo(href); // Already gone
+	});
+
+	it('fetches what changed since a sync token', async () => {
+		const { server, client, calendar } = setup();
+		await client.putTodo(`${calendar}a1.ics`, todo('a1@focus'));
+		await client.putTodo(`${calendar}b1.ics`, todo('b1@focus'));
+
+		const first = await client.getChanges(calendar, '');
+		expect(first.changed.map(c => c.href).sort()).toEqual([`${calendar}a1.ics`, `${calendar}b1.ics`]);
+		expect(first.changed[0].ics).toContain('SUMMARY:Fish & chips');
+		expect(first.changed[0].etag).toMatch(/^"v\d+"$/);
+		expect(first.deleted).toEqual([]);
+
+		// Completed and deleted in a calendar app
+		const b1 = server.objects.get(`${CALENDAR}b1.ics`)!;
+		await client.putTodo(`${calendar}b1.ics`, todo('b1@focus', 'COMPLETED'), b1.etag);
+		await client.deleteTodo(`${calendar}a1.ics`);
+
+		const second = await client.getChanges(calendar, first.token);
+		expect(second.changed.map(c => c.ics)).toEqual([todo('b1@focus', 'COMPLETED')]);
+		expect(second.deleted).toEqual([`${calendar}a1.ics`]);
+
+		const third = await client.getChanges(calendar, second.token);
+		expect(third).toEqual({ token: second.token, changed: [], deleted: [] });
+	});
+
+	it('starts over when the server refuses an old token', async () => {
+		const { server, client, calendar } = setup();
+		await client.putTodo(`${calendar}a1.ics`, todo('a1@focus'));
+		const { token } = await client.getChanges(calendar, '');
+
+		server.oldestToken = server.version + 1;
+		const changes = await client.getChanges(calendar, token);
+		expect(changes.changed.map(c => c.href)).toEqual([`${calendar}a1.ics`]);
+		// The first sync, the refused one, and the one without a token
+		expect(server.requests.filter(r => r.method === 'REPORT').length).toBe(3);
+	});
+
+	it('fetches calendar data the sync report left out', async () => {
+		const { server, client, calendar } = setup();
+		await client.putTodo(`${calendar}a1.ics`, todo('a1@focus'));
+		server.omitCalendarData = true;
+
+		const changes = await client.getChanges(calendar, '');
+		expect(changes.changed).toEqual([{ href: `${calendar}a1.ics`, etag: server.objects.get(`${CALENDAR}a1.ics`)!.etag, ics: todo('a1@focus') }]);
+		expect(server.requests.filter(r => r.method === 'REPORT').length).toBe(2);
+	});
+});
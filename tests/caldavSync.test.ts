@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { CalDavState, emptyCalDavState, hashCalendar, parseTodo, planPull, planPush, todoHref } from '../src/caldavSync';
+import { buildTaskCalendar } from '../src/icsExport';
+import { FocusData, Task } from '../src/types';
+
+const CALENDAR = 'https://dav.example.com/calendars/sam/tasks/';
+const now = new Date(Date.UTC(2026, 9, 19, 8, 30, 0));
+
+const data = (tasks: Task[], completed: Task[] = []): FocusData => ({
+	weekOf: '2026-10-19',
+	goals: [],
+	habits: [],
+	habitResetDate: '2026-10-19',
+	tasks: { immediate: [], thisWeek: tasks, unscheduled: [] },
+	completedTasks: completed.length > 0 ? { '2026-10': completed } : {},
+});
+
+const call: Task = { id: 'a1', title: 'Call Sam', completed: false, section: 'thisWeek', doDate: '2026-10-20', doTime: '14:30' };
+const plants: Task = {
+	id: 'b1', title: 'Water plants', completed: false, section: 'thisWeek',
+	doDate: '2026-10-21', recurrence: { type: 'weeks', interval: 1 },
+};
+const someday: Task = { id: 'c1', title: 'Someday', completed: false, section: 'thisWeek' };
+
+const todo = (uid: string, status: string, extra = '') =>
+	`BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nUID:${uid}\r\nSTATUS:${status}\r\n${extra}END:VTODO\r\nEND:VCALENDAR\r\n`;
+
+/**
+ * State after `tasks` were written to the calendar
+ */
+function synced(tasks: Task[]): CalDavState {
+	const state = emptyCalDavState(CALENDAR);
+	for (const task of tasks) {
+		const ics = buildTaskCalendar(task, { component: 'todo', alarmMinutes: 15, singleOccurrence: true, now });
+		state.items[task.id] = { href: todoHref(CALENDAR, task.id), etag: `"${task.id}"`, hash: hashCalendar(ics) };
+	}
+	return state;
+}
+
+describe('parseTodo', () => {
+	it('reads the UID, status and completion date of the to-do', () => {
+		const ics = todo('a1@focus', 'COMPLETED', 'COMPLETED:20261018T101500Z\r\nBEGIN:VALARM\r\nSTATUS:NEEDS-ACTION\r\nEND:VALARM\r\n');
+		expect(parseTodo(ics)).toEqual({ uid: 'a1@focus', completed: true, completedAt: '2026-10-18' });
+		expect(parseTodo(todo('x@elsewhere', 'NEEDS-ACTION'))).toEqual({ uid: 'x@elsewhere', completed: false });
+		expect(parseTodo('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:e\r\nEND:VEVENT\r\nEND:VCALENDAR')).toBeNull();
+	});
+});
+
+describe('planPush', () => {
+	it('writes a to-do for each open dated task, one occurrence at a time', () => {
+		const plan = planPush(data([call, plants, someday]), emptyCalDavState(CALENDAR), { alarmMinutes: 15, now });
+		expect(plan.put.map(p => [p.taskId, p.href, p.etag])).toEqual([
+			['a1', `${CALENDAR}a1.ics`, undefined],
+			['b1', `${CALENDAR}b1.ics`, undefined],
+		]);
+		expect(plan.put[0].ics).toContain('UID:a1@focus');
+		expect(plan.put[0].ics).toContain('TRIGGER;RELATED=END:-PT15M');
+		expect(plan.put[1].ics).not.toContain('RRULE');
+		expect(plan.remove).toEqual([]);
+	});
+
+	it('rewrites only changed tasks, against the ETag last seen', () => {
+		const state = synced([call, plants]);
+		const moved = { ...call, doDate: '2026-10-22' };
+		const plan = planPush(data([moved, plants]), state, { alarmMinutes: 15, now: new Date() });
+		expect(plan.put.map(p => [p.taskId, p.etag])).toEqual([['a1', '"a1"']]);
+		expect(plan.put[0].ics).toContain('DUE:20261022T143000');
+	});
+
+	it('marks completed tasks and deletes to-dos of deleted or undated tasks', () => {
+		const state = synced([call, plants, { ...someday, doDate: '2026-10-20' }]);
+		state.items.z1 = { href: `${CALENDAR}z1.ics`, etag: '"z1"', hash: 'x', detached: true };
+
+		const done = { ...call, completed: true, completedAt: '2026-10-19' };
+		const plan = planPush(data([someday], [done]), state, { alarmMinutes: 15, now });
+		expect(plan.put.map(p => [p.taskId, p.completed])).toEqual([['a1', true]]);
+		expect(plan.put[0].ics).toContain('STATUS:COMPLETED');
+		expect(plan.remove).toEqual([
+			{ taskId: 'b1', href: `${CALENDAR}b1.ics`, etag: '"b1"' },
+			{ taskId: 'c1', href: `${CALENDAR}c1.ics`, etag: '"c1"' },
+		]);
+		expect(plan.forget).toEqual(['z1']);
+	});
+});
+
+describe('planPull', () => {
+	it('completes tasks whose to-dos were completed and keeps the new ETags', () => {
+		const state = synced([call, plants]);
+		const plan = planPull(data([call, plants]), state, {
+			token: 'sync-2',
+			changed: [
+				{ href: `${CALENDAR}a1.ics`, etag: '"a2"', ics: todo('a1@focus', 'COMPLETED', 'COMPLETED:20261018T101500Z\r\n') },
+				{ href: `${CALENDAR}b1.ics`, etag: '"b2"', ics: todo('b1@focus', 'IN-PROCESS') },
+				{ href: `${CALENDAR}other.ics`, etag: '"o"', ics: todo('other@example.com', 'COMPLETED') },
+			],
+			deleted: [],
+		}, 'keep');
+
+		expect(plan.complete).toEqual([{ id: 'a1', completedAt: '2026-10-18' }]);
+		expect(plan.state.syncToken).toBe('sync-2');
+		expect(Object.keys(plan.state.items)).toEqual(['b1']);
+		expect(plan.state.items.b1).toMatchObject({ etag: '"b2"', hash: state.items.b1.hash });
+		// The state passed in is left as it was
+		expect(state.items.a1.etag).toBe('"a1"');
+	});
+
+	it('adopts to-dos written before the state was lost', () => {
+		const plan = planPull(data([call]), emptyCalDavState(CALENDAR), {
+			token: 'sync-1',
+			changed: [{ href: `${CALENDAR}a1.ics`, etag: '"a1"', ics: todo('a1@focus', 'NEEDS-ACTION') }],
+			deleted: [],
+		}, 'keep');
+		expect(plan.state.items.a1).toEqual({ href: `${CALENDAR}a1.ics`, etag: '"a1"', hash: '' });
+
+		// So the push rewrites it in place
+		expect(planPush(data([call]), plan.state, { alarmMinutes: 15, now }).put[0].etag).toBe('"a1"');
+	});
+
+	it('handles deleted to-dos as the setting says', () => {
+		const changes = { token: 'sync-2', changed: [], deleted: [`${CALENDAR}a1.ics`] };
+
+		const kept = planPull(data([call]), synced([call]), changes, 'keep');
+		expect(kept.complete).toEqual([]);
+		expect(kept.state.items.a1.detached).toBe(true);
+		expect(planPush(data([{ ...call, title: 'Call Sam back' }]), kept.state, { alarmMinutes: 15, now }).put).toEqual([]);
+
+		expect(planPull(data([call]), synced([call]), changes, 'complete').complete).toEqual([{ id: 'a1' }]);
+		const deleted = planPull(data([call]), synced([call]), changes, 'delete');
+		expect(deleted.delete).toEqual(['a1']);
+		expect(deleted.state.items).toEqual({});
+	});
+});
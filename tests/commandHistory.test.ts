@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { CommandHistory, applyOperation, diffTaskData } from '../src/commandHistory';
+import { FocusData, Task, TaskSection } from '../src/types';
+
+const SECTIONS: TaskSection[] = ['immediate', 'thisWeek', 'unscheduled'];
+const MONTHS = ['2026-01', '2026-02'];
+
+const clone = (data: FocusData): FocusData => structuredClone(data);
+
+/**
+ * Task data with unique ids spread over the sections and two archive months
+ */
+const focusDataArb: fc.Arbitrary<FocusData> = fc
+	.uniqueArray(
+		fc.record({
+			id: fc.stringMatching(/^[a-z0-9]{4,8}$/),
+			title: fc.string({ minLength: 1, maxLength: 12 }),
+			bucket: fc.integer({ min: 0, max: SECTIONS.length + MONTHS.length - 1 }),
+		}),
+		{ selector: t => t.id, maxLength: 12 },
+	)
+	.map((entries) => {
+		const data: FocusData = {
+			weekOf: '2026-01-26',
+			goals: [],
+			habits: [{ id: 'h1', title: 'Stretch', completedToday: false }],
+			habitResetDate: '2026-01-27',
+			tasks: { immediate: [], thisWeek: [], unscheduled: [] },
+			completedTasks: {},
+		};
+		for (const { id, title, bucket } of entries) {
+			if (bucket < SECTIONS.length) {
+				const section = SECTIONS[bucket];
+				data.tasks[section].push({ id, title, completed: false, section });
+			} else {
+				const month = MONTHS[bucket - SECTIONS.length];
+				(data.completedTasks[month] ??= []).push({ id, title, completed: true, completedAt: `${month}-15`, section: 'thisWeek' });
+			}
+		}
+		return data;
+	});
+
+type Edit = [kind: number, a: number, b: number, text: string];
+
+const editsArb: fc.Arbitrary<Edit[]> = fc.array(
+	fc.tuple(fc.integer({ min: 0, max: 5 }), fc.nat(), fc.nat(), fc.string({ minLength: 1, maxLength: 8 })),
+	{ maxLength: 5 },
+);
+
+/**
+ * Applies the kinds of change the views make: delete, move, complete, retitle, add, reorder, habits
+ */
+function applyEdits(data: FocusData, edits: Edit[]): FocusData {
+	const result = clone(data);
+	edits.forEach(([kind, a, b, text], n) => {
+		const section = SECTIONS[a % SECTIONS.length];
+		const tasks = result.tasks[section];
+		const task: Task | undefined = tasks[b % Math.max(tasks.length, 1)];
+		switch (kind) {
+			case 0:
+				if (task) tasks.splice(tasks.indexOf(task), 1);
+				break;
+			case 1:
+				if (task) {
+					tasks.splice(tasks.indexOf(task), 1);
+					task.section = SECTIONS[(a + 1) % SECTIONS.length];
+					result.tasks[task.section].push(task);
+				}
+				break;
+			case 2:
+				if (task) {
+					tasks.splice(tasks.indexOf(task), 1);
+					task.completed = true;
+					task.completedAt = '2026-02-03';
+					(result.completedTasks['2026-02'] ??= []).push(task);
+				}
+				break;
+			case 3:
+				if (task) task.title = text;
+				break;
+			case 4:
+				tasks.splice(b % (tasks.length + 1), 0, { id: `new${n}`, title: text, completed: false, section });
+				break;
+			default:
+				if (tasks.length > 1) tasks.push(tasks.shift()!);
+				result.habits[0].completedToday = !result.habits[0].completedToday;
+		}
+	});
+	return result;
+}
+
+describe('diffTaskData / applyOperation', () => {
+	it('undo turns the new data back into the old, and redo repeats the change', () => {
+		fc.assert(
+			fc.property(focusDataArb, editsArb, (before, edits) => {
+				const after = applyEdits(before, edits);
+				const operation = diffTaskData('Edit', before, after);
+				if (!operation) {
+					expect(after).toEqual(before);
+					return;
+				}
+
+				const undone = clone(after);
+				applyOperation(undone, operation, 'undo');
+				expect(undone).toEqual(before);
+
+				applyOperation(undone, operation, 'redo');
+				expect(undone).toEqual(after);
+			}),
+		);
+	});
+
+	it('leaves changes made after the operation alone', () => {
+		fc.assert(
+			fc.property(focusDataArb, editsArb, (before, edits) => {
+				const after = applyEdits(before, edits);
+				const operation = diffTaskData('Edit', before, after);
+				if (!operation) return;
+
+				// Another task appears (e.g. from vault sync) before the user undoes
+				const later = clone(after);
+				const synced: Task = { id: 'synced', title: 'From a note', completed: false, section: 'unscheduled' };
+				later.tasks.unscheduled.push(synced);
+
+				applyOperation(later, operation, 'undo');
+				expect(later.tasks.unscheduled).toContainEqual(synced);
+				later.tasks.unscheduled = later.tasks.unscheduled.filter(t => t.id !== 'synced');
+				expect(later).toEqual(before);
+			}),
+		);
+	});
+
+	it('records only the tasks that changed', () => {
+		const before: FocusData = {
+			weekOf: '2026-01-26',
+			goals: [],
+			habits: [],
+			habitResetDate: '2026-01-27',
+			tasks: {
+				immediate: [],
+				thisWeek: [
+					{ id: 'a', title: 'A', completed: false, section: 'thisWeek' },
+					{ id: 'b', title: 'B', completed: false, section: 'thisWeek' },
+					{ id: 'c', title: 'C', completed: false, section: 'thisWeek' },
+				],
+				unscheduled: [],
+			},
+			completedTasks: {},
+		};
+		const after = clone(before);
+		after.tasks.thisWeek.splice(0, 1);
+
+		const operation = diffTaskData('Delete task', before, after);
+		expect(operation?.tasks.map(change => change.id)).toEqual(['a']);
+		expect(operation?.fields).toEqual([]);
+	});
+});
+
+describe('CommandHistory', () => {
+	const data = (title: string): FocusData => ({
+		weekOf: '2026-01-26',
+		goals: [],
+		habits: [],
+		habitResetDate: '2026-01-27',
+		tasks: { immediate: [], thisWeek: [{ id: 'a', title, completed: false, section: 'thisWeek' }], unscheduled: [] },
+		completedTasks: {},
+	});
+
+	it('moves operations between the undo and redo stacks', () => {
+		const history = new CommandHistory();
+		history.record('First', data('1'), data('2'));
+		history.record('Second', data('2'), data('3'));
+
+		expect(history.takeUndo()?.label).toBe('Second');
+		expect(history.takeRedo()?.label).toBe('Second');
+		expect(history.takeRedo()).toBeUndefined();
+		expect(history.takeUndo()?.label).toBe('Second');
+		expect(history.takeUndo()?.label).toBe('First');
+		expect(history.takeUndo()).toBeUndefined();
+	});
+
+	it('drops the redo stack on a new change and ignores saves that change nothing', () => {
+		const history = new CommandHistory();
+		history.record('First', data('1'), data('2'));
+		history.takeUndo();
+		history.record('No-op', data('1'), data('1'));
+		expect(history.takeRedo()?.label).toBe('First');
+
+		history.takeUndo();
+		history.record('Other', data('1'), data('x'));
+		expect(history.takeRedo()).toBeUndefined();
+	});
+
+	it('keeps at most the configured number of operations', () => {
+		const history = new CommandHistory(2);
+		history.record('1', data('0'), data('1'));
+		history.record('2', data('1'), data('2'));
+		history.record('3', data('2'), data('3'));
+		expect(history.takeUndo()?.label).toBe('3');
+		expect(history.takeUndo()?.label).toBe('2');
+		expect(history.takeUndo()).toBeUndefined();
+	});
+});
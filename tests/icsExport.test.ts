@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { buildCalendar, sameCalendar, toRRule } from '../src/icsExport';
+import { FocusData, Task } from '../src/types';
+
+const data = (tasks: Task[], completed: Task[] = []): FocusData => ({
+	weekOf: '2026-10-19',
+	goals: [],
+	habits: [],
+	habitResetDate: '2026-10-19',
+	tasks: { immediate: [], thisWeek: tasks, unscheduled: [] },
+	completedTasks: completed.length > 0 ? { '2026-10': completed } : {},
+});
+
+const now = new Date(Date.UTC(2026, 9, 19, 8, 30, 0));
+
+/**
+ * The unfolded content lines of one component
+ */
+function component(ics: string, uid: string): string[] {
+	const lines = ics.replace(/\r\n /g, '').split('\r\n');
+	const start = lines.indexOf(`UID:${uid}@focus`) - 1;
+	const end = lines.findIndex((line, i) => i > start && /^END:V(EVENT|TODO)$/.test(line));
+	return lines.slice(start, end + 1);
+}
+
+describe('buildCalendar', () => {
+	const call: Task = {
+		id: 'a1', title: 'Call Sam, then; email', completed: false, section: 'thisWeek',
+		doDate: '2026-10-20', doTime: '14:30', url: 'https://example.com/sam', notes: 'Line one\nLine two',
+	};
+	const plants: Task = {
+		id: 'b1', title: 'Water plants', completed: false, section: 'thisWeek',
+		doDate: '2026-10-21', recurrence: { type: 'weeks', interval: 2, dayOfWeek: 3 },
+	};
+	const undated: Task = { id: 'c1', title: 'Someday', completed: false, section: 'thisWeek' };
+	const done: Task = { id: 'd1', title: 'Filed taxes', completed: true, completedAt: '2026-10-02', section: 'thisWeek', doDate: '2026-10-01' };
+
+	it('writes dated tasks as events with stable UIDs', () => {
+		const ics = buildCalendar(data([call, plants, undated], [done]), { component: 'event', alarmMinutes: 15, now });
+		expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+		expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+		expect(ics).not.toContain('c1@focus');
+
+		expect(component(ics, 'a1')).toEqual([
+			'BEGIN:VEVENT',
+			'UID:a1@focus',
+			'DTSTAMP:20261019T083000Z',
+			'SUMMARY:Call Sam\\, then\\; email',
+			'DTSTART:20261020T143000',
+			'DURATION:PT30M',
+			'STATUS:CONFIRMED',
+			'TRANSP:TRANSPARENT',
+			'URL:https://example.com/sam',
+			'DESCRIPTION:Line one\\nLine two',
+			'BEGIN:VALARM',
+			'ACTION:DISPLAY',
+			'DESCRIPTION:Call Sam\\, then\\; email',
+			'TRIGGER:-PT15M',
+			'END:VALARM',
+			'END:VEVENT',
+		]);
+
+		const repeating = component(ics, 'b1');
+		expect(repeating).toContain('DTSTART;VALUE=DATE:20261021');
+		expect(repeating).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=WE');
+		expect(repeating).not.toContain('BEGIN:VALARM');
+
+		expect(component(ics, 'd1')).toContain('SUMMARY:✓ Filed taxes');
+	});
+
+	it('writes to-dos with a due date and status', () => {
+		const ics = buildCalendar(data([call, plants], [done]), { component: 'todo', alarmMinutes: null, now });
+		const todo = component(ics, 'a1');
+		expect(todo).toContain('DUE:20261020T143000');
+		expect(todo).toContain('STATUS:NEEDS-ACTION');
+		expect(todo.some(line => line.startsWith('DTSTART'))).toBe(false);
+		expect(todo).not.toContain('BEGIN:VALARM');
+
+		// A repeating to-do starts where it is due
+		expect(component(ics, 'b1')).toEqual(expect.arrayContaining(['DTSTART;VALUE=DATE:20261021', 'DUE;VALUE=DATE:20261021']));
+		expect(component(ics, 'd1')).toEqual(expect.arrayContaining(['STATUS:COMPLETED', 'COMPLETED:20261002T000000Z']));
+	});
+
+	it('folds long lines at 75 octets without splitting characters', () => {
+		const long: Task = { ...call, id: 'e1', title: 'Überprüfen '.repeat(12).trim(), doTime: undefined, notes: undefined, url: undefined };
+		const ics = buildCalendar(data([long]), { component: 'event', alarmMinutes: null, now });
+		const lines = ics.split('\r\n');
+		expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+		expect(component(ics, 'e1')).toContain(`SUMMARY:${long.title}`);
+	});
+
+	it('ignores the timestamp when comparing calendars', () => {
+		const a = buildCalendar(data([call]), { component: 'event', alarmMinutes: 15, now });
+		const b = buildCalendar(data([call]), { component: 'event', alarmMinutes: 15, now: new Date() });
+		const c = buildCalendar(data([plants]), { component: 'event', alarmMinutes: 15, now });
+		expect(sameCalendar(a, b)).toBe(true);
+		expect(sameCalendar(a, c)).toBe(false);
+	});
+});
+
+describe('toRRule', () => {
+	it('writes each kind of recurrence', () => {
+		expect(toRRule({ type: 'days', interval: 3 })).toBe('FREQ=DAILY;INTERVAL=3');
+		expect(toRRule({ type: 'months', interval: 1, dayOfMonth: 15 })).toBe('FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=15');
+	});
+});
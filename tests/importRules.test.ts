@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { applyImportRule, describeImportRule, findImportRule, ruleMatches } from '../src/importRules';
+import { FocusData, ImportRule, Task } from '../src/types';
+
+const emptyData = (): FocusData => ({
+	weekOf: '2026-10-19',
+	goals: [{ id: 'g1', title: 'Ship the launch' }],
+	habits: [],
+	habitResetDate: '2026-10-19',
+	tasks: { immediate: [], thisWeek: [], unscheduled: [] },
+	completedTasks: {},
+});
+
+const task = (title: string, fields: Partial<Task> = {}): Task => ({
+	id: title.replace(/\W/g, ''), title, completed: false, section: 'unscheduled', ...fields,
+});
+
+const rule = (match: ImportRule['match'], value: string, section: ImportRule['section'], goal = ''): ImportRule => ({ match, value, section, goal });
+
+// Wednesday; the week runs Monday 19th to Sunday 25th
+const today = new Date(2026, 9, 21);
+
+describe('ruleMatches', () => {
+	it('matches tags, including nested ones, but not longer tag names', () => {
+		expect(ruleMatches(rule('tag', '#focus/now', 'immediate'), task('Call Sam #focus/now'), 'a.md')).toBe(true);
+		expect(ruleMatches(rule('tag', 'focus', 'immediate'), task('Call Sam #Focus/now'), 'a.md')).toBe(true);
+		expect(ruleMatches(rule('tag', '#focus', 'immediate'), task('Call Sam #focusing'), 'a.md')).toBe(false);
+	});
+
+	it('matches dates in the current week and on or before today', () => {
+		const thisWeek = rule('dateThisWeek', '', 'thisWeek');
+		expect(ruleMatches(thisWeek, task('A', { doDate: '2026-10-25' }), 'a.md', today)).toBe(true);
+		expect(ruleMatches(thisWeek, task('A', { dueDate: '2026-10-19' }), 'a.md', today)).toBe(true);
+		expect(ruleMatches(thisWeek, task('A', { doDate: '2026-10-26' }), 'a.md', today)).toBe(false);
+		expect(ruleMatches(thisWeek, task('A'), 'a.md', today)).toBe(false);
+
+		const dueNow = rule('dateToday', '', 'immediate');
+		expect(ruleMatches(dueNow, task('A', { doDate: '2026-10-01' }), 'a.md', today)).toBe(true);
+		expect(ruleMatches(dueNow, task('A', { doDate: '2026-10-22' }), 'a.md', today)).toBe(false);
+	});
+});
+
+describe('import rules', () => {
+	const rules = [
+		rule('tag', '#focus/now', 'immediate'),
+		rule('dateThisWeek', '', 'thisWeek'),
+		rule('folder', 'Projects/Work', 'thisWeek', 'ship the launch'),
+	];
+
+	it('are tried in order', () => {
+		const both = task('Call Sam #focus/now', { doDate: '2026-10-22' });
+		expect(findImportRule(rules, both, 'Projects/Work/a.md', today)).toBe(rules[0]);
+		expect(findImportRule(rules, task('Review'), 'Projects/Work/a.md', today)).toBe(rules[2]);
+		expect(findImportRule(rules, task('Review'), 'Home/a.md', today)).toBeUndefined();
+	});
+
+	it('move the task and link its goal by title', () => {
+		const data = emptyData();
+		const review = task('Review');
+		data.tasks.unscheduled.push(review);
+
+		expect(applyImportRule(data, review, rules[2], 5)).toBe('thisWeek');
+		expect(data.tasks.unscheduled).toEqual([]);
+		expect(data.tasks.thisWeek).toEqual([{ ...review, section: 'thisWeek', goalId: 'g1' }]);
+	});
+
+	it('send tasks to This Week when Immediate is full', () => {
+		const data = emptyData();
+		data.tasks.immediate.push(task('Busy', { section: 'immediate' }));
+		const call = task('Call Sam #focus/now');
+		data.tasks.unscheduled.push(call);
+
+		expect(applyImportRule(data, call, rules[0], 1)).toBe('thisWeek');
+		expect(data.tasks.thisWeek.map(t => t.title)).toEqual(['Call Sam #focus/now']);
+	});
+
+	it('are described in words', () => {
+		expect(describeImportRule(rules[0])).toBe('Tag #focus/now → Immediate');
+		expect(describeImportRule(rules[2])).toBe('In Projects/Work → This Week, goal ship the launch');
+	});
+});
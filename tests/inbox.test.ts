@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { addInboxTasks, formatInboxLog, parseInbox, removeInboxLines, wikiLinksOf } from '../src/inbox';
+import { FocusData, Task } from '../src/types';
+
+const emptyData = (): FocusData => ({
+	weekOf: '2026-10-19',
+	goals: [],
+	habits: [],
+	habitResetDate: '2026-10-19',
+	tasks: { immediate: [], thisWeek: [], unscheduled: [] },
+	completedTasks: {},
+});
+
+describe('parseInbox', () => {
+	it('reads each line as a task, with or without a checkbox', () => {
+		const inbox = [
+			'# Inbox',
+			'- [ ] Buy groceries 📅 2026-01-27 ⏰ 15:00 🔗 https://instacart.com',
+			'',
+			'Review [[Project Alpha]] notes',
+			'* Call dentist #health',
+			'- [x] Already done',
+		].join('\n');
+
+		const entries = parseInbox(inbox);
+		expect(entries.map(e => e.text)).toEqual([
+			'- [ ] Buy groceries 📅 2026-01-27 ⏰ 15:00 🔗 https://instacart.com',
+			'Review [[Project Alpha]] notes',
+			'* Call dentist #health',
+		]);
+		expect(entries[0].task).toMatchObject({
+			title: 'Buy groceries', doDate: '2026-01-27', doTime: '15:00', url: 'https://instacart.com', completed: false,
+		});
+		expect(entries.map(e => e.task.title).slice(1)).toEqual(['Review [[Project Alpha]] notes', 'Call dentist #health']);
+	});
+
+	it('gives every captured task a new ID', () => {
+		const [a, b] = parseInbox('- [ ] Same ^abc\n- [ ] Same ^abc');
+		expect(a.task.id).not.toBe('abc');
+		expect(a.task.id).not.toBe(b.task.id);
+	});
+});
+
+describe('removeInboxLines', () => {
+	it('removes the imported lines and keeps lines appended since', () => {
+		const content = '# Inbox\n- [ ] One\n- [ ] One\n- [ ] Two\n- [ ] Appended later\n';
+		expect(removeInboxLines(content, ['- [ ] One', '- [ ] Two'])).toBe('# Inbox\n- [ ] One\n- [ ] Appended later\n');
+		expect(removeInboxLines('- [ ] One\n', ['- [ ] One'])).toBe('');
+	});
+});
+
+describe('addInboxTasks', () => {
+	it('adds tasks to the section, overflowing a full Immediate into This Week', () => {
+		const data = emptyData();
+		const tasks = parseInbox('One\nTwo\nThree').map(e => e.task);
+		expect(addInboxTasks(data, tasks, 'immediate', 2)).toEqual(['immediate', 'immediate', 'thisWeek']);
+		expect(data.tasks.thisWeek.map((t: Task) => [t.title, t.section])).toEqual([['Three', 'thisWeek']]);
+	});
+});
+
+describe('inbox helpers', () => {
+	it('find the notes a title links to', () => {
+		expect(wikiLinksOf('Review [[Project Alpha|Alpha]] and [[Project Alpha#Notes]], then [[Beta]]')).toEqual(['Project Alpha', 'Beta']);
+	});
+
+	it('log when each line was imported and where it went', () => {
+		const entries = parseInbox('- [ ] Call dentist\nPlan trip');
+		expect(formatInboxLog(entries, ['unscheduled', 'thisWeek'], new Date(2026, 9, 19, 9, 5))).toBe(
+			'- 2026-10-19 09:05 → Unscheduled: - [ ] Call dentist\n- 2026-10-19 09:05 → This Week: Plan trip\n'
+		);
+	});
+});
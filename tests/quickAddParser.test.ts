@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuickAdd } from '../src/quickAddParser';
+
+// Tuesday, 27 January 2026, 10:00 local time
+const NOW = new Date(2026, 0, 27, 10, 0);
+
+describe('parseQuickAdd', () => {
+	it('leaves plain text alone', () => {
+		expect(parseQuickAdd('Buy 3 apples', NOW)).toEqual({ title: 'Buy 3 apples', tags: [] });
+	});
+
+	it('reads a relative date and a 12h time', () => {
+		expect(parseQuickAdd('Call dentist tomorrow 3pm', NOW)).toEqual({
+			title: 'Call dentist',
+			doDate: '2026-01-28',
+			doTime: '15:00',
+			tags: [],
+		});
+	});
+
+	it('reads "next <weekday>" without touching wiki links', () => {
+		expect(parseQuickAdd('Review [[Project Alpha]] next Monday', NOW)).toMatchObject({
+			title: 'Review [[Project Alpha]]',
+			doDate: '2026-02-02',
+		});
+		expect(parseQuickAdd('Prep [[Monday standup]]', NOW)).toEqual({
+			title: 'Prep [[Monday standup]]',
+			tags: [],
+		});
+	});
+
+	it('reads a bare weekday as the next one after today', () => {
+		expect(parseQuickAdd('Standup tuesday', NOW).doDate).toBe('2026-02-03');
+		expect(parseQuickAdd('Standup on Wednesday', NOW).doDate).toBe('2026-01-28');
+	});
+
+	it('leaves possessive day names in the title', () => {
+		expect(parseQuickAdd("Review Monday's notes", NOW)).toEqual({ title: "Review Monday's notes", tags: [] });
+		expect(parseQuickAdd('Tidy up today\u2019s list', NOW)).toEqual({ title: 'Tidy up today\u2019s list', tags: [] });
+	});
+
+	it('reads recurrence phrases and starts them on the next matching day', () => {
+		expect(parseQuickAdd('pay rent every month on the 1st', NOW)).toEqual({
+			title: 'pay rent',
+			recurrence: { type: 'months', interval: 1, dayOfMonth: 1 },
+			doDate: '2026-02-01',
+			tags: [],
+		});
+		expect(parseQuickAdd('Water plants every 3 days', NOW)).toEqual({
+			title: 'Water plants',
+			recurrence: { type: 'days', interval: 3 },
+			tags: [],
+		});
+		expect(parseQuickAdd('Gym every Thursday at 18:30', NOW)).toMatchObject({
+			title: 'Gym',
+			recurrence: { type: 'weeks', interval: 1, dayOfWeek: 4 },
+			doDate: '2026-01-29',
+			doTime: '18:30',
+		});
+	});
+
+	it('lists tags but keeps them in the title', () => {
+		expect(parseQuickAdd('Morning run #health #2026', NOW)).toEqual({
+			title: 'Morning run #health #2026',
+			tags: ['health'],
+		});
+	});
+
+	it('moves a URL into the url field', () => {
+		expect(parseQuickAdd('Read https://example.com/post?id=1.', NOW)).toEqual({
+			title: 'Read.',
+			url: 'https://example.com/post?id=1',
+			tags: [],
+		});
+		expect(parseQuickAdd('Read [post](https://example.com) today', NOW)).toMatchObject({
+			title: 'Read [post](https://example.com)',
+			doDate: '2026-01-27',
+		});
+	});
+
+	it('reads month names, rolling past dates into next year', () => {
+		expect(parseQuickAdd('Renew passport Feb 3rd', NOW).doDate).toBe('2026-02-03');
+		expect(parseQuickAdd('Taxes on the 15th of January', NOW).doDate).toBe('2027-01-15');
+		expect(parseQuickAdd('Party Feb 30', NOW)).toEqual({ title: 'Party Feb 30', tags: [] });
+	});
+
+	it('reads ISO dates and "in N units"', () => {
+		expect(parseQuickAdd('Ship 2026-03-31', NOW).doDate).toBe('2026-03-31');
+		expect(parseQuickAdd('Follow up in two weeks', NOW).doDate).toBe('2026-02-10');
+		expect(parseQuickAdd('Check in a month', NOW).doDate).toBe('2026-02-27');
+	});
+
+	it('puts a time without a date on the next day it is still ahead', () => {
+		expect(parseQuickAdd('Lunch at noon', NOW)).toMatchObject({ title: 'Lunch', doDate: '2026-01-27', doTime: '12:00' });
+		expect(parseQuickAdd('Alarm 7:15am', NOW)).toMatchObject({ title: 'Alarm', doDate: '2026-01-28', doTime: '07:15' });
+	});
+});
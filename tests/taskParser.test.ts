@@ -0,0 +1,649 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+	parseTaskFile,
+	serializeTaskFile,
+	parseTaskLine,
+	serializeTask,
+	parseFrontmatter,
+	computeNextRecurrenceDate,
+	parseRecurrenceRule,
+	formatRecurrenceRule,
+	countSubtasks,
+	getCurrentWeekStart,
+	needsWeeklyRollover,
+	rollOverWeek,
+} from '../src/taskParser';
+import { FocusData, Task, Subtask, TaskSection, TaskFormat, TaskPriority, Recurrence, DailyHabit, WeeklyGoal } from '../src/types';
+
+// ============================================================
+// Generators
+// ============================================================
+
+const SECTIONS: TaskSection[] = ['immediate', 'thisWeek', 'unscheduled'];
+
+const FORMATS: TaskFormat[] = ['focus', 'tasks', 'dataview'];
+
+const PRIORITIES: TaskPriority[] = ['highest', 'high', 'medium', 'low', 'lowest'];
+
+const MONTH_NAMES = [
+	'January', 'February', 'March', 'April', 'May', 'June',
+	'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const idArb = fc.stringMatching(/^[a-z0-9][a-z0-9-]{3,20}[a-z0-9]$/);
+
+const isoDateArb = fc
+	.date({ min: new Date('2000-01-01T00:00:00Z'), max: new Date('2099-12-31T00:00:00Z'), noInvalidDate: true })
+	.map(d => d.toISOString().split('T')[0]);
+
+const timeArb = fc
+	.tuple(fc.integer({ min: 0, max: 23 }), fc.integer({ min: 0, max: 59 }))
+	.map(([h, m]) => `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`);
+
+const monthKeyArb = fc
+	.tuple(fc.integer({ min: 2000, max: 2099 }), fc.integer({ min: 1, max: 12 }))
+	.map(([y, m]) => `${y}-${m.toString().padStart(2, '0')}`);
+
+const wordArb = fc.stringMatching(/^[A-Za-z][A-Za-z0-9'’.,!?()&-]{0,11}$/);
+
+const wikiLinkArb = fc
+	.tuple(wordArb, fc.option(wordArb, { nil: undefined }))
+	.map(([note, alias]) => (alias ? `[[${note}|${alias}]]` : `[[${note}]]`));
+
+const inlineUrlArb = fc
+	.tuple(fc.constantFrom('http', 'https'), wordArb, wordArb)
+	.map(([scheme, host, path]) => `${scheme}://${host.toLowerCase()}.com/${path}`);
+
+/** Titles made of plain words, wiki-links and bare URLs */
+const titleArb = fc
+	.array(fc.oneof({ weight: 5, arbitrary: wordArb }, wikiLinkArb, inlineUrlArb), { minLength: 1, maxLength: 6 })
+	.map(parts => parts.join(' '));
+
+const urlArb = fc
+	.tuple(wordArb, fc.array(wordArb, { maxLength: 3 }))
+	.map(([host, path]) => `https://${host.toLowerCase()}.example.com/${path.join('/')}`);
+
+const sourceFileArb = fc
+	.array(fc.stringMatching(/^[A-Za-z][A-Za-z0-9 _-]{0,10}[A-Za-z0-9]$/), { minLength: 1, maxLength: 3 })
+	.map(parts => `${parts.join('/')}.md`);
+
+const recurrenceArb: fc.Arbitrary<Recurrence> = fc.oneof(
+	fc.record({ type: fc.constant('days' as const), interval: fc.integer({ min: 1, max: 365 }) }),
+	fc.record(
+		{ type: fc.constant('weeks' as const), interval: fc.integer({ min: 1, max: 52 }), dayOfWeek: fc.integer({ min: 0, max: 6 }) },
+		{ requiredKeys: ['type', 'interval'] },
+	),
+	fc.record(
+		{ type: fc.constant('months' as const), interval: fc.integer({ min: 1, max: 12 }), dayOfMonth: fc.integer({ min: 1, max: 31 }) },
+		{ requiredKeys: ['type', 'interval'] },
+	),
+);
+
+function taskArb(section: TaskSection, archived = false): fc.Arbitrary<Task> {
+	return fc
+		.record(
+			{
+				id: idArb,
+				title: titleArb,
+				completed: archived ? fc.constant(true) : fc.boolean(),
+				completedAt: archived ? isoDateArb : fc.constant(undefined),
+				goalId: idArb,
+				sourceFile: sourceFileArb,
+				sourceLine: fc.integer({ min: 1, max: 5000 }),
+				url: urlArb,
+				doDate: isoDateArb,
+				doTime: timeArb,
+				recurrence: recurrenceArb,
+				dueDate: isoDateArb,
+				startDate: isoDateArb,
+				priority: fc.constantFrom(...PRIORITIES),
+			},
+			{ requiredKeys: ['id', 'title', 'completed'] },
+		)
+		.map(task => {
+			// A line number is meaningless without its file, and a time without a date
+			if (!task.sourceFile) delete task.sourceLine;
+			if (!task.doDate) delete task.doTime;
+			return { ...task, section } as Task;
+		});
+}
+
+const leafSubtaskArb: fc.Arbitrary<Subtask> = fc.record({ title: titleArb, completed: fc.boolean() });
+
+const subtasksArb: fc.Arbitrary<Subtask[]> = fc.array(
+	fc.record(
+		{ title: titleArb, completed: fc.boolean(), subtasks: fc.array(leafSubtaskArb, { minLength: 1, maxLength: 3 }) },
+		{ requiredKeys: ['title', 'completed'] },
+	),
+	{ minLength: 1, maxLength: 4 },
+);
+
+/** Multi-line notes, possibly with paragraph breaks */
+const notesArb = fc
+	.array(fc.oneof({ weight: 4, arbitrary: titleArb }, fc.constant('')), { minLength: 1, maxLength: 5 })
+	.map(lines => lines.join('\n').replace(/^\n+|\n+$/g, ''))
+	.filter(notes => notes.length > 0);
+
+/** Tasks as they appear in a file, where they may carry notes and a checklist */
+function fileTaskArb(section: TaskSection, archived = false): fc.Arbitrary<Task> {
+	return fc
+		.tuple(taskArb(section, archived), fc.option(subtasksArb, { nil: undefined }), fc.option(notesArb, { nil: undefined }))
+		.map(([task, subtasks, notes]) => ({
+			...task,
+			...(subtasks ? { subtasks } : {}),
+			...(notes ? { notes } : {}),
+		}));
+}
+
+const habitArb: fc.Arbitrary<DailyHabit> = fc.record({ id: idArb, title: titleArb, completedToday: fc.boolean() });
+
+const goalArb: fc.Arbitrary<WeeklyGoal> = fc.record({ id: idArb, title: titleArb });
+
+const focusDataArb: fc.Arbitrary<FocusData> = fc.record({
+	weekOf: isoDateArb,
+	habitResetDate: isoDateArb,
+	goals: fc.array(goalArb, { maxLength: 4 }),
+	habits: fc.array(habitArb, { maxLength: 3 }),
+	tasks: fc.record({
+		immediate: fc.array(fileTaskArb('immediate'), { maxLength: 5 }),
+		thisWeek: fc.array(fileTaskArb('thisWeek'), { maxLength: 8 }),
+		unscheduled: fc.array(fileTaskArb('unscheduled'), { maxLength: 8 }),
+	}),
+	// Archived tasks are written without their original section and read back as unscheduled
+	completedTasks: fc.dictionary(monthKeyArb, fc.array(fileTaskArb('unscheduled', true), { minLength: 1, maxLength: 4 }), {
+		maxKeys: 4,
+	}),
+});
+
+/** A marker and its value as someone might type it after a task title */
+const markerArb = fc.oneof(
+	isoDateArb.map(v => `📅 ${v}`),
+	timeArb.map(v => `⏰ ${v}`),
+	recurrenceArb.map(r => `🔁 ${r.type}:${r.interval}${r.dayOfWeek != null ? ':' + r.dayOfWeek : r.dayOfMonth != null ? ':' + r.dayOfMonth : ''}`),
+	isoDateArb.map(v => `✅ ${v}`),
+	isoDateArb.map(v => `⏳ ${v}`),
+	isoDateArb.map(v => `🛫 ${v}`),
+	fc.constantFrom('🔺', '⏫', '🔼', '🔽', '⏬'),
+	recurrenceArb.map(r => `🔁 ${formatRecurrenceRule(r)}`),
+	isoDateArb.map(v => `[due:: ${v}]`),
+	idArb.map(v => `🎯 ${v}`),
+	fc.tuple(sourceFileArb, fc.integer({ min: 1, max: 999 })).map(([f, l]) => `📄 ${f}:${l}`),
+	urlArb.map(v => `🔗 ${v}`),
+);
+
+/** Task lines with up to one of each marker, in any order, with or without an ID */
+const handWrittenTaskLineArb = fc
+	.tuple(
+		fc.constantFrom('[ ]', '[x]', '[X]'),
+		titleArb,
+		fc.uniqueArray(markerArb, { maxLength: 12, selector: m => [...m][0] }),
+		fc.option(idArb, { nil: undefined }),
+		fc.constantFrom(' ', '  ', '\t'),
+	)
+	.map(([box, title, markers, id, gap]) => {
+		const parts = [title, ...markers];
+		if (id) parts.push(`^${id}`);
+		return `- ${box} ${parts.join(gap)}`;
+	});
+
+/** Whole task files as a person might write them: sections in any order, blank lines, stray prose */
+const handWrittenFileArb = fc
+	.tuple(
+		fc.option(fc.tuple(isoDateArb, isoDateArb, fc.array(titleArb, { maxLength: 3 }), fc.boolean()), { nil: undefined }),
+		fc.array(
+			fc.tuple(
+				fc.oneof(
+					fc.constantFrom('## Daily Habits', '## Immediate', '## This week', '## Unscheduled', '## this week', '## Notes'),
+					fc.tuple(fc.integer({ min: 0, max: 11 }), fc.integer({ min: 2000, max: 2099 }))
+						.map(([m, y]) => `## Completed\n### ${MONTH_NAMES[m]} ${y}`),
+				),
+				fc.array(
+					fc.oneof(
+						{ weight: 4, arbitrary: handWrittenTaskLineArb },
+						fc.constant(''),
+						titleArb,
+						titleArb.map(t => `  ${t}`),
+						titleArb.map(t => `\t- ${t}`),
+						fc.tuple(fc.constantFrom('\t', '  ', '    ', '\t\t'), fc.constantFrom('[ ]', '[x]'), titleArb)
+							.map(([indent, box, t]) => `${indent}- ${box} ${t}`),
+					),
+					{ maxLength: 6 },
+				),
+			),
+			{ maxLength: 6 },
+		),
+	)
+	.map(([frontmatter, sections]) => {
+		const lines: string[] = [];
+		if (frontmatter) {
+			const [weekOf, habitResetDate, goals, aliases] = frontmatter;
+			lines.push('---', `weekOf: ${weekOf}`, `habitResetDate: ${habitResetDate}`);
+			if (aliases) lines.push('aliases:', '  - Focus');
+			lines.push(goals.length > 0 ? 'goals:' : 'goals: []', ...goals.map(g => `  - ${g}`), '---', '');
+		}
+		for (const [heading, body] of sections) {
+			lines.push(heading, ...body, '');
+		}
+		return lines.join('\n');
+	});
+
+// ============================================================
+// Properties
+// ============================================================
+
+describe('parseTaskLine / serializeTask', () => {
+	it.each(FORMATS)('recovers every field of an active task (%s format)', (format) => {
+		fc.assert(
+			fc.property(fc.constantFrom(...SECTIONS).chain(section => taskArb(section)), (task) => {
+				expect(parseTaskLine(serializeTask(task, false, format), task.section, format)).toEqual(task);
+			}),
+		);
+	});
+
+	it.each(FORMATS)('recovers every field of an archived task (%s format)', (format) => {
+		fc.assert(
+			fc.property(taskArb('unscheduled', true), (task) => {
+				expect(parseTaskLine(serializeTask(task, true, format), 'unscheduled', format)).toEqual(task);
+			}),
+		);
+	});
+
+	it('keeps the ID written on the line', () => {
+		const task = parseTaskLine('- [ ] Call dentist 📅 2026-01-27 ^abc-123', 'thisWeek');
+		expect(task?.id).toBe('abc-123');
+		expect(task?.title).toBe('Call dentist');
+	});
+
+	it('gives lines without an ID a fresh one each time', () => {
+		const a = parseTaskLine('- [ ] Call dentist', 'thisWeek');
+		const b = parseTaskLine('- [ ] Call dentist', 'thisWeek');
+		expect(a?.id).toBeTruthy();
+		expect(a?.id).not.toBe(b?.id);
+	});
+
+	it('ignores lines that are not tasks', () => {
+		expect(parseTaskLine('Just some prose', 'immediate')).toBeNull();
+		expect(parseTaskLine('- a plain bullet', 'immediate')).toBeNull();
+	});
+
+	it('reads markers written in any order', () => {
+		// Serialize the canonical line, then shuffle everything between the title and the ID
+		const shuffledLineArb = fc.constantFrom(...SECTIONS).chain(section => taskArb(section)).chain(task => {
+			const line = serializeTask(task);
+			const markers = line
+				.slice(`- [ ] ${task.title}`.length, line.lastIndexOf(' ^'))
+				.split(/ (?=📅|⏰|🔁|🛫|🔺|⏫|🔼|🔽|⏬|\[due::|🎯|📄|🔗)/u)
+				.filter(Boolean);
+			return fc
+				.shuffledSubarray(markers, { minLength: markers.length, maxLength: markers.length })
+				.map(shuffled => ({ task, line: `- ${task.completed ? '[x]' : '[ ]'} ${task.title} ${shuffled.join(' ')} ^${task.id}` }));
+		});
+
+		fc.assert(
+			fc.property(shuffledLineArb, ({ task, line }) => {
+				expect(parseTaskLine(line, task.section)).toEqual(task);
+			}),
+		);
+	});
+
+	it('reads markers interleaved in any position after the title', () => {
+		const task = parseTaskLine('- [ ] Standup 📅 2026-01-27 🔗 https://x ⏰ 10:00', 'thisWeek');
+		expect(task).toMatchObject({ title: 'Standup', doDate: '2026-01-27', doTime: '10:00', url: 'https://x' });
+		expect(serializeTask(task!)).toBe(`- [ ] Standup 📅 2026-01-27 ⏰ 10:00 🔗 https://x ^${task!.id}`);
+	});
+
+	it('leaves unknown tokens and malformed markers in the title', () => {
+		const task = parseTaskLine('- [ ] Plan trip #travel 📅 someday ⏰ 10:00 🗓 2026-02-01 🔁 every year', 'thisWeek');
+		expect(task).toMatchObject({ title: 'Plan trip #travel 📅 someday 🗓 2026-02-01 🔁 every year', doTime: '10:00' });
+		expect(task?.doDate).toBeUndefined();
+		expect(task?.recurrence).toBeUndefined();
+	});
+});
+
+describe('Obsidian Tasks compatibility', () => {
+	it('reads Tasks emoji into their own fields', () => {
+		const task = parseTaskLine('- [ ] Pay rent ⏫ 🔁 every month on the 1st 🛫 2026-01-20 ⏳ 2026-01-27 📅 2026-02-01', 'thisWeek', 'tasks');
+		expect(task).toMatchObject({
+			title: 'Pay rent',
+			priority: 'high',
+			recurrence: { type: 'months', interval: 1, dayOfMonth: 1 },
+			startDate: '2026-01-20',
+			doDate: '2026-01-27',
+			dueDate: '2026-02-01',
+		});
+	});
+
+	it('reads 📅 as the reminder date in Focus format and as the due date in Tasks format', () => {
+		expect(parseTaskLine('- [ ] Call mum 📅 2026-01-27', 'thisWeek', 'focus')).toMatchObject({ doDate: '2026-01-27' });
+		expect(parseTaskLine('- [ ] Call mum 📅 2026-01-27', 'thisWeek', 'tasks')).toMatchObject({ dueDate: '2026-01-27' });
+	});
+
+	it('reads dataview inline fields in brackets or parentheses', () => {
+		const task = parseTaskLine('- [ ] Review PR [due:: 2026-02-01] (scheduled:: 2026-01-28) [priority:: low] [repeat:: every 2 weeks on Friday]', 'thisWeek');
+		expect(task).toMatchObject({
+			title: 'Review PR',
+			dueDate: '2026-02-01',
+			doDate: '2026-01-28',
+			priority: 'low',
+			recurrence: { type: 'weeks', interval: 2, dayOfWeek: 5 },
+		});
+	});
+
+	it('writes each dialect', () => {
+		const task: Task = {
+			id: 't1', title: 'Pay rent', completed: false, section: 'thisWeek',
+			doDate: '2026-01-27', dueDate: '2026-02-01', priority: 'high', recurrence: { type: 'weeks', interval: 1, dayOfWeek: 1 },
+		};
+		expect(serializeTask(task, false, 'focus')).toBe('- [ ] Pay rent ⏫ 📅 2026-01-27 🔁 weeks:1:1 [due:: 2026-02-01] ^t1');
+		expect(serializeTask(task, false, 'tasks')).toBe('- [ ] Pay rent ⏫ 🔁 every week on Monday ⏳ 2026-01-27 📅 2026-02-01 ^t1');
+		expect(serializeTask(task, false, 'dataview')).toBe(
+			'- [ ] Pay rent [priority:: high] [repeat:: every week on Monday] [scheduled:: 2026-01-27] [due:: 2026-02-01] ^t1',
+		);
+	});
+
+	it('round-trips recurrence phrases', () => {
+		fc.assert(
+			fc.property(recurrenceArb, (recurrence) => {
+				expect(parseRecurrenceRule(formatRecurrenceRule(recurrence))).toEqual(recurrence);
+			}),
+		);
+	});
+
+	it('understands the short "every Monday" and "when done" forms', () => {
+		expect(parseRecurrenceRule('every Monday')).toEqual({ type: 'weeks', interval: 1, dayOfWeek: 1 });
+		expect(parseRecurrenceRule('every 3 days when done')).toEqual({ type: 'days', interval: 3 });
+		expect(parseRecurrenceRule('every week on the 3rd')).toBeNull();
+	});
+});
+
+describe('parseTaskFile / serializeTaskFile', () => {
+	it.each(FORMATS)('round-trips all FocusData (%s format)', (format) => {
+		fc.assert(
+			fc.property(focusDataArb, (data) => {
+				expect(parseTaskFile(serializeTaskFile(data, { format }), { format })).toEqual(data);
+			}),
+		);
+	});
+
+	it('reaches a fixed point after one pass over hand-written files', () => {
+		fc.assert(
+			fc.property(handWrittenFileArb, (content) => {
+				const once = serializeTaskFile(parseTaskFile(content));
+				expect(serializeTaskFile(parseTaskFile(once))).toBe(once);
+			}),
+		);
+	});
+
+	it('means the same as a freshly written file after merging into the file it came from', () => {
+		fc.assert(
+			fc.property(handWrittenFileArb, (content) => {
+				const data = parseTaskFile(content);
+				const merged = serializeTaskFile(data, { previous: content });
+				expect(serializeTaskFile(parseTaskFile(merged))).toBe(serializeTaskFile(data));
+			}),
+		);
+	});
+
+	it('changes nothing when merging unchanged data a second time', () => {
+		fc.assert(
+			fc.property(handWrittenFileArb, (content) => {
+				const once = serializeTaskFile(parseTaskFile(content), { previous: content });
+				expect(serializeTaskFile(parseTaskFile(once), { previous: once })).toBe(once);
+			}),
+		);
+	});
+
+	it('keeps prose and indented lines in their original order when merging', () => {
+		const isFreeText = (line: string): boolean => line.trim() !== '' && !/^(-|#|  - |\w+:)/.test(line);
+		const isSubsequence = (needle: string[], haystack: string[]): boolean => {
+			let i = 0;
+			for (const line of haystack) {
+				if (i < needle.length && line === needle[i]) i++;
+			}
+			return i === needle.length;
+		};
+
+		fc.assert(
+			fc.property(handWrittenFileArb, (content) => {
+				// Repeated sections are merged into the first one, which may reorder their lines
+				const headings = content.split('\n').filter(line => line.startsWith('## ')).map(line => line.toLowerCase());
+				fc.pre(new Set(headings).size === headings.length);
+
+				const merged = serializeTaskFile(parseTaskFile(content), { previous: content });
+				expect(isSubsequence(content.split('\n').filter(isFreeText), merged.split('\n'))).toBe(true);
+			}),
+		);
+	});
+
+	it('rewrites only what changed and leaves everything else in place', () => {
+		const content = [
+			'---',
+			'weekOf: 2026-01-26',
+			'tags: [planning]',
+			'habitResetDate: 2026-01-27',
+			'goals:',
+			'  - Ship v2 ^g1',
+			'cssclasses:',
+			'  - wide',
+			'---',
+			'Intro prose.',
+			'',
+			'## Immediate',
+			'- [ ] Write spec   ⏰ 09:00 📅 2026-01-27 ^t1',
+			'    Remember the appendix',
+			'\t- [ ] outline',
+			'Between tasks.',
+			'- [ ] Review PR ^t2',
+			'',
+			'## This week',
+			'- [ ] Call dentist ^t3',
+			'',
+			'## Reading list',
+			'- [ ] Not a Focus task',
+			'',
+		].join('\n');
+
+		const data = parseTaskFile(content);
+		const [spec, review] = data.tasks.immediate;
+		review.completed = true;
+		data.tasks.immediate = [review];
+		data.tasks.thisWeek.push(spec);
+		data.goals.push({ id: 'g2', title: 'Rest' });
+
+		expect(serializeTaskFile(data, { previous: content })).toBe([
+			'---',
+			'weekOf: 2026-01-26',
+			'tags: [planning]',
+			'habitResetDate: 2026-01-27',
+			'goals:',
+			'  - Ship v2 ^g1',
+			'  - Rest ^g2',
+			'cssclasses:',
+			'  - wide',
+			'---',
+			'Intro prose.',
+			'',
+			'## Immediate',
+			'Between tasks.',
+			'- [x] Review PR ^t2',
+			'',
+			'## This week',
+			'- [ ] Call dentist ^t3',
+			'- [ ] Write spec   ⏰ 09:00 📅 2026-01-27 ^t1',
+			'    Remember the appendix',
+			'\t- [ ] outline',
+			'',
+			'## Unscheduled',
+			'',
+			'## Reading list',
+			'- [ ] Not a Focus task',
+			'',
+		].join('\n'));
+	});
+
+	it('reads indented checkboxes as a nested checklist', () => {
+		const content = [
+			'## Immediate',
+			'- [ ] Launch ^t1',
+			'\t- [x] Write copy',
+			'\t- [ ] Ship it',
+			'\t\t- [ ] Build',
+			'\t\t- [x] Deploy',
+			'  Some note',
+		].join('\n');
+		const [task] = parseTaskFile(content).tasks.immediate;
+		expect(task.subtasks).toEqual([
+			{ title: 'Write copy', completed: true },
+			{ title: 'Ship it', completed: false, subtasks: [{ title: 'Build', completed: false }, { title: 'Deploy', completed: true }] },
+		]);
+		expect(countSubtasks(task.subtasks)).toEqual({ done: 2, total: 4 });
+	});
+
+	it('updates checklist items in place and appends new ones after the other lines', () => {
+		const content = ['## Immediate', '- [ ] Launch ^t1', '    - [ ] Write copy', '    Some note', ''].join('\n');
+		const data = parseTaskFile(content);
+		const [task] = data.tasks.immediate;
+
+		task.subtasks![0].completed = true;
+		const toggled = serializeTaskFile(data, { previous: content });
+		expect(toggled).toContain(['- [ ] Launch ^t1', '    - [x] Write copy', '    Some note', ''].join('\n'));
+
+		task.subtasks!.push({ title: 'Ship it', completed: false });
+		expect(serializeTaskFile(data, { previous: toggled })).toContain(
+			['- [ ] Launch ^t1', '    Some note', '\t- [x] Write copy', '\t- [ ] Ship it', ''].join('\n'),
+		);
+	});
+
+	it('reads the other indented lines under a task as its notes', () => {
+		const content = ['## This week', '- [ ] Plan trip ^t1', '    Book flights', '    ', '      then hotels', '    - [ ] Pack', ''].join('\n');
+		const [task] = parseTaskFile(content).tasks.thisWeek;
+		expect(task.notes).toBe('Book flights\n\n  then hotels');
+		expect(task.subtasks).toEqual([{ title: 'Pack', completed: false }]);
+	});
+
+	it('rewrites notes above the checklist only when they change', () => {
+		const content = ['## This week', '- [ ] Plan trip ^t1', '    Book flights', '    - [ ] Pack', ''].join('\n');
+		const data = parseTaskFile(content);
+		expect(serializeTaskFile(data, { previous: content })).toContain(content);
+
+		data.tasks.thisWeek[0].notes = 'Book flights\n\nAsk about visas';
+		expect(serializeTaskFile(data, { previous: content })).toContain(
+			['- [ ] Plan trip ^t1', '\tBook flights', '\t', '\tAsk about visas', '    - [ ] Pack', ''].join('\n'),
+		);
+	});
+
+	it('keeps at most three habits', () => {
+		const content = ['## Daily Habits', '- [ ] One', '- [ ] Two', '- [x] Three', '- [ ] Four'].join('\n');
+		expect(parseTaskFile(content).habits.map(h => h.title)).toEqual(['One', 'Two', 'Three']);
+	});
+
+	it('files archived tasks under their month and marks them completed', () => {
+		const content = ['## Completed', '', '### March 2026', '- [ ] Forgot the box ✅ 2026-03-02 ^t1', '', '### Smarch 2026', '- [x] Lost ^t2'].join('\n');
+		const data = parseTaskFile(content);
+		expect(Object.keys(data.completedTasks)).toEqual(['2026-03']);
+		expect(data.completedTasks['2026-03'][0]).toMatchObject({ id: 't1', completed: true, completedAt: '2026-03-02' });
+	});
+});
+
+describe('parseFrontmatter', () => {
+	it('reads weekOf, habitResetDate and goals', () => {
+		const content = '---\nweekOf: 2026-01-26\nhabitResetDate: 2026-01-27\ngoals:\n  - Ship v2 ^g1\n  - Rest\n---\n## Immediate\n';
+		const result = parseFrontmatter(content);
+		expect(result.weekOf).toBe('2026-01-26');
+		expect(result.habitResetDate).toBe('2026-01-27');
+		expect(result.goals[0]).toEqual({ id: 'g1', title: 'Ship v2' });
+		expect(result.goals[1].title).toBe('Rest');
+		expect(content.slice(result.bodyStart)).toBe('\n## Immediate\n');
+	});
+
+	it('falls back to today without frontmatter', () => {
+		const today = new Date().toISOString().split('T')[0];
+		expect(parseFrontmatter('## Immediate\n')).toEqual({ weekOf: today, habitResetDate: today, goals: [], bodyStart: 0 });
+	});
+});
+
+describe('computeNextRecurrenceDate', () => {
+	const daysBetween = (a: string, b: string): number =>
+		Math.round((new Date(b + 'T00:00:00Z').getTime() - new Date(a + 'T00:00:00Z').getTime()) / 86400000);
+
+	it('adds N days', () => {
+		fc.assert(
+			fc.property(isoDateArb, fc.integer({ min: 1, max: 365 }), (from, interval) => {
+				expect(daysBetween(from, computeNextRecurrenceDate({ type: 'days', interval }, from))).toBe(interval);
+			}),
+		);
+	});
+
+	it('adds N weeks', () => {
+		fc.assert(
+			fc.property(isoDateArb, fc.integer({ min: 1, max: 52 }), (from, interval) => {
+				expect(daysBetween(from, computeNextRecurrenceDate({ type: 'weeks', interval }, from))).toBe(interval * 7);
+			}),
+		);
+	});
+
+	it('lands on the requested day of month, clamped to the month length', () => {
+		fc.assert(
+			fc.property(isoDateArb, fc.integer({ min: 1, max: 12 }), fc.integer({ min: 1, max: 31 }), (from, interval, dayOfMonth) => {
+				const next = computeNextRecurrenceDate({ type: 'months', interval, dayOfMonth }, from);
+				const [year, month, day] = next.split('-').map(Number);
+				const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+				expect(day).toBe(Math.min(dayOfMonth, lastDay));
+				expect(daysBetween(from, next)).toBeGreaterThan(0);
+			}),
+		);
+	});
+
+	it('clamps the 31st to the end of February', () => {
+		expect(computeNextRecurrenceDate({ type: 'months', interval: 1, dayOfMonth: 31 }, '2026-01-31')).toBe('2026-02-28');
+	});
+});
+
+describe('weekly rollover', () => {
+	it('starts the week on the Monday on or before the given day', () => {
+		fc.assert(
+			fc.property(isoDateArb, (iso) => {
+				const [year, month, day] = iso.split('-').map(Number);
+				const weekStart = getCurrentWeekStart(new Date(year, month - 1, day, 23, 30));
+				const [wYear, wMonth, wDay] = weekStart.split('-').map(Number);
+				const monday = new Date(wYear, wMonth - 1, wDay);
+				const daysBack = Math.round((new Date(year, month - 1, day).getTime() - monday.getTime()) / 86400000);
+				expect(monday.getDay()).toBe(1);
+				expect(daysBack).toBeGreaterThanOrEqual(0);
+				expect(daysBack).toBeLessThan(7);
+			}),
+		);
+	});
+
+	it('moves each incomplete task down at most one section and only once per week', () => {
+		fc.assert(
+			fc.property(focusDataArb, fc.boolean(), fc.boolean(), (data, immediateToThisWeek, thisWeekToUnscheduled) => {
+				const before = structuredClone(data);
+				const weekStart = '2100-01-04';
+				const summary = rollOverWeek(data, { immediateToThisWeek, thisWeekToUnscheduled }, weekStart);
+
+				const incomplete = (tasks: Task[]) => tasks.filter(t => !t.completed).map(t => t.id);
+				expect(summary.toThisWeek.map(t => t.id)).toEqual(immediateToThisWeek ? incomplete(before.tasks.immediate) : []);
+				expect(summary.toUnscheduled.map(t => t.id)).toEqual(thisWeekToUnscheduled ? incomplete(before.tasks.thisWeek) : []);
+
+				for (const section of SECTIONS) {
+					expect(data.tasks[section].every(t => t.section === section)).toBe(true);
+				}
+				const count = (d: FocusData) => SECTIONS.reduce((n, section) => n + d.tasks[section].length, 0);
+				expect(count(data)).toBe(count(before));
+
+				expect(data.weekOf).toBe(weekStart);
+				expect(needsWeeklyRollover(data, weekStart)).toBe(false);
+			}),
+		);
+	});
+
+	it('only rolls over a file from an earlier week', () => {
+		const data = { weekOf: '2026-01-26' } as FocusData;
+		expect(needsWeeklyRollover(data, '2026-01-26')).toBe(false);
+		expect(needsWeeklyRollover(data, '2026-02-02')).toBe(true);
+		// A device whose clock is behind never moves the week backwards
+		expect(needsWeeklyRollover(data, '2026-01-19')).toBe(false);
+	});
+});
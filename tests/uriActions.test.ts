@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { findUriTasks, parseAddParams } from '../src/uriActions';
+import { FocusData } from '../src/types';
+
+// Monday
+const now = new Date(2026, 9, 19, 10, 0);
+
+describe('parseAddParams', () => {
+	it('reads the title like quick add, with the section from its parameter', () => {
+		expect(parseAddParams({ title: 'Call Sam tomorrow at 3pm', section: 'this-week' }, now)).toEqual({
+			title: 'Call Sam',
+			section: 'thisWeek',
+			url: undefined,
+			doDate: '2026-10-20',
+			doTime: '15:00',
+			recurrence: undefined,
+		});
+	});
+
+	it('lets the parameters override the title', () => {
+		const task = parseAddParams({
+			title: 'Pay rent tomorrow',
+			date: '2026-11-01',
+			time: '9:30',
+			repeat: 'every month on the 1st',
+			url: 'https://bank.example',
+		}, now);
+		expect(task).toMatchObject({
+			title: 'Pay rent',
+			section: 'unscheduled',
+			doDate: '2026-11-01',
+			doTime: '09:30',
+			recurrence: { type: 'months', interval: 1, dayOfMonth: 1 },
+			url: 'https://bank.example',
+		});
+		expect(parseAddParams({ title: 'Review', date: 'friday' }, now)).toMatchObject({ doDate: '2026-10-23' });
+	});
+
+	it('names the parameter it could not read', () => {
+		expect(parseAddParams({}, now)).toEqual({ error: 'a title is needed' });
+		expect(parseAddParams({ title: 'A', section: 'later' }, now)).toEqual({ error: 'unknown section "later"' });
+		expect(parseAddParams({ title: 'A', date: 'someday' }, now)).toEqual({ error: 'unrecognised date "someday"' });
+		expect(parseAddParams({ title: 'A', time: '25:00' }, now)).toEqual({ error: 'unrecognised time "25:00"' });
+		expect(parseAddParams({ title: 'A', repeat: 'sometimes' }, now)).toEqual({ error: 'unrecognised repeat "sometimes"' });
+	});
+});
+
+describe('findUriTasks', () => {
+	const data: FocusData = {
+		weekOf: '2026-10-19',
+		goals: [],
+		habits: [],
+		habitResetDate: '2026-10-19',
+		tasks: {
+			immediate: [{ id: 'a1', title: 'Call Sam', completed: false, section: 'immediate' }],
+			thisWeek: [
+				{ id: 'b1', title: 'call sam', completed: false, section: 'thisWeek' },
+				{ id: 'b2', title: 'Pack', completed: true, section: 'thisWeek' },
+			],
+			unscheduled: [],
+		},
+		completedTasks: {},
+	};
+
+	it('finds open tasks by ID, or else by title', () => {
+		expect(findUriTasks(data, { id: 'b1', title: 'Pack' }).map(t => t.id)).toEqual(['b1']);
+		expect(findUriTasks(data, { title: ' CALL SAM ' }).map(t => t.id)).toEqual(['a1', 'b1']);
+		expect(findUriTasks(data, { title: 'Pack' })).toEqual([]);
+		expect(findUriTasks(data, {})).toEqual([]);
+	});
+});
@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'vitest';
+import {
+	addAnchor,
+	anchorOf,
+	applySourceTasks,
+	deletedSourceTasks,
+	editedSourceTasks,
+	findSourceLine,
+	inSyncScope,
+	matchesGlob,
+	optsOutOfSync,
+	removeSourceLine,
+	removeSourceTasks,
+	scanNoteTasks,
+	writeAnchors,
+	writeBackLine,
+} from '../src/vaultSync';
+import { FocusData, Task } from '../src/types';
+
+const emptyData = (): FocusData => ({
+	weekOf: '2026-01-26',
+	goals: [],
+	habits: [],
+	habitResetDate: '2026-01-27',
+	tasks: { immediate: [], thisWeek: [], unscheduled: [] },
+	completedTasks: {},
+});
+
+/**
+ * Syncs a note into `data` and writes the anchors back, as the plugin does
+ */
+function sync(data: FocusData, path: string, note: string): string {
+	const result = applySourceTasks(data, path, scanNoteTasks(note, 'focus'));
+	const lines = note.split('\n');
+	writeAnchors(lines, result.anchors);
+	return lines.join('\n');
+}
+
+describe('scanNoteTasks', () => {
+	it('finds checkboxes with their anchors, filtered by tag', () => {
+		const note = '# Notes\n- [ ] Follow up #focus ^focus-abc\n- [x] Done #focus\n- [ ] Untagged\nText';
+		const tasks = scanNoteTasks(note, 'focus', '#focus');
+		expect(tasks.map(t => [t.line, t.parsed.title, t.completed, t.anchor])).toEqual([
+			[1, 'Follow up #focus', false, 'abc'],
+			[2, 'Done #focus', true, undefined],
+		]);
+	});
+
+	it('reads dates in the dialect it is given', () => {
+		expect(scanNoteTasks('- [ ] Pay rent 📅 2026-02-01', 'tasks')[0].parsed).toMatchObject({ title: 'Pay rent', dueDate: '2026-02-01' });
+		expect(scanNoteTasks('- [ ] Pay rent 📅 2026-02-01', 'focus')[0].parsed).toMatchObject({ title: 'Pay rent', doDate: '2026-02-01' });
+	});
+});
+
+describe('sync scope', () => {
+	it('matches folders by path and globs by folder name', () => {
+		expect(matchesGlob('Templates/Daily.md', 'Templates')).toBe(true);
+		expect(matchesGlob('Templates/Daily.md', '/Templates/')).toBe(true);
+		expect(matchesGlob('TemplatesOld/Daily.md', 'Templates')).toBe(false);
+		expect(matchesGlob('Areas/Work/Templates/Meeting.md', '**/Templates')).toBe(true);
+		expect(matchesGlob('Areas/Work/plan.md', 'Areas/*.md')).toBe(false);
+		expect(matchesGlob('Areas/Work/plan.md', 'Areas/**/*.md')).toBe(true);
+		expect(matchesGlob('Areas/plan.md', 'Areas/**/*.md')).toBe(true);
+		expect(matchesGlob('2026-01-0?.md', '2026-01-0?.md')).toBe(true);
+	});
+
+	it('reads included notes unless they are excluded', () => {
+		expect(inSyncScope('Inbox.md', [], [])).toBe(true);
+		expect(inSyncScope('Inbox.md', ['Projects', ''], [])).toBe(false);
+		expect(inSyncScope('Projects/a.md', ['Projects'], ['Projects/Archive'])).toBe(true);
+		expect(inSyncScope('Projects/Archive/a.md', ['Projects'], ['Projects/Archive'])).toBe(false);
+	});
+
+	it('lets a note opt out in its frontmatter', () => {
+		expect(optsOutOfSync({ focus: false })).toBe(true);
+		expect(optsOutOfSync({ focus: 'False' })).toBe(true);
+		expect(optsOutOfSync({ focus: true })).toBe(false);
+		expect(optsOutOfSync(undefined)).toBe(false);
+	});
+});
+
+describe('anchors', () => {
+	it('are added to the end of a line, unless it has a block ID of its own', () => {
+		expect(addAnchor('- [ ] Call Sam 📅 2026-02-01  ', 'k3j9')).toBe('- [ ] Call Sam 📅 2026-02-01 ^focus-k3j9');
+		expect(addAnchor('- [ ] Call Sam ^mine', 'k3j9')).toBeNull();
+		expect(anchorOf('- [ ] Call Sam ^focus-k3j9')).toBe('k3j9');
+		expect(anchorOf('- [ ] Call Sam ^mine')).toBeUndefined();
+	});
+});
+
+describe('applySourceTasks', () => {
+	it('keeps tasks with the same title in two notes apart', () => {
+		const data = emptyData();
+		const a = sync(data, 'a.md', '- [ ] Follow up');
+		const b = sync(data, 'b.md', '- [ ] Follow up');
+		expect(data.tasks.unscheduled.map(t => t.sourceFile)).toEqual(['a.md', 'b.md']);
+
+		// Completing one doesn't touch the other
+		applySourceTasks(data, 'b.md', scanNoteTasks(b.replace('[ ]', '[x]'), 'focus'));
+		expect(data.tasks.unscheduled.map(t => t.completed)).toEqual([false, true]);
+		expect(a).toBe(`- [ ] Follow up ^focus-${data.tasks.unscheduled[0].id}`);
+	});
+
+	it('follows an anchored line through edits to its text', () => {
+		const data = emptyData();
+		const note = sync(data, 'a.md', '- [ ] Draft plan');
+		const edited = `# Moved down\n\n${note.replace('Draft plan', 'Draft plan 📅 2026-02-03 #work')}`;
+
+		const result = applySourceTasks(data, 'a.md', scanNoteTasks(edited, 'focus'));
+		expect(result.added).toBe(0);
+		expect(result.anchors).toEqual([]);
+		expect(data.tasks.unscheduled).toHaveLength(1);
+		expect(data.tasks.unscheduled[0].sourceLine).toBe(3);
+	});
+
+	it('links tasks synced before anchors by title and doesn\'t re-add removed ones', () => {
+		const data = emptyData();
+		const legacy: Task = { id: 'old1', title: 'Water plants', completed: false, section: 'thisWeek', sourceFile: 'a.md', sourceLine: 1 };
+		data.tasks.thisWeek.push(legacy);
+
+		const note = sync(data, 'a.md', '- [ ] Water plants\n- [ ] Removed from Focus ^focus-gone');
+		expect(note).toBe('- [ ] Water plants ^focus-old1\n- [ ] Removed from Focus ^focus-gone');
+		expect(data.tasks.thisWeek).toEqual([legacy]);
+		expect(data.tasks.unscheduled).toEqual([]);
+	});
+
+	it('links an unanchored line by title when it carries a section tag', () => {
+		const data = emptyData();
+		const task: Task = { id: 'old1', title: 'Water plants', completed: false, section: 'immediate', sourceFile: 'a.md', sourceLine: 1 };
+		data.tasks.immediate.push(task);
+
+		const note = sync(data, 'a.md', '- [ ] Water plants #focus/immediate');
+		expect(note).toBe('- [ ] Water plants #focus/immediate ^focus-old1');
+		expect(data.tasks.immediate).toHaveLength(1);
+		expect(data.tasks.unscheduled).toEqual([]);
+		expect(findSourceLine(['- [ ] Other', '- [ ] Water plants #focus/immediate'], task, 'focus')).toBe(1);
+	});
+
+	it('adds no task for a line that is already done', () => {
+		const data = emptyData();
+		const result = applySourceTasks(data, 'a.md', scanNoteTasks('- [x] Old chore', 'focus'));
+		expect(result.added).toBe(0);
+		expect(data.tasks.unscheduled).toEqual([]);
+	});
+});
+
+describe('reconciling edits', () => {
+	it('copies fields changed in the note and keeps those changed in Focus', () => {
+		const data = emptyData();
+		const note = sync(data, 'a.md', '- [ ] Draft plan');
+		const first = applySourceTasks(data, 'a.md', scanNoteTasks(note, 'focus'));
+
+		// Renamed in Focus, then dated and reprioritised in the note
+		const task = data.tasks.unscheduled[0];
+		task.title = 'Draft the plan';
+		const edited = note.replace('Draft plan', 'Draft plan ⏫ 📅 2026-02-03');
+		const result = applySourceTasks(data, 'a.md', scanNoteTasks(edited, 'focus'), first.tasks);
+
+		expect(result.updated).toBe(1);
+		expect(task).toMatchObject({ title: 'Draft the plan', doDate: '2026-02-03', priority: 'high' });
+
+		// A date removed in the note is removed from the task
+		applySourceTasks(data, 'a.md', scanNoteTasks(note, 'focus'), result.tasks);
+		expect(task.doDate).toBeUndefined();
+		expect(task.priority).toBeUndefined();
+	});
+
+	it('deletes or unlinks tasks whose line is gone', () => {
+		const data = emptyData();
+		sync(data, 'a.md', '- [ ] One\n- [ ] Two');
+		const [one, two] = data.tasks.unscheduled;
+
+		expect(removeSourceTasks(data, new Set([one.id]), 'keep')).toBe(1);
+		expect(data.tasks.unscheduled[0]).toEqual({ id: one.id, title: 'One', completed: false, section: 'unscheduled' });
+
+		expect(removeSourceTasks(data, new Set([two.id]), 'delete')).toBe(1);
+		expect(data.tasks.unscheduled.map(t => t.title)).toEqual(['One']);
+	});
+
+	it('finds source tasks deleted in Focus, but not completed ones', () => {
+		const before = emptyData();
+		sync(before, 'a.md', '- [ ] One\n- [ ] Two\n- [ ] Three');
+		const after = structuredClone(before);
+		const [, two, three] = after.tasks.unscheduled.splice(0, 3);
+		after.tasks.unscheduled.push(two);
+		after.completedTasks['2026-01'] = [{ ...three, completed: true }];
+
+		expect(deletedSourceTasks(before, after).map(t => t.title)).toEqual(['One']);
+	});
+
+	it('strikes through or deletes only the anchored line', () => {
+		const lines = ['- [ ] Call Sam', '- [ ] Call Sam 📅 2026-02-01 ^focus-k3j9', '- [ ] Other'];
+		expect(removeSourceLine(lines, 'k3j9', 'strike')).toBe(true);
+		expect(lines[1]).toBe('- [ ] ~~Call Sam 📅 2026-02-01~~ ^focus-k3j9');
+		expect(removeSourceLine(lines, 'k3j9', 'strike')).toBe(false);
+
+		expect(removeSourceLine(lines, 'k3j9', 'delete')).toBe(true);
+		expect(lines).toEqual(['- [ ] Call Sam', '- [ ] Other']);
+		expect(removeSourceLine(lines, 'k3j9', 'delete')).toBe(false);
+	});
+});
+
+describe('writing back', () => {
+	const task: Task = { id: 'k3j9', title: 'Call Sam', completed: false, section: 'immediate', sourceFile: 'a.md', sourceLine: 0 };
+	const line = '  - [ ] Call Sam ⏫ #work ^focus-k3j9';
+	const lastRead = { title: 'Call Sam #work', priority: 'high' as const };
+
+	it('writes a new date and keeps the rest of the line', () => {
+		const result = writeBackLine(line, { ...task, title: 'Call Sam #work', doDate: '2026-02-01', doTime: '09:30' }, lastRead, ['title', 'doDate'], 'focus');
+		expect(result.conflicts).toEqual([]);
+		expect(result.text.startsWith('  - [ ] Call Sam #work')).toBe(true);
+		expect(result.text).toContain('⏫');
+		expect(result.text).toContain('📅 2026-02-01');
+		expect(result.text).toContain('09:30');
+		expect(result.text.endsWith(' ^focus-k3j9')).toBe(true);
+		expect(result.fields).toMatchObject({ doDate: '2026-02-01', doTime: '09:30', priority: 'high' });
+	});
+
+	it('leaves a field the note changed since it was last read', () => {
+		const edited = '  - [ ] Call Sam back ⏫ #work ^focus-k3j9';
+		const result = writeBackLine(edited, { ...task, title: 'Call Sam today #work' }, lastRead, ['title'], 'focus');
+		expect(result.conflicts).toEqual(['title']);
+		expect(result.text).toBe(edited);
+	});
+
+	it('adds and moves the section tag', () => {
+		const tagged = writeBackLine(line, { ...task, title: 'Call Sam #work' }, lastRead, ['section'], 'focus').text;
+		expect(tagged).toBe('  - [ ] Call Sam #work #focus/immediate ⏫ ^focus-k3j9');
+		const moved = writeBackLine(tagged, { ...task, title: 'Call Sam #work', section: 'thisWeek' }, lastRead, ['section'], 'focus').text;
+		expect(moved).toBe('  - [ ] Call Sam #work #focus/this-week ⏫ ^focus-k3j9');
+
+		// The tag isn't part of the title Focus reads back
+		const fresh = applySourceTasks(emptyData(), 'b.md', scanNoteTasks('- [ ] Plan trip #focus/immediate', 'focus'));
+		expect(fresh.tasks[0].fields.title).toBe('Plan trip');
+	});
+
+	it('finds synced tasks edited in Focus in the chosen fields', () => {
+		const before = emptyData();
+		sync(before, 'a.md', '- [ ] One\n- [ ] Two\n- [ ] Three');
+		before.tasks.unscheduled.push({ id: 'local', title: 'Local', completed: false, section: 'unscheduled' });
+		const after = structuredClone(before);
+		const [one, two, three, local] = after.tasks.unscheduled;
+		one.title = 'One, renamed';
+		two.doDate = '2026-02-01';
+		three.priority = 'low';
+		local.title = 'Local, renamed';
+
+		expect(editedSourceTasks(before, after, ['title', 'doDate']).map(t => t.title)).toEqual(['One, renamed', 'Two']);
+		expect(editedSourceTasks(before, after, ['recurrence'])).toEqual([]);
+	});
+});
+
+describe('findSourceLine', () => {
+	const task: Task = { id: 'k3j9', title: 'Follow up', completed: false, section: 'unscheduled', sourceFile: 'a.md', sourceLine: 4 };
+
+	it('finds the anchored line wherever it moved', () => {
+		const lines = ['- [ ] Follow up', '', '- [ ] Follow up, renamed ^focus-k3j9'];
+		expect(findSourceLine(lines, task, 'focus')).toBe(2);
+	});
+
+	it('falls back to the same title nearest the last known line', () => {
+		const lines = ['- [ ] Follow up', '- [ ] Other ^focus-zz', '', '', '- [ ] Follow up', '- [ ] Follow up ^focus-x1'];
+		expect(findSourceLine(lines, task, 'focus')).toBe(4);
+		expect(findSourceLine(['- [ ] Something else'], task, 'focus')).toBe(-1);
+	});
+});